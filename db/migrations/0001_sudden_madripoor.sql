@@ -0,0 +1,2 @@
+ALTER TABLE `quotes` ADD `client_total_price` real;--> statement-breakpoint
+ALTER TABLE `quotes` ADD `price_flagged` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `pricing_configs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`version` integer NOT NULL,
+	`config` text NOT NULL,
+	`effective_from` integer NOT NULL,
+	`note` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `pricing_configs_version_unique` ON `pricing_configs` (`version`);--> statement-breakpoint
+CREATE INDEX `pricing_effective_from_idx` ON `pricing_configs` (`effective_from`);--> statement-breakpoint
+ALTER TABLE `quotes` ADD `pricing_version` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `quotes` ADD `price_items` text;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `promo_codes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`code` text NOT NULL,
+	`discount_type` text NOT NULL,
+	`discount_value` real NOT NULL,
+	`valid_from` integer,
+	`valid_until` integer,
+	`max_uses` integer,
+	`used_count` integer DEFAULT 0 NOT NULL,
+	`min_job_value` real,
+	`service_types` text,
+	`campaign` text,
+	`active` integer DEFAULT true NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `promo_codes_code_unique` ON `promo_codes` (`code`);--> statement-breakpoint
+ALTER TABLE `quotes` ADD `promo_code` text;--> statement-breakpoint
+CREATE INDEX `promo_code_idx` ON `quotes` (`promo_code`);
\ No newline at end of file
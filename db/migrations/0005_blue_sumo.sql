@@ -0,0 +1,2 @@
+ALTER TABLE `quotes` ADD `net_price` real;--> statement-breakpoint
+ALTER TABLE `quotes` ADD `vat_amount` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `quotes` ADD `inventory` text;
\ No newline at end of file
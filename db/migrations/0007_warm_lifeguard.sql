@@ -0,0 +1,2 @@
+ALTER TABLE `quotes` ADD `branch` text;--> statement-breakpoint
+CREATE INDEX `branch_idx` ON `quotes` (`branch`);
\ No newline at end of file
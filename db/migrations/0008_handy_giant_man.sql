@@ -0,0 +1,2 @@
+ALTER TABLE `quotes` ADD `insurance_cover` text;--> statement-breakpoint
+ALTER TABLE `quotes` ADD `declared_value` real;
\ No newline at end of file
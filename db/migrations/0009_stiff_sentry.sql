@@ -0,0 +1,22 @@
+CREATE TABLE `draft_leads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`name` text NOT NULL,
+	`email` text NOT NULL,
+	`phone` text,
+	`marketing_consent` integer DEFAULT false NOT NULL,
+	`service_type` text,
+	`abandoned_step` text NOT NULL,
+	`calculator_data` text NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`recovery_email_sent_at` integer,
+	`quote_id` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`quote_id`) REFERENCES `quotes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `draft_leads_session_id_unique` ON `draft_leads` (`session_id`);--> statement-breakpoint
+CREATE INDEX `draft_status_idx` ON `draft_leads` (`status`);--> statement-breakpoint
+CREATE INDEX `draft_updated_at_idx` ON `draft_leads` (`updated_at`);--> statement-breakpoint
+CREATE INDEX `abandoned_step_idx` ON `draft_leads` (`abandoned_step`);
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * PRICING PUBLISH SCRIPT
+ *
+ * Stores a new pricing config version with an effective date
+ *
+ * Usage:
+ *   npm run pricing:publish -- --defaults > pricing.json
+ *   npm run pricing:publish -- pricing.json 2026-11-01 "Winter van rates"
+ */
+
+import { readFileSync } from 'node:fs';
+import { DEFAULT_PRICING_CONFIG } from '../src/lib/calculator-pricing';
+import { publishPricingConfig } from '../src/lib/core/calculator/pricing';
+import { createDbClient } from '../src/lib/core/db/client';
+
+async function publish() {
+  const [file, effectiveFromArg, note] = process.argv.slice(2);
+
+  // Print the bundled config as a starting point for a new version
+  if (file === '--defaults') {
+    console.log(JSON.stringify(DEFAULT_PRICING_CONFIG, null, 2));
+    process.exit(0);
+  }
+
+  if (!file || !effectiveFromArg) {
+    console.error('[Pricing] Usage: publish-pricing <config.json> <effective-from> [note]');
+    process.exit(1);
+  }
+
+  const effectiveFrom = new Date(effectiveFromArg);
+  if (Number.isNaN(effectiveFrom.getTime())) {
+    console.error(`[Pricing] Invalid effective date: ${effectiveFromArg}`);
+    process.exit(1);
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[Pricing] Missing database credentials');
+    process.exit(1);
+  }
+
+  try {
+    const config = JSON.parse(readFileSync(file, 'utf8'));
+
+    const db = createDbClient({
+      TURSO_DATABASE_URL: process.env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: process.env.TURSO_AUTH_TOKEN,
+    });
+
+    const result = await publishPricingConfig(db, config, effectiveFrom, note);
+
+    if (!result.success) {
+      console.error(`[Pricing] ${result.error}`);
+      for (const issue of result.issues ?? []) {
+        console.error(`  - ${issue.path.join('.')}: ${issue.message}`);
+      }
+      process.exit(1);
+    }
+
+    console.log(
+      `[Pricing] ✓ Version ${result.record.version} effective from ${effectiveFrom.toISOString()}`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error('[Pricing] Failed:', error);
+    process.exit(1);
+  }
+}
+
+publish();
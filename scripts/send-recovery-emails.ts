@@ -0,0 +1,76 @@
+/**
+ * ABANDONED QUOTE RECOVERY SCRIPT
+ *
+ * Emails a resume link to draft leads (customers who left before their
+ * quote was saved) untouched for leadRecovery.delayHours, if they agreed
+ * to marketing. Then prints where abandoned quotes were left in the calculator
+ * (admins can also get this from GET /api/leads/funnel). Run as a cron job
+ *
+ * Usage:
+ *   npm run leads:recover
+ *   npm run leads:recover -- 48   (override the delay in hours)
+ */
+
+import { getRuntimeConfig } from '../src/lib/config';
+import { getAbandonmentReport, sendRecoveryEmails } from '../src/lib/core/calculator/leads';
+import { createDbClient } from '../src/lib/core/db/client';
+import { getAbandonmentFunnel } from '../src/lib/core/db/queries';
+
+async function recover() {
+  console.log('[Recovery] Starting abandoned quote recovery...');
+
+  const [delayArg] = process.argv.slice(2);
+  const delayHours = delayArg === undefined ? undefined : Number(delayArg);
+
+  if (delayHours !== undefined && !(delayHours >= 0)) {
+    console.error(`[Recovery] Invalid delay: ${delayArg}`);
+    process.exit(1);
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[Recovery] Missing database credentials');
+    process.exit(1);
+  }
+
+  const runtimeConfig = getRuntimeConfig(process.env);
+
+  if (!runtimeConfig.email.resendApiKey || !runtimeConfig.sessions.secret) {
+    console.error('[Recovery] RESEND_API_KEY and SESSION_SECRET are required');
+    process.exit(1);
+  }
+
+  try {
+    const db = createDbClient({
+      TURSO_DATABASE_URL: process.env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: process.env.TURSO_AUTH_TOKEN,
+    });
+
+    const { sent, failed } = await sendRecoveryEmails(
+      db,
+      {
+        email: runtimeConfig.email,
+        sessions: runtimeConfig.sessions,
+        siteUrl: process.env.SITE_URL || 'https://your-domain.com',
+      },
+      new Date(),
+      delayHours
+    );
+
+    console.log(`[Recovery] ✓ Sent ${sent} recovery emails (${failed} failed)`);
+
+    const report = getAbandonmentReport(await getAbandonmentFunnel(db));
+
+    console.log(`[Recovery] Abandoned quotes by step (${report.total} total):`);
+    for (const { step, count, percent } of report.steps) {
+      console.log(`  ${step}: ${count} (${percent}%)`);
+    }
+
+    console.log('[Recovery] Complete');
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('[Recovery] Failed:', error);
+    process.exit(1);
+  }
+}
+
+recover();
@@ -1,108 +1,178 @@
 /**
  * CALCULATOR STEP RENDERER
  *
- * Renders the appropriate step component based on the step ID.
- * Used by the Astro page to hydrate the correct React component.
+ * Renders the current step and owns navigation between steps.
+ * The Astro page server-renders the step in the URL; after that, steps
+ * change client-side (History API via the store) without a page reload.
+ * Step components are split out and the next step in the flow is
+ * prefetched while the customer answers the current one.
  */
 
 import * as React from 'react';
-import { useEffect, useLayoutEffect, useCallback } from 'react';
-import { initializeStore, goToStep } from '@/lib/calculator-store';
-
-// Step components
-import { Step1ServiceType } from './steps/Step1ServiceType';
-import { Step2PropertySize } from './steps/Step2PropertySize';
-import { Step3BelongingsSlider } from './steps/Step3BelongingsSlider';
-import { Step4Recommendation } from './steps/Step4Recommendation';
-import { Step5DateSelection } from './steps/Step5DateSelection';
-import { Step5bDatePicker } from './steps/Step5bDatePicker';
-import { Step6Complications } from './steps/Step6Complications';
-import { Step7PropertyChain } from './steps/Step7PropertyChain';
-import { Step8AddressSelection } from './steps/Step8AddressSelection';
-import { Step10ExtrasGateway } from './steps/Step10ExtrasGateway';
-import { Step10aPacking } from './steps/Step10aPacking';
-import { Step10bDisassembly } from './steps/Step10bDisassembly';
-import { Step10cCleaning } from './steps/Step10cCleaning';
-import { Step10dStorage } from './steps/Step10dStorage';
-import { Step11Contact } from './steps/Step11Contact';
-import { Step12Quote } from './steps/Step12Quote';
+import { lazy, Suspense, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  initializeStore,
+  goToStep,
+  syncStepFromUrl,
+  calculatorStore,
+  applicableSteps,
+} from '@/lib/calculator-store';
+import { getStepDefinition, isStepId, type StepId } from '@/lib/calculator-steps';
+import { ResumeLink } from './resume-link';
 
-interface CalculatorStepRendererProps {
-  stepId: string;
-}
+type StepModule = { default: React.ComponentType };
 
-const stepComponents: Record<string, React.ComponentType> = {
-  'step-01': Step1ServiceType,
-  'step-02': Step2PropertySize,
-  'step-03': Step3BelongingsSlider,
-  'step-04': Step4Recommendation,
-  'step-05': Step5DateSelection,
-  'step-5b': Step5bDatePicker,
-  'step-06': Step6Complications,
-  'step-07': Step7PropertyChain,
-  'step-08': Step8AddressSelection,
-  'step-09': Step8AddressSelection, // Combined with step-08
-  'step-10': Step10ExtrasGateway,
-  'step-10a': Step10aPacking,
-  'step-10b': Step10bDisassembly,
-  'step-10c': Step10cCleaning,
-  'step-10d': Step10dStorage,
-  'step-11': Step11Contact,
-  'step-12': Step12Quote,
+// One component per step in the step graph, loaded on demand
+const stepLoaders: Record<StepId, () => Promise<StepModule>> = {
+  'step-01': () => import('./steps/Step1ServiceType'),
+  'step-02': () => import('./steps/Step2PropertySize'),
+  'step-03': () => import('./steps/Step3BelongingsSlider'),
+  'step-03a': () => import('./steps/Step3aInventory'),
+  'step-04': () => import('./steps/Step4Recommendation'),
+  'step-05': () => import('./steps/Step5DateSelection'),
+  'step-05b': () => import('./steps/Step5bDatePicker'),
+  'step-06': () => import('./steps/Step6Complications'),
+  'step-07': () => import('./steps/Step7PropertyChain'),
+  'step-08': () => import('./steps/Step8AddressSelection'), // From, stops and to on one page
+  'step-10': () => import('./steps/Step10ExtrasGateway'),
+  'step-10a': () => import('./steps/Step10aPacking'),
+  'step-10b': () => import('./steps/Step10bDisassembly'),
+  'step-10c': () => import('./steps/Step10cCleaning'),
+  'step-10d': () => import('./steps/Step10dStorage'),
+  'step-10e': () => import('./steps/Step10eInsurance'),
+  'step-11': () => import('./steps/Step11Contact'),
+  'step-12': () => import('./steps/Step12Quote'),
 };
 
+const stepComponents = Object.fromEntries(
+  Object.entries(stepLoaders).map(([id, load]) => [id, lazy(load)])
+) as Record<StepId, React.LazyExoticComponent<React.ComponentType>>;
+
 /**
- * Parse step number from stepId
+ * Load a step's component ahead of time (module imports are cached)
  */
-function parseStepNumber(stepId: string): number {
-  if (stepId === 'step-10a') return 10.1;
-  if (stepId === 'step-10b') return 10.2;
-  if (stepId === 'step-10c') return 10.3;
-  if (stepId === 'step-10d') return 10.4;
-  return parseInt(stepId.replace('step-', ''), 10);
+function prefetchStep(id: StepId) {
+  stepLoaders[id]().catch((e) => console.warn(`Failed to prefetch ${id}:`, e));
+}
+
+// Matches the <title> in layout-calculator.astro
+function getDocumentTitle(id: StepId) {
+  return `${getStepDefinition(id).title.en} | Calculator Boilerplate`;
+}
+
+interface CalculatorStepRendererProps {
+  stepId: string;
 }
 
 export const CalculatorStepRenderer: React.FC<CalculatorStepRendererProps> = ({ stepId }) => {
-  const stepNumber = parseStepNumber(stepId);
-  const isValidStep = (!isNaN(stepNumber) && stepNumber >= 1 && stepNumber <= 12) ||
-    (stepNumber >= 10.1 && stepNumber <= 10.4);
+  const { currentStep } = useStore(calculatorStore);
+  const flowSteps = useStore(applicableSteps);
+  const stepRef = useRef<HTMLDivElement>(null);
 
-  // Sync step function - used for initial mount and bfcache restore
-  const syncStep = useCallback(() => {
-    initializeStore();
-    if (isValidStep) {
-      goToStep(stepNumber, false);
-    }
-  }, [stepNumber, isValidStep]);
+  // Render the server's step until the store is initialized (prevents a hydration mismatch)
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Only animate and move focus for client-side step changes, not the first page load
+  const [hasNavigated, setHasNavigated] = useState(false);
+  const renderedStep = useRef<StepId | null>(null);
+
+  const activeStep = isHydrated ? currentStep : stepId;
 
   // Use useLayoutEffect to sync BEFORE render (prevents flash of wrong state)
   useLayoutEffect(() => {
-    syncStep();
-  }, [syncStep]);
+    initializeStore();
+    if (isStepId(stepId)) {
+      goToStep(stepId, false);
+    }
+    setIsHydrated(true);
+  }, [stepId]);
 
-  // Handle browser back/forward cache (bfcache)
-  // When page is restored from bfcache, useEffect doesn't run again
+  // Browser back/forward between steps, and pages restored from the
+  // back/forward cache (bfcache) - both follow the URL
   useEffect(() => {
+    const handlePopState = () => syncStepFromUrl();
     const handlePageShow = (event: PageTransitionEvent) => {
       // persisted = true means page was restored from bfcache
       if (event.persisted) {
-        syncStep();
+        initializeStore();
       }
     };
 
+    window.addEventListener('popstate', handlePopState);
     window.addEventListener('pageshow', handlePageShow);
-    return () => window.removeEventListener('pageshow', handlePageShow);
-  }, [syncStep]);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener('pageshow', handlePageShow);
+    };
+  }, []);
+
+  // After a client-side step change: update the title, scroll up and move
+  // focus to the new step so screen readers start reading from it
+  useEffect(() => {
+    if (!isHydrated || !isStepId(activeStep)) return;
+
+    if (renderedStep.current === null) {
+      renderedStep.current = activeStep;
+      return;
+    }
+    if (renderedStep.current === activeStep) return;
+    renderedStep.current = activeStep;
+
+    setHasNavigated(true);
+    document.title = getDocumentTitle(activeStep);
+    window.scrollTo({ top: 0 });
+    stepRef.current?.focus({ preventScroll: true });
+  }, [isHydrated, activeStep]);
 
-  const StepComponent = stepComponents[stepId];
+  // Prefetch the next step in the flow once the browser is idle
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    const next = flowSteps[flowSteps.indexOf(currentStep) + 1];
+    if (!next) return;
+
+    if ('requestIdleCallback' in window) {
+      const handle = window.requestIdleCallback(() => prefetchStep(next));
+      return () => window.cancelIdleCallback(handle);
+    }
+    const timer = setTimeout(() => prefetchStep(next), 200);
+    return () => clearTimeout(timer);
+  }, [isHydrated, currentStep, flowSteps]);
 
-  if (!StepComponent) {
+  if (!isStepId(activeStep)) {
     return (
       <div className="text-center py-12">
-        <p className="text-destructive">Step not found: {stepId}</p>
+        <p className="text-destructive">Step not found: {activeStep}</p>
       </div>
     );
   }
 
-  return <StepComponent />;
+  const StepComponent = stepComponents[activeStep];
+  const title = getStepDefinition(activeStep).title.en;
+  const position = flowSteps.indexOf(activeStep) + 1;
+
+  // Offer to finish later once there are answers to save, until the quote is shown
+  const canFinishLater = activeStep !== 'step-01' && activeStep !== 'step-12';
+
+  return (
+    <>
+      {/* Announced on each step change */}
+      <p className="sr-only" aria-live="polite">
+        {hasNavigated &&
+          (position > 0 ? `Step ${position} of ${flowSteps.length}: ${title}` : title)}
+      </p>
+      <div
+        key={activeStep}
+        ref={stepRef}
+        tabIndex={-1}
+        aria-label={title}
+        className={hasNavigated ? 'outline-none motion-safe:animate-step-in' : 'outline-none'}
+      >
+        <Suspense fallback={<div className="min-h-[50vh]" aria-busy="true" />}>
+          <StepComponent />
+        </Suspense>
+      </div>
+      {canFinishLater && <ResumeLink className="mt-8" />}
+    </>
+  );
 };
@@ -2,8 +2,8 @@
  * PROGRESS BAR (React)
  *
  * Interactive progress bar with:
- * - Dynamic steps based on flow (furniture, office, home)
- * - Clickable steps (completed steps only)
+ * - Dynamic steps based on flow (from the step graph)
+ * - Clickable steps (back, or forward up to the first incomplete step)
  * - Scrollable on mobile with current step centered
  * - Brand color #035349
  */
@@ -11,37 +11,40 @@
 import * as React from 'react';
 import { useEffect, useRef, useState } from 'react';
 import { useStore } from '@nanostores/react';
-import { CALCULATOR_STEPS } from '@/lib/core/calculator/config';
-import { calculatorStore, applicableSteps, goToStep } from '@/lib/calculator-store';
+import { calculatorStore, applicableSteps, defaultSteps, goToStep } from '@/lib/calculator-store';
+import { getStepDefinition, isStepReachable, type StepId } from '@/lib/calculator-steps';
 import { cn } from '@/lib/utils';
 
 interface ProgressBarReactProps {
-  currentStep: number;
+  /** Step the page was rendered for - the store's step once hydrated */
+  currentStep: StepId;
   className?: string;
 }
 
 const BRAND_COLOR = '#035349';
 
-// Default steps for SSR (full flow)
-const DEFAULT_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
-
 export const ProgressBarReact: React.FC<ProgressBarReactProps> = ({
-  currentStep,
+  currentStep: initialStep,
   className,
 }) => {
   const state = useStore(calculatorStore);
+  const flowSteps = useStore(applicableSteps);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const currentStepRef = useRef<HTMLButtonElement>(null);
 
   // Use state to avoid hydration mismatch - start with default steps
-  const [steps, setSteps] = useState<number[]>(DEFAULT_STEPS);
+  const [steps, setSteps] = useState<StepId[]>(defaultSteps);
   const [isHydrated, setIsHydrated] = useState(false);
 
   // Update steps after hydration when store is ready
   useEffect(() => {
     setIsHydrated(true);
-    setSteps(applicableSteps.get());
-  }, [state.propertySize, state.serviceType]);
+    setSteps(flowSteps);
+  }, [flowSteps]);
+
+  // Steps change client-side, so follow the store once the step renderer
+  // has initialized it
+  const currentStep = isHydrated && state.startedAt !== null ? state.currentStep : initialStep;
 
   const totalSteps = steps.length;
 
@@ -50,13 +53,14 @@ export const ProgressBarReact: React.FC<ProgressBarReactProps> = ({
   const progress = currentIndex >= 0 ? Math.round(((currentIndex + 1) / totalSteps) * 100) : 0;
 
   // Get step config for each applicable step
-  const displaySteps = steps.map((stepNum, index) => {
-    const stepConfig = CALCULATOR_STEPS.find(s => s.order === stepNum);
+  const displaySteps = steps.map((id, index) => {
+    const step = getStepDefinition(id);
     return {
-      order: stepNum,
+      id,
       displayOrder: index + 1,
-      title: stepConfig?.title.en || `Step ${stepNum}`,
-      id: stepConfig?.id || `step-${stepNum}`,
+      title: step.title.en,
+      isComplete: isHydrated && step.isComplete(state),
+      isReachable: isHydrated && isStepReachable(state, id),
     };
   });
 
@@ -78,10 +82,9 @@ export const ProgressBarReact: React.FC<ProgressBarReactProps> = ({
     }
   }, [currentStep, isHydrated]);
 
-  const handleStepClick = (stepOrder: number) => {
-    const clickedIndex = steps.indexOf(stepOrder);
-    if (clickedIndex < currentIndex && clickedIndex >= 0) {
-      goToStep(stepOrder);
+  const handleStepClick = (id: StepId) => {
+    if (id !== currentStep && isStepReachable(calculatorStore.get(), id)) {
+      goToStep(id);
     }
   };
 
@@ -109,17 +112,16 @@ export const ProgressBarReact: React.FC<ProgressBarReactProps> = ({
       >
         <div className="flex gap-1 md:gap-2 min-w-max md:min-w-0 md:justify-between py-2">
           {displaySteps.map((step, index) => {
-            const stepIndex = index;
-            const isCompleted = stepIndex < currentIndex;
-            const isCurrent = step.order === currentStep;
-            const isFuture = stepIndex > currentIndex;
-            const isClickable = isCompleted;
+            const isCurrent = step.id === currentStep;
+            const isCompleted = index < currentIndex && step.isComplete;
+            const isFuture = index > currentIndex;
+            const isClickable = !isCurrent && step.isReachable;
 
             return (
               <button
                 key={step.id}
                 ref={isCurrent ? currentStepRef : undefined}
-                onClick={() => handleStepClick(step.order)}
+                onClick={() => handleStepClick(step.id)}
                 disabled={!isClickable}
                 className={cn(
                   'flex flex-col items-center min-w-[60px] md:min-w-0 md:flex-1 transition-all duration-200',
@@ -2,9 +2,12 @@
  * PRICE DISPLAY
  * 
  * Shows calculated price with animation
+ * With VAT totals, leads with the inc. or ex. VAT figure
  */
 
 import * as React from 'react';
+import { CALCULATOR_CONFIG, type VatDisplay } from '@/lib/calculator-config';
+import type { VatTotals } from '@/lib/calculator-logic';
 import { formatPrice } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 
@@ -13,6 +16,8 @@ interface PriceDisplayProps {
   currency?: string;
   label?: string;
   breakdown?: Record<string, number>;
+  vat?: VatTotals;
+  vatDisplay?: VatDisplay;
   className?: string;
 }
 
@@ -21,21 +26,24 @@ export const PriceDisplay: React.FC<PriceDisplayProps> = ({
   currency = 'HUF',
   label = 'Total Price',
   breakdown,
+  vat,
+  vatDisplay = 'inc',
   className,
 }) => {
   const [displayAmount, setDisplayAmount] = React.useState(0);
+  const headlineAmount = vat && vatDisplay === 'ex' ? vat.net : amount;
 
   // Animate number change
   React.useEffect(() => {
     const duration = 500; // ms
     const steps = 30;
-    const stepValue = amount / steps;
+    const stepValue = headlineAmount / steps;
     let current = 0;
 
     const interval = setInterval(() => {
       current += stepValue;
-      if (current >= amount) {
-        setDisplayAmount(amount);
+      if (current >= headlineAmount) {
+        setDisplayAmount(headlineAmount);
         clearInterval(interval);
       } else {
         setDisplayAmount(Math.floor(current));
@@ -43,7 +51,7 @@ export const PriceDisplay: React.FC<PriceDisplayProps> = ({
     }, duration / steps);
 
     return () => clearInterval(interval);
-  }, [amount]);
+  }, [headlineAmount]);
 
   return (
     <div className={cn('rounded-lg border bg-card p-6', className)}>
@@ -51,6 +59,12 @@ export const PriceDisplay: React.FC<PriceDisplayProps> = ({
       <div className="text-center">
         <p className="text-sm text-muted-foreground mb-2">{label}</p>
         <p className="text-4xl font-bold text-primary">{formatPrice(displayAmount, currency)}</p>
+        {vat && (
+          <p className="text-sm text-muted-foreground mt-2">
+            {CALCULATOR_CONFIG.vat.labels[vatDisplay]} • {formatPrice(vat.net, currency)} + VAT{' '}
+            {formatPrice(vat.vat, currency)} = {formatPrice(vat.gross, currency)}
+          </p>
+        )}
       </div>
 
       {/* Breakdown */}
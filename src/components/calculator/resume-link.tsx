@@ -0,0 +1,83 @@
+/**
+ * RESUME LINK
+ *
+ * "Finish later?" - emails the customer a link to carry on
+ * from any device, with their answers so far
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { calculatorStore, sendResumeLink } from '@/lib/calculator-store';
+import { cn } from '@/lib/utils';
+import { useStore } from '@nanostores/react';
+import { type FC, useState } from 'react';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ResumeLinkProps {
+  className?: string;
+}
+
+export const ResumeLink: FC<ResumeLinkProps> = ({ className }) => {
+  const state = useStore(calculatorStore);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState(state.contact?.email || '');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    if (!EMAIL_REGEX.test(email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsSending(true);
+    const result = await sendResumeLink(email.trim());
+    setIsSending(false);
+
+    setError(result.success ? null : result.error || 'Could not send the link');
+    if (result.success) setSentTo(email.trim());
+  };
+
+  if (sentTo) {
+    return (
+      <p className={cn('text-center text-sm text-muted-foreground', className)}>
+        ✓ We've emailed a link to {sentTo} - use it to carry on from any device
+      </p>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <div className={cn('text-center', className)}>
+        <Button type="button" variant="link" size="sm" onClick={() => setIsOpen(true)}>
+          Finish later? Email me a link
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-2 rounded-lg border border-border p-4', className)}>
+      <Label htmlFor="resumeEmail">We'll email you a link to carry on from any device</Label>
+      <div className="flex gap-2">
+        <Input
+          id="resumeEmail"
+          type="email"
+          autoComplete="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={cn(error && 'border-destructive')}
+        />
+        <Button type="button" onClick={handleSend} disabled={isSending || !email.trim()}>
+          {isSending ? 'Sending...' : 'Send link'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -15,6 +15,7 @@ import {
   type CleaningType,
 } from '@/lib/calculator-store';
 import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import { getEstimatedRooms } from '@/lib/calculator-logic';
 import { NavigationButtons } from '@/components/calculator/navigation-buttons';
 import { cn } from '@/lib/utils';
 
@@ -30,21 +31,6 @@ function formatPrice(price: number): string {
   }).format(price);
 }
 
-// Get estimated rooms from property size
-function getEstimatedRooms(propertySize: string | null): number {
-  const roomMap: Record<string, number> = {
-    'studio': 1,
-    '1bed': 1,
-    '2bed': 2,
-    '3bed-small': 3,
-    '3bed-large': 3,
-    '4bed': 4,
-    '5bed': 5,
-    '5bed-plus': 6,
-  };
-  return propertySize ? (roomMap[propertySize] || 2) : 2;
-}
-
 export function Step10cCleaning() {
   const state = useStore(calculatorStore);
 
@@ -0,0 +1,161 @@
+/**
+ * STEP 10E: GOODS IN TRANSIT INSURANCE
+ *
+ * Optional cover for the customer's belongings on top of our standard
+ * liability. Priced as a share of the declared contents value.
+ * Also shown in the furniture-only flow, which has no other extras.
+ */
+
+import { NavigationButtons } from '@/components/calculator/navigation-buttons';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CALCULATOR_CONFIG, type InsuranceLevel } from '@/lib/calculator-config';
+import { getInsurancePremium } from '@/lib/calculator-logic';
+import {
+  calculatorStore,
+  nextStep,
+  prevStep,
+  pricingStore,
+  setInsurance,
+} from '@/lib/calculator-store';
+import { cn, formatPriceGBP } from '@/lib/utils';
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+
+const { maxDeclaredValue } = CALCULATOR_CONFIG.insurance;
+
+const levels = Object.entries(CALCULATOR_CONFIG.insurance.levels) as [
+  InsuranceLevel,
+  { label: string; description: string; itemLimit: number | null },
+][];
+
+export function Step10eInsurance() {
+  const state = useStore(calculatorStore);
+  const pricing = useStore(pricingStore);
+
+  // null = standard liability only
+  const [level, setLevel] = useState<InsuranceLevel | null>(state.extras.insurance?.level ?? null);
+  const [declaredValue, setDeclaredValue] = useState<string>(
+    state.extras.insurance ? String(state.extras.insurance.declaredValue) : ''
+  );
+
+  const value = Number(declaredValue);
+  const hasValidValue = Number.isFinite(value) && value > 0 && value <= maxDeclaredValue;
+  const canContinue = !level || hasValidValue;
+
+  const handleContinue = () => {
+    setInsurance(level && hasValidValue ? { level, declaredValue: value } : null);
+    nextStep();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Heading */}
+      <div className="text-center">
+        <h2 className="text-2xl font-semibold text-foreground">
+          Would you like to insure your belongings?
+        </h2>
+        <p className="text-muted-foreground mt-2">
+          Goods in transit cover for loss or damage while we move your things
+        </p>
+      </div>
+
+      {/* Declared value */}
+      <div className="space-y-2">
+        <Label htmlFor="declaredValue">What are your belongings worth, roughly?</Label>
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">£</span>
+          <Input
+            id="declaredValue"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={maxDeclaredValue}
+            placeholder="25000"
+            value={declaredValue}
+            onChange={(e) => setDeclaredValue(e.target.value)}
+            className={cn('pl-7', level && declaredValue && !hasValidValue && 'border-destructive')}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The replacement cost of everything we're moving (up to {formatPriceGBP(maxDeclaredValue)})
+        </p>
+      </div>
+
+      {/* Cover levels */}
+      <div className="space-y-3">
+        <CoverOption
+          title="Standard liability only"
+          description="No extra cover - our standard terms apply"
+          price="Included"
+          isSelected={level === null}
+          onSelect={() => setLevel(null)}
+        />
+        {levels.map(([key, config]) => (
+          <CoverOption
+            key={key}
+            title={config.label}
+            description={config.description}
+            price={
+              hasValidValue
+                ? formatPriceGBP(
+                    getInsurancePremium({ level: key, declaredValue: value }, pricing.config)
+                  )
+                : `From ${formatPriceGBP(pricing.config.insurance.levels[key].minimum)}`
+            }
+            isSelected={level === key}
+            onSelect={() => setLevel(key)}
+          />
+        ))}
+      </div>
+
+      {/* Validation message */}
+      {!canContinue && (
+        <p className="text-center text-sm text-muted-foreground">
+          Enter the value of your belongings to add cover
+        </p>
+      )}
+
+      {/* Navigation */}
+      <NavigationButtons
+        onPrevious={prevStep}
+        onNext={handleContinue}
+        canGoNext={canContinue}
+        nextLabel="Continue"
+      />
+    </div>
+  );
+}
+
+// Cover option card
+interface CoverOptionProps {
+  title: string;
+  description: string;
+  price: string;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+function CoverOption({ title, description, price, isSelected, onSelect }: CoverOptionProps) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      aria-pressed={isSelected}
+      className={cn(
+        'w-full flex items-center justify-between gap-4 rounded-xl border-2 p-4 text-left transition-all',
+        isSelected
+          ? 'border-primary bg-primary/5 ring-2 ring-primary'
+          : 'border-border hover:border-primary/50'
+      )}
+    >
+      <div>
+        <h3 className="font-semibold text-foreground">{title}</h3>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <span className="shrink-0 font-bold text-primary">{price}</span>
+    </button>
+  );
+}
+
+export default Step10eInsurance;
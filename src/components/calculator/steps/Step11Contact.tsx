@@ -7,6 +7,8 @@
  * - Phone (required, UK format)
  * - Email (required, valid format)
  *
+ * Promo code (optional, checked with the server)
+ *
  * Consents:
  * - Marketing opt-in (optional)
  * - Terms & Privacy acceptance (required)
@@ -17,6 +19,8 @@ import { useStore } from '@nanostores/react';
 import {
   calculatorStore,
   setContact,
+  applyPromoCode,
+  clearPromoCode,
   nextStep,
   prevStep,
   type ContactData,
@@ -37,6 +41,7 @@ interface FormErrors {
   lastName?: string;
   phone?: string;
   email?: string;
+  promoCode?: string;
   gdpr?: string;
 }
 
@@ -55,9 +60,32 @@ export function Step11Contact() {
     state.contact?.gdprConsent || false
   );
 
+  const [promoCode, setPromoCode] = useState(state.promoCode || '');
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const promoApplied = Boolean(state.promoCode) && state.promoCode === promoCode.trim().toUpperCase();
+
+  // Check the promo code with the server
+  const handleApplyPromo = async (): Promise<boolean> => {
+    if (!promoCode.trim()) return true;
+
+    setIsCheckingPromo(true);
+    const result = await applyPromoCode(promoCode.trim());
+    setIsCheckingPromo(false);
+
+    setErrors((prev) => ({ ...prev, promoCode: result.success ? undefined : result.error }));
+    return result.success;
+  };
+
+  const handleRemovePromo = () => {
+    clearPromoCode();
+    setPromoCode('');
+    setErrors((prev) => ({ ...prev, promoCode: undefined }));
+  };
+
   // Format phone number as user types
   const handlePhoneChange = (value: string) => {
     // Remove non-digits except +
@@ -108,6 +136,9 @@ export function Step11Contact() {
 
     if (!validateForm()) return;
 
+    // A typed but unapplied promo code is checked before moving on
+    if (promoCode.trim() && !promoApplied && !(await handleApplyPromo())) return;
+
     setIsSubmitting(true);
 
     const contactData: ContactData = {
@@ -235,6 +266,45 @@ export function Step11Contact() {
             </p>
           </div>
 
+          {/* Promo Code (Optional) */}
+          <div className="space-y-2">
+            <Label htmlFor="promoCode">Promo code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="promoCode"
+                type="text"
+                placeholder="e.g. SPRING10"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value)}
+                className={cn('uppercase', errors.promoCode && 'border-destructive')}
+                autoComplete="off"
+                disabled={promoApplied}
+              />
+              {promoApplied ? (
+                <Button type="button" variant="outline" onClick={handleRemovePromo}>
+                  Remove
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleApplyPromo}
+                  disabled={!promoCode.trim() || isCheckingPromo}
+                >
+                  {isCheckingPromo ? 'Checking...' : 'Apply'}
+                </Button>
+              )}
+            </div>
+            {errors.promoCode && (
+              <p className="text-xs text-destructive">{errors.promoCode}</p>
+            )}
+            {promoApplied && (
+              <p className="text-xs text-emerald-600">
+                ✓ Promo code applied - you'll see the discount on your quote
+              </p>
+            )}
+          </div>
+
           {/* Divider */}
           <hr className="border-border" />
 
@@ -17,13 +17,26 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useStore } from '@nanostores/react';
 import {
   calculatorStore,
+  cancelDraftLeadSave,
   quoteResult,
+  quotePackages,
+  quoteSettled,
   requiresCallback,
   finalResources,
   getSubmissionData,
   prevStep,
+  selectPackage,
+  type ExtrasData,
 } from '@/lib/calculator-store';
 import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import {
+  getDisplayAmount,
+  getVatDisplay,
+  type DriverSchedule,
+  type PriceItem,
+  type QuotePackage,
+} from '@/lib/calculator-logic';
+import type { VatDisplay } from '@/lib/calculator-config';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -42,8 +55,13 @@ type SubmissionStatus = 'idle' | 'submitting' | 'success' | 'error';
 export function Step12Quote() {
   const state = useStore(calculatorStore);
   const quote = useStore(quoteResult);
+  const packages = useStore(quotePackages);
   const callbackRequired = useStore(requiresCallback);
   const resources = useStore(finalResources);
+  const settled = useStore(quoteSettled);
+
+  const vatDisplay = getVatDisplay(state.serviceType);
+  const vatLabel = `VAT (${Math.round(CALCULATOR_CONFIG.vat.rate * 100)}%)`;
 
   const [showBreakdown, setShowBreakdown] = useState(false);
   const [submissionStatus, setSubmissionStatus] = useState<SubmissionStatus>('idle');
@@ -52,15 +70,18 @@ export function Step12Quote() {
   // Track if we've already submitted to prevent double submission
   const hasSubmittedRef = useRef(false);
 
-  // Submit quote to backend
+  // Submit quote to backend - resolves true once it's saved
   const submitQuote = useCallback(async () => {
-    if (submissionStatus === 'submitting' || submissionStatus === 'success') return;
-    if (!quote) return; // Don't submit if no quote
+    if (submissionStatus === 'success') return true;
+    if (submissionStatus === 'submitting') return false;
+    if (!quote || !settled) return false; // Don't submit if no quote
 
+    hasSubmittedRef.current = true;
     setSubmissionStatus('submitting');
     setErrorMessage(null);
 
     try {
+      cancelDraftLeadSave();
       const submissionData = getSubmissionData();
 
       // Format data for save-quote API
@@ -69,6 +90,8 @@ export function Step12Quote() {
         totalPrice: quote.totalPrice,
         breakdown: quote.breakdown,
         currency: 'GBP' as const,
+        promoCode: quote.promoCode,
+        sessionToken: state.sessionToken ?? undefined,
         name: state.contact ? `${state.contact.firstName} ${state.contact.lastName}` : undefined,
         email: state.contact?.email,
         phone: state.contact?.phone,
@@ -102,30 +125,35 @@ export function Step12Quote() {
       }
 
       setSubmissionStatus('success');
+      return true;
     } catch (error) {
       console.error('Quote submission error:', error);
       setSubmissionStatus('error');
       setErrorMessage(
         "There was a problem saving your quote. Don't worry - your quote is still valid!"
       );
+      return false;
     }
-  }, [submissionStatus, quote, state.contact, state.utmSource, state.utmMedium, state.utmCampaign, state.gclid, state.serviceType]);
+  }, [submissionStatus, quote, settled, state.sessionToken, state.contact, state.utmSource, state.utmMedium, state.utmCampaign, state.gclid, state.serviceType]);
 
-  // Auto-submit quote on mount (only once)
+  // Auto-submit quote on mount (only once), after pricing and any saved
+  // promo code have loaded so the saved price matches the server's.
+  // With packages on offer, wait for the customer to confirm their choice.
   useEffect(() => {
-    if (!hasSubmittedRef.current && quote) {
-      hasSubmittedRef.current = true;
+    if (!hasSubmittedRef.current && quote && settled && packages.length === 0) {
       submitQuote();
     }
-  }, [submitQuote, quote]);
+  }, [submitQuote, quote, settled, packages.length]);
 
-  // Handle booking request
-  const handleBookNow = () => {
+  // Handle booking request (saves the quote first if no package was confirmed)
+  const handleBookNow = async () => {
+    if (!(await submitQuote())) return;
     window.location.href = `/book?quote=${state.sessionId}`;
   };
 
   // Handle callback request
-  const handleRequestCallback = () => {
+  const handleRequestCallback = async () => {
+    if (!(await submitQuote())) return;
     window.location.href = `/callback?quote=${state.sessionId}`;
   };
 
@@ -140,7 +168,7 @@ export function Step12Quote() {
     if (!state.fromAddress) missingItems.push('Moving from address not set');
     if (!state.toAddress) missingItems.push('Moving to address not set');
     if (!state.distances) missingItems.push('Route distances not calculated');
-    if (!state.propertySize && !state.furnitureOnly) missingItems.push('Property size not selected');
+    if (!state.propertySize && !state.furnitureOnly && !state.clearance) missingItems.push('Property size not selected');
     if (!resources) missingItems.push('Unable to calculate resources - please check property details');
 
     return (
@@ -173,6 +201,13 @@ export function Step12Quote() {
     );
   }
 
+  // Quotes built on estimates show a band (hidden when it collapses to one price)
+  const range = quote.range && quote.range.high > quote.range.low ? quote.range : null;
+  const toDisplayPrice = (gross: number) =>
+    vatDisplay === 'ex' && quote.totalPrice > 0
+      ? Math.round((gross * quote.vat.net) / quote.totalPrice)
+      : gross;
+
   return (
     <div className="space-y-6">
       {/* Success Header */}
@@ -195,13 +230,35 @@ export function Step12Quote() {
               Your estimated price
             </span>
           </div>
-          <div className="text-5xl font-bold text-primary mb-2">
-            £{quote.totalPrice.toLocaleString()}
+          <div className={cn('font-bold text-primary mb-2', range ? 'text-4xl' : 'text-5xl')}>
+            {range
+              ? `${formatMoney(toDisplayPrice(range.low))}–${formatMoney(toDisplayPrice(range.high))}`
+              : formatMoney(vatDisplay === 'ex' ? quote.vat.net : quote.totalPrice)}
           </div>
+          {range && (
+            <div className="text-sm font-medium text-foreground mb-1">
+              Most likely {formatMoney(vatDisplay === 'ex' ? quote.vat.net : quote.totalPrice)}
+            </div>
+          )}
           <div className="text-sm text-muted-foreground">
-            Including VAT • Valid for 30 days
+            {vatDisplay === 'ex'
+              ? `Excluding VAT (${formatMoney(quote.totalPrice)} inc. VAT)`
+              : 'Including VAT'}{' '}
+            • Valid for 30 days
           </div>
 
+          {/* What the range depends on */}
+          {range && range.factors.length > 0 && (
+            <div className="mt-4 text-left text-sm bg-background rounded-lg border p-3">
+              <p className="font-medium text-foreground mb-1">Why a range?</p>
+              <ul className="space-y-1 text-muted-foreground">
+                {range.factors.map((factor) => (
+                  <li key={factor}>• {CALCULATOR_CONFIG.priceRange.factors[factor].hint}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Date */}
           {state.selectedDate && (
             <div className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-background rounded-full border">
@@ -245,6 +302,11 @@ export function Step12Quote() {
                   {state.fromAddress?.formatted}
                 </p>
               </div>
+              {state.stops.map((stop, index) => (
+                <p key={`${stop.type}-${stop.formatted}`} className="text-xs text-muted-foreground">
+                  Stop {index + 1} - {CALCULATOR_CONFIG.stops.types[stop.type].label}: {stop.formatted}
+                </p>
+              ))}
               <div className="text-xs text-muted-foreground">
                 {state.distances?.customerDistance} miles •{' '}
                 {formatDuration(state.distances?.customerDriveMinutes || 0)}
@@ -278,9 +340,24 @@ export function Step12Quote() {
               </span>
             </div>
           </div>
+          {quote.schedule.plan !== 'local' && (
+            <p className="text-xs text-muted-foreground">{getScheduleNote(quote.schedule)}</p>
+          )}
         </div>
       </Card>
 
+      {/* Good / Better / Best */}
+      {packages.length > 0 && (
+        <PackageComparison
+          packages={packages}
+          extras={state.extras}
+          vatDisplay={vatDisplay}
+          status={submissionStatus}
+          canConfirm={settled}
+          onConfirm={submitQuote}
+        />
+      )}
+
       {/* Price Breakdown (Collapsible) */}
       <Card className="overflow-hidden">
         <button
@@ -298,65 +375,49 @@ export function Step12Quote() {
 
         {showBreakdown && (
           <div className="p-4 pt-0 space-y-2 text-sm">
-            {/* Base costs */}
-            <BreakdownLine
-              label={`${quote.vans} van${quote.vans > 1 ? 's' : ''} × ${quote.serviceDuration}`}
-              value={quote.breakdown.vansCost}
-            />
-            <BreakdownLine
-              label={`${quote.men} mover${quote.men > 1 ? 's' : ''} × ${quote.serviceDuration}`}
-              value={quote.breakdown.moversCost}
-            />
-
-            {/* Mileage */}
-            {quote.breakdown.mileageCost > 0 && (
-              <BreakdownLine
-                label={`Mileage (${getTotalMiles(state.distances)} miles total)`}
-                value={quote.breakdown.mileageCost}
-              />
-            )}
-
-            {/* Accommodation */}
-            {quote.breakdown.accommodationCost > 0 && (
-              <BreakdownLine
-                label="Crew accommodation (overnight)"
-                value={quote.breakdown.accommodationCost}
-              />
-            )}
-
-            {/* Complications */}
-            {quote.breakdown.complicationMultiplier > 1 && (
-              <BreakdownLine
-                label={`Complications adjustment (+${Math.round((quote.breakdown.complicationMultiplier - 1) * 100)}%)`}
-                value={null}
-                note="Applied to base cost"
-              />
-            )}
-
-            {/* Extras */}
-            {quote.breakdown.extrasCost > 0 && (
-              <>
-                <hr className="my-2 border-border" />
+            {/* Price lines */}
+            {quote.items
+              .filter(isCostItem)
+              .map((item) => (
                 <BreakdownLine
-                  label="Extra services"
-                  value={quote.breakdown.extrasCost}
+                  key={item.id}
+                  label={item.label}
+                  value={getDisplayAmount(item, vatDisplay)}
                 />
-              </>
-            )}
+              ))}
 
             {/* Subtotal */}
             <hr className="my-2 border-border" />
-            <BreakdownLine label="Subtotal" value={quote.breakdown.subtotal} bold />
-
-            {/* Margin (as service fee) */}
             <BreakdownLine
-              label="Service & insurance"
-              value={quote.breakdown.margin}
+              label="Subtotal"
+              value={getSubtotal(quote.items, vatDisplay)}
+              bold
             />
 
-            {/* Total */}
+            {/* Margin (as service fee) and promo discount */}
+            {quote.items
+              .filter((item) => !isCostItem(item))
+              .map((item) => (
+                <BreakdownLine
+                  key={item.id}
+                  label={item.label}
+                  value={getDisplayAmount(item, vatDisplay)}
+                />
+              ))}
+
+            {/* VAT */}
             <hr className="my-2 border-border" />
-            <BreakdownLine label="Total" value={quote.totalPrice} bold large />
+            {vatDisplay === 'ex' ? (
+              <>
+                <BreakdownLine label="Total ex. VAT" value={quote.vat.net} bold />
+                <BreakdownLine label={vatLabel} value={quote.vat.vat} />
+              </>
+            ) : (
+              <BreakdownLine label={`Includes ${vatLabel}`} value={quote.vat.vat} />
+            )}
+
+            {/* Total */}
+            <BreakdownLine label="Total inc. VAT" value={quote.totalPrice} bold large />
           </div>
         )}
       </Card>
@@ -366,12 +427,12 @@ export function Step12Quote() {
         <Card className="p-4">
           <h3 className="font-semibold text-foreground mb-3">Included extras</h3>
           <div className="space-y-2 text-sm">
-            {state.extras.packing && (
+            {state.extras.packingTier && (
               <div className="flex items-center gap-2">
                 <span>📦</span>
                 <span>
                   Professional packing (
-                  {CALCULATOR_CONFIG.packing[state.extras.packing].label})
+                  {CALCULATOR_CONFIG.packingTiers[state.extras.packingTier].label})
                 </span>
               </div>
             )}
@@ -383,21 +444,30 @@ export function Step12Quote() {
                 </span>
               </div>
             )}
-            {state.extras.storage && (
+            {state.extras.storageSize && state.extras.storageWeeks && (
               <div className="flex items-center gap-2">
                 <span>🏠</span>
                 <span>
-                  Storage ({CALCULATOR_CONFIG.storage[state.extras.storage].label}
-                  )
+                  Storage ({CALCULATOR_CONFIG.storageSizes[state.extras.storageSize].label},{' '}
+                  {state.extras.storageWeeks} week{state.extras.storageWeeks > 1 ? 's' : ''})
                 </span>
               </div>
             )}
-            {state.extras.assembly && state.extras.assembly.length > 0 && (
+            {state.extras.insurance && (
+              <div className="flex items-center gap-2">
+                <span>🛡️</span>
+                <span>
+                  {CALCULATOR_CONFIG.insurance.levels[state.extras.insurance.level].label} (
+                  {formatMoney(state.extras.insurance.declaredValue)} declared)
+                </span>
+              </div>
+            )}
+            {state.extras.disassemblyItems.length > 0 && (
               <div className="flex items-center gap-2">
                 <span>🔧</span>
                 <span>
-                  Assembly/disassembly ({state.extras.assembly.length} item
-                  {state.extras.assembly.length > 1 ? 's' : ''})
+                  Assembly/disassembly ({state.extras.disassemblyItems.length} item
+                  {state.extras.disassemblyItems.length > 1 ? 's' : ''})
                 </span>
               </div>
             )}
@@ -476,6 +546,118 @@ export function Step12Quote() {
 // SUB-COMPONENTS
 // ===================
 
+// ===================
+// PACKAGE COMPARISON
+// ===================
+
+interface PackageComparisonProps {
+  packages: QuotePackage[];
+  extras: ExtrasData;
+  vatDisplay: VatDisplay;
+  status: SubmissionStatus;
+  canConfirm: boolean;
+  onConfirm: () => void;
+}
+
+const PACKAGE_ROWS: Array<{ label: string; value: (pkg: QuotePackage) => string }> = [
+  {
+    label: 'Packing',
+    value: (pkg) => (pkg.extras.packingTier ? CALCULATOR_CONFIG.packingTiers[pkg.extras.packingTier].label : '-'),
+  },
+  {
+    label: 'Furniture disassembly',
+    value: (pkg) => {
+      const count = pkg.extras.disassemblyItems.reduce((total, item) => total + item.quantity, 0);
+      return count > 0 ? `${count} item${count > 1 ? 's' : ''}` : '-';
+    },
+  },
+  {
+    label: 'Cleaning',
+    value: (pkg) =>
+      pkg.extras.cleaningType
+        ? `${CALCULATOR_CONFIG.cleaningTiers[pkg.extras.cleaningType].label} (${pkg.extras.cleaningRooms} rooms)`
+        : '-',
+  },
+];
+
+function PackageComparison({ packages, extras, vatDisplay, status, canConfirm, onConfirm }: PackageComparisonProps) {
+  // Once the quote is sent, the package it was saved with is final
+  const locked = status === 'submitting' || status === 'success';
+
+  return (
+    <Card className="p-4 overflow-x-auto">
+      <h3 className="font-semibold text-foreground">Compare packages</h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        {locked
+          ? 'Your quote is saved with this package'
+          : 'Switch in one click - your price updates straight away'}
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr>
+            <td />
+            {packages.map((pkg) => {
+              const config = CALCULATOR_CONFIG.packages[pkg.key];
+              return (
+                <th key={pkg.key} scope="col" className="px-2 pb-2 align-bottom text-center">
+                  {config.badge && (
+                    <span className="block text-xs font-medium text-primary">{config.badge}</span>
+                  )}
+                  <span className="block font-semibold text-foreground">{config.label}</span>
+                  <span className="block text-xs font-normal text-muted-foreground">{config.description}</span>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {PACKAGE_ROWS.map((row) => (
+            <tr key={row.label}>
+              <th scope="row" className="py-2 pr-2 text-left font-normal text-muted-foreground">
+                {row.label}
+              </th>
+              {packages.map((pkg) => (
+                <td key={pkg.key} className="px-2 py-2 text-center">{row.value(pkg)}</td>
+              ))}
+            </tr>
+          ))}
+          <tr>
+            <th scope="row" className="py-2 pr-2 text-left font-normal text-muted-foreground">
+              Price
+            </th>
+            {packages.map((pkg) => (
+              <td key={pkg.key} className="px-2 py-2 text-center text-base font-bold text-foreground">
+                {formatMoney(vatDisplay === 'ex' ? pkg.quote.vat.net : pkg.quote.totalPrice)}
+              </td>
+            ))}
+          </tr>
+          <tr>
+            <td />
+            {packages.map((pkg) => (
+              <td key={pkg.key} className="px-2 pt-3 text-center">
+                {isCurrentPackage(pkg, extras) ? (
+                  <span className="text-sm font-medium text-primary">✓ Your choice</span>
+                ) : (
+                  !locked && (
+                    <Button size="sm" variant="outline" onClick={() => selectPackage(pkg.key)}>
+                      Choose
+                    </Button>
+                  )
+                )}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      {!locked && (
+        <Button className="w-full mt-4" disabled={!canConfirm} onClick={onConfirm}>
+          Confirm and email my quote
+        </Button>
+      )}
+    </Card>
+  );
+}
+
 interface BreakdownLineProps {
   label: string;
   value: number | null;
@@ -495,7 +677,9 @@ function BreakdownLine({ label, value, note, bold, large }: BreakdownLineProps)
     >
       <span className="text-muted-foreground">{label}</span>
       <span className={cn(bold && 'text-foreground')}>
-        {value !== null ? `£${value.toLocaleString()}` : '—'}
+        {value !== null
+          ? `${value < 0 ? '−' : ''}${formatMoney(Math.abs(value))}`
+          : '—'}
         {note && (
           <span className="text-xs text-muted-foreground ml-1">{note}</span>
         )}
@@ -635,26 +819,55 @@ function getValidUntilDate(): string {
   });
 }
 
-function getTotalMiles(
-  distances: { depotToFrom: number; fromToTo: number; toToDepot: number } | null
-): number {
-  if (!distances) return 0;
-  return Math.round(
-    distances.depotToFrom + distances.fromToTo + distances.toToDepot
+// How a long-distance job stays within drivers' hours
+function getScheduleNote(schedule: DriverSchedule): string {
+  const nights = `${schedule.nights} night${schedule.nights > 1 ? 's' : ''}`;
+
+  if (schedule.plan === 'secondDriver') {
+    return schedule.nights > 0
+      ? `Two drivers per van to keep within drivers' hours, with ${nights} away`
+      : "Two drivers per van to keep within drivers' hours";
+  }
+
+  return `Includes ${nights} away to keep within drivers' hours`;
+}
+
+function isCostItem(item: PriceItem): boolean {
+  return item.kind !== 'service' && item.kind !== 'discount';
+}
+
+function getSubtotal(items: PriceItem[], vatDisplay: VatDisplay): number {
+  const subtotal = items
+    .filter(isCostItem)
+    .reduce((total, item) => total + getDisplayAmount(item, vatDisplay), 0);
+  return Math.round(subtotal * 100) / 100;
+}
+
+// The customer's extras match a package (storage aside)
+function isCurrentPackage(pkg: QuotePackage, extras: ExtrasData): boolean {
+  const hasDisassembly = extras.disassemblyItems.some((item) => item.quantity > 0);
+
+  return (
+    (extras.packingTier ?? undefined) === pkg.extras.packingTier &&
+    (extras.cleaningRooms ? extras.cleaningType : undefined) === pkg.extras.cleaningType &&
+    hasDisassembly === pkg.extras.disassemblyItems.length > 0
   );
 }
 
-function hasExtras(extras: {
-  packing?: string;
-  cleaningRooms?: number;
-  storage?: string;
-  assembly?: Array<{ type: string; quantity: number }>;
-}): boolean {
+function formatMoney(value: number): string {
+  return `£${value.toLocaleString('en-GB', {
+    minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function hasExtras(extras: ExtrasData): boolean {
   return Boolean(
-    extras?.packing ||
-      extras?.cleaningRooms ||
-      extras?.storage ||
-      (extras?.assembly && extras.assembly.length > 0)
+    extras.packingTier ||
+      extras.cleaningRooms ||
+      (extras.storageSize && extras.storageWeeks) ||
+      extras.insurance ||
+      extras.disassemblyItems.length > 0
   );
 }
 
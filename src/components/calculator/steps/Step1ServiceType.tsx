@@ -62,12 +62,6 @@ export function Step1ServiceType() {
     setSelectedTypeLocal(type);
     setServiceType(type);
 
-    // Clearance redirects to separate calculator
-    if (type === 'clearance') {
-      window.location.href = '/clearance-calculator';
-      return;
-    }
-
     // Auto-next after selection
     navigationTimeoutRef.current = setTimeout(() => {
       navigationTimeoutRef.current = null;
@@ -78,11 +72,6 @@ export function Step1ServiceType() {
   const handleNext = () => {
     if (!selectedType) return;
 
-    if (selectedType === 'clearance') {
-      window.location.href = '/clearance-calculator';
-      return;
-    }
-
     nextStep();
   };
 
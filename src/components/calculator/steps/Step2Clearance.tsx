@@ -0,0 +1,246 @@
+/**
+ * STEP 2C: CLEARANCE FLOW
+ *
+ * Multi-page flow for a waste clearance:
+ * Page 1: Volume of waste (van loads)
+ * Page 2: Items with a disposal fee (WEEE, mattresses, hazardous)
+ * Page 3: Recycling and donation, or straight to the tip
+ *
+ * After completion → Date (5), Access (6), Address (8), Contact (11), Quote (12)
+ */
+
+import { NavigationButtons } from '@/components/calculator/navigation-buttons';
+import { Card } from '@/components/ui/card';
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import type { ClearanceLoad, WasteCategory } from '@/lib/calculator-config';
+import {
+  calculatorStore,
+  nextStep,
+  prevStep,
+  pricingStore,
+  setClearance,
+} from '@/lib/calculator-store';
+import { cn, formatPriceGBP } from '@/lib/utils';
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+
+const MAX_ITEMS = 50;
+
+const loadOptions = Object.entries(CALCULATOR_CONFIG.clearance.loads) as [
+  ClearanceLoad,
+  { cubicYards: number; label: string; description: string },
+][];
+
+const wasteCategories = Object.entries(CALCULATOR_CONFIG.clearance.wasteCategories) as [
+  WasteCategory,
+  { fee: number; label: string; examples: string; icon: string },
+][];
+
+export function Step2Clearance() {
+  const state = useStore(calculatorStore);
+  const pricing = useStore(pricingStore);
+
+  // Internal page state (1, 2, or 3)
+  const [page, setPage] = useState(1);
+
+  // Form data
+  const [load, setLoad] = useState<ClearanceLoad | null>(state.clearance?.load ?? null);
+  const [items, setItems] = useState<Partial<Record<WasteCategory, number>>>(
+    state.clearance?.items ?? {}
+  );
+  const [recycling, setRecycling] = useState<boolean>(state.clearance?.recycling ?? true);
+
+  const updateQuantity = (category: WasteCategory, delta: number) => {
+    setItems((prev) => ({
+      ...prev,
+      [category]: Math.max(0, Math.min(MAX_ITEMS, (prev[category] ?? 0) + delta)),
+    }));
+  };
+
+  const handleFinalContinue = () => {
+    if (!load) return;
+
+    setClearance({ load, items, recycling });
+    nextStep();
+  };
+
+  // Page 1: Volume
+  if (page === 1) {
+    return (
+      <div className="space-y-6">
+        {/* Heading */}
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-foreground">How much needs clearing?</h2>
+          <p className="text-muted-foreground mt-2">
+            Pick the closest match - a full Luton van holds around{' '}
+            {CALCULATOR_CONFIG.clearance.loads.full.cubicYards} cubic yards
+          </p>
+        </div>
+
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-3">
+          {loadOptions.map(([value, option]) => (
+            <OptionCard key={value} isSelected={load === value} onSelect={() => setLoad(value)}>
+              <h3 className="font-semibold text-foreground">{option.label}</h3>
+              <p className="text-xs text-muted-foreground">{option.description}</p>
+              <p className="text-xs font-medium text-primary">~{option.cubicYards} cu yd</p>
+            </OptionCard>
+          ))}
+        </div>
+
+        <NavigationButtons
+          onPrevious={prevStep}
+          onNext={() => setPage(2)}
+          canGoNext={!!load}
+          nextLabel="Continue"
+        />
+      </div>
+    );
+  }
+
+  // Page 2: Items with a disposal fee
+  if (page === 2) {
+    return (
+      <div className="space-y-6">
+        {/* Heading */}
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-foreground">
+            Anything that needs special disposal?
+          </h2>
+          <p className="text-muted-foreground mt-2">
+            These can't go in with general waste, so each one carries a disposal fee
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {wasteCategories.map(([category, config]) => {
+            const quantity = items[category] ?? 0;
+
+            return (
+              <Card
+                key={category}
+                className={cn(
+                  'p-4 flex items-center justify-between gap-4',
+                  quantity > 0 && 'border-primary bg-primary/5'
+                )}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-3xl">{config.icon}</span>
+                  <div>
+                    <h3 className="font-semibold text-foreground">{config.label}</h3>
+                    <p className="text-xs text-muted-foreground">{config.examples}</p>
+                    <p className="text-xs font-medium text-primary">
+                      {formatPriceGBP(pricing.config.clearance.wasteCategories[category].fee)} per
+                      item
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => updateQuantity(category, -1)}
+                    disabled={quantity <= 0}
+                    className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-primary text-primary font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={`Fewer ${config.label}`}
+                  >
+                    -
+                  </button>
+                  <span className="text-lg font-bold text-foreground w-6 text-center">
+                    {quantity}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => updateQuantity(category, 1)}
+                    disabled={quantity >= MAX_ITEMS}
+                    className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-primary text-primary font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={`More ${config.label}`}
+                  >
+                    +
+                  </button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+
+        <p className="text-center text-sm text-muted-foreground">None of these? Just continue.</p>
+
+        <NavigationButtons
+          onPrevious={() => setPage(1)}
+          onNext={() => setPage(3)}
+          nextLabel="Continue"
+        />
+      </div>
+    );
+  }
+
+  // Page 3: Recycling and donation
+  const diversionPercent = Math.round(pricing.config.clearance.recycling.diversion * 100);
+
+  return (
+    <div className="space-y-6">
+      {/* Heading */}
+      <div className="text-center">
+        <h2 className="text-2xl font-semibold text-foreground">
+          Shall we recycle and donate what we can?
+        </h2>
+        <p className="text-muted-foreground mt-2">
+          We sort reusable items for local charities and recycling
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <OptionCard isSelected={recycling} onSelect={() => setRecycling(true)}>
+          <span className="text-3xl">♻️</span>
+          <h3 className="font-semibold text-foreground">Recycle & donate</h3>
+          <p className="text-xs text-muted-foreground">
+            Around {diversionPercent}% less goes to the tip, so lower tip fees - sorting adds a
+            little time on the day
+          </p>
+        </OptionCard>
+        <OptionCard isSelected={!recycling} onSelect={() => setRecycling(false)}>
+          <span className="text-3xl">🚛</span>
+          <h3 className="font-semibold text-foreground">Straight to the tip</h3>
+          <p className="text-xs text-muted-foreground">
+            Quickest on the day - everything goes to a licensed transfer station
+          </p>
+        </OptionCard>
+      </div>
+
+      <NavigationButtons
+        onPrevious={() => setPage(2)}
+        onNext={handleFinalContinue}
+        nextLabel="Continue"
+      />
+    </div>
+  );
+}
+
+// ===================
+// OPTION CARD
+// ===================
+
+interface OptionCardProps {
+  isSelected: boolean;
+  onSelect: () => void;
+  children: React.ReactNode;
+}
+
+function OptionCard({ isSelected, onSelect, children }: OptionCardProps) {
+  return (
+    <button
+      type="button"
+      className={cn(
+        'rounded-xl border-2 border-border bg-card p-4 transition-all',
+        'hover:border-primary/50 hover:-translate-y-1',
+        isSelected && 'border-primary bg-primary/5 ring-2 ring-primary'
+      )}
+      onClick={onSelect}
+      aria-pressed={isSelected}
+    >
+      <div className="flex flex-col items-center text-center space-y-2">{children}</div>
+    </button>
+  );
+}
+
+export default Step2Clearance;
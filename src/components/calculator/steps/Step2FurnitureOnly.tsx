@@ -7,37 +7,38 @@
  * Page 3: Specialist items selection
  *
  * After completion:
- * - If specialist items → callback required (Step 12)
- * - Otherwise → skip to Step 5 (Date), then 8, 9, 11, 12
+ * - Specialist items are priced with a handling fee
+ * - 'Other' specialist items → callback required (Step 12)
+ * - Otherwise → skip to Step 5 (Date), then 8, 10.5, 11, 12
  */
 
 import { useState, useRef, useEffect } from 'react';
 import { useStore } from '@nanostores/react';
 import {
   calculatorStore,
+  pricingStore,
   setFurnitureOnly,
-  goToStep,
+  nextStep,
   saveState,
   type FurnitureOnlyData,
 } from '@/lib/calculator-store';
+import { CALCULATOR_CONFIG, type SpecialistItemKey } from '@/lib/calculator-config';
+import { requiresSpecialistCallback } from '@/lib/calculator-logic';
 import { Card } from '@/components/ui/card';
 import { NavigationButtons } from '@/components/calculator/navigation-buttons';
 import { Slider } from '@/components/ui/slider';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { cn } from '@/lib/utils';
+import { cn, formatPriceGBP } from '@/lib/utils';
 
 // Specialist items list
-const specialistItems = [
-  { id: 'piano', label: 'Piano / Grand Piano', icon: '🎹' },
-  { id: 'safe', label: 'Safe / Strongbox', icon: '🔐' },
-  { id: 'gym-equipment', label: 'Heavy gym equipment', icon: '🏋️' },
-  { id: 'hot-tub', label: 'Hot tub / Jacuzzi', icon: '🛁' },
-  { id: 'marble-stone', label: 'Marble / Stone furniture', icon: '🪨' },
-  { id: 'other', label: 'Other specialist item', icon: '📦' },
-];
+const specialistItems = Object.entries(CALCULATOR_CONFIG.furnitureOnly.specialistItems).map(
+  ([id, item]) => ({ id: id as SpecialistItemKey, label: item.label, icon: item.icon })
+);
 
 export function Step2FurnitureOnly() {
   const state = useStore(calculatorStore);
+  const pricing = useStore(pricingStore);
+  const handlingFees = pricing.config.furnitureOnly.specialistItems;
 
   // Internal page state (1, 2, or 3)
   const [page, setPage] = useState(1);
@@ -50,7 +51,7 @@ export function Step2FurnitureOnly() {
   const [over40kg, setOver40kg] = useState<boolean | null>(
     state.furnitureOnly?.over40kg ?? null
   );
-  const [selectedSpecialist, setSelectedSpecialist] = useState<string[]>(
+  const [selectedSpecialist, setSelectedSpecialist] = useState<SpecialistItemKey[]>(
     state.furnitureOnly?.specialistItems ?? []
   );
 
@@ -66,10 +67,10 @@ export function Step2FurnitureOnly() {
     };
   }, []);
 
-  // Check if specialist items selected (requires callback)
-  const hasSpecialistItems = selectedSpecialist.length > 0;
+  // Only items we can't price need a callback
+  const needsCallback = requiresSpecialistCallback(selectedSpecialist);
 
-  const handleSpecialistToggle = (itemId: string) => {
+  const handleSpecialistToggle = (itemId: SpecialistItemKey) => {
     // Clear any pending navigation
     if (navigationTimeoutRef.current) {
       clearTimeout(navigationTimeoutRef.current);
@@ -107,7 +108,7 @@ export function Step2FurnitureOnly() {
   };
 
   // Handle final continue (save data and navigate)
-  const handleFinalContinue = (specialist: string[] = selectedSpecialist) => {
+  const handleFinalContinue = (specialist: SpecialistItemKey[] = selectedSpecialist) => {
     const data: FurnitureOnlyData = {
       itemCount,
       needs2Person: needs2Person ?? false,
@@ -118,10 +119,9 @@ export function Step2FurnitureOnly() {
     setFurnitureOnly(data);
 
     // Furniture flow (with or without specialist items):
-    // Always go through: Date (5) → From (8) → To (9) → Contact (11) → Quote (12)
-    // Skips: Plan (4), Access (6), Chain (7), Extras (10)
-    // Note: specialist items will trigger callback view at Step 12
-    goToStep(5);
+    // Date → Addresses → Insurance → Contact → Quote
+    // Note: 'other' specialist items will trigger callback view at Step 12
+    nextStep();
   };
 
   // Render based on current page
@@ -158,7 +158,7 @@ export function Step2FurnitureOnly() {
           Any SPECIALIST items?
         </h2>
         <p className="text-muted-foreground mt-2">
-          These require special equipment and expertise
+          These need extra movers and equipment, so each carries a handling fee
         </p>
       </div>
 
@@ -187,6 +187,11 @@ export function Step2FurnitureOnly() {
               <h3 className="font-semibold text-sm text-foreground">
                 {item.label}
               </h3>
+              <p className="text-xs font-medium text-primary">
+                {handlingFees[item.id].handlingFee > 0
+                  ? `+${formatPriceGBP(handlingFees[item.id].handlingFee)} handling`
+                  : 'Custom quote'}
+              </p>
               {selectedSpecialist.includes(item.id) && (
                 <span className="flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground text-xs">
                   ✓
@@ -227,11 +232,18 @@ export function Step2FurnitureOnly() {
         </Card>
       </div>
 
-      {/* Warning if specialist items selected */}
-      {hasSpecialistItems && (
+      {/* Stairs note for priced items */}
+      {selectedSpecialist.length > 0 && !needsCallback && (
+        <p className="text-center text-sm text-muted-foreground">
+          Handling fees are {pricing.config.furnitureOnly.stairsMultiplier}× if the item goes up or down stairs without a suitable lift
+        </p>
+      )}
+
+      {/* Warning if an unlisted specialist item is selected */}
+      {needsCallback && (
         <Alert className="border-amber-500 bg-amber-50">
           <AlertDescription className="text-amber-800">
-            <strong>Specialist items require a custom quote.</strong>
+            <strong>Other specialist items require a custom quote.</strong>
             <br />
             We'll call you within 2 hours during business hours to discuss your requirements.
           </AlertDescription>
@@ -242,7 +254,7 @@ export function Step2FurnitureOnly() {
       <NavigationButtons
         onPrevious={() => setPage(2)}
         onNext={() => handleFinalContinue()}
-        nextLabel={hasSpecialistItems ? 'Request Callback' : 'Continue'}
+        nextLabel={needsCallback ? 'Request Callback' : 'Continue'}
         canGoNext={true}
       />
     </div>
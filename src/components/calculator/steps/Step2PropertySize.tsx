@@ -4,6 +4,7 @@
  * Branches:
  * - Home: 9 property size options
  * - Office: 3 office size options
+ * - Clearance: Shows Step2Clearance inline
  * - Furniture: Shows Step2FurnitureOnly inline
  */
 
@@ -15,7 +16,6 @@ import {
   setOfficeSize,
   nextStep,
   prevStep,
-  goToStep,
 } from '@/lib/calculator-store';
 import type { PropertySize, OfficeSize } from '@/lib/calculator-config';
 import { Card } from '@/components/ui/card';
@@ -23,6 +23,7 @@ import { SelectionCard, SelectionCardGrid } from '@/components/ui/selection-card
 import { NavigationButtons } from '@/components/calculator/navigation-buttons';
 import { cn } from '@/lib/utils';
 import { Step2FurnitureOnly } from './Step2FurnitureOnly';
+import { Step2Clearance } from './Step2Clearance';
 
 // ===================
 // MAIN COMPONENT
@@ -36,6 +37,11 @@ export function Step2PropertySize() {
     return <OfficeSelection />;
   }
 
+  // Clearance branch
+  if (state.serviceType === 'clearance') {
+    return <Step2Clearance />;
+  }
+
   // Furniture Only branch - show FurnitureOnly component if already selected
   if (state.propertySize === 'furniture') {
     return <Step2FurnitureOnly />;
@@ -99,13 +105,7 @@ function HomePropertySelection() {
     navigationTimeoutRef.current = setTimeout(() => {
       navigationTimeoutRef.current = null;
 
-      // Studio → skip belongings slider (fixed 250 cubes)
-      if (size === 'studio') {
-        goToStep(4);
-        return;
-      }
-
-      // All others → belongings slider (Step 3)
+      // Studio skips the belongings slider (fixed 250 cubes)
       nextStep();
     }, 300);
   };
@@ -119,11 +119,6 @@ function HomePropertySelection() {
       return;
     }
 
-    if (selectedSize === 'studio') {
-      goToStep(4);
-      return;
-    }
-
     nextStep();
   };
 
@@ -226,13 +221,13 @@ function OfficeSelection() {
     // Auto-next after selection
     navigationTimeoutRef.current = setTimeout(() => {
       navigationTimeoutRef.current = null;
-      goToStep(5);
+      nextStep();
     }, 300);
   };
 
   const handleNext = () => {
     if (!selectedSize) return;
-    goToStep(5);
+    nextStep();
   };
 
   return (
@@ -9,6 +9,8 @@ import { useStore } from '@nanostores/react';
 import {
   calculatorStore,
   setSliderPosition,
+  setUseInventory,
+  goToStep,
   calculatedCubes,
   recommendedResources,
   nextStep,
@@ -72,6 +74,11 @@ export function Step3BelongingsSlider() {
     nextStep();
   };
 
+  const handleUseInventory = () => {
+    setUseInventory(true);
+    goToStep('step-03a');
+  };
+
   return (
     <div className="space-y-6">
       {/* Heading */}
@@ -209,6 +216,17 @@ export function Step3BelongingsSlider() {
         </div>
       </div>
 
+      {/* Room-by-room alternative */}
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={handleUseInventory}
+          className="text-sm text-primary font-medium hover:underline"
+        >
+          Know exactly what you're moving? List your items room by room instead
+        </button>
+      </div>
+
       {/* Navigation Buttons */}
       <NavigationButtons
         onPrevious={prevStep}
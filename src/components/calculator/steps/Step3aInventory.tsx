@@ -0,0 +1,244 @@
+/**
+ * STEP 3A: ROOM-BY-ROOM INVENTORY
+ *
+ * Alternative to the belongings slider for customers who know what they own.
+ * Item volumes are totalled into cubes, which set the crew and vans.
+ */
+
+import { NavigationButtons } from '@/components/calculator/navigation-buttons';
+import { Card } from '@/components/ui/card';
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import type { InventoryItemKey, InventoryRoom } from '@/lib/calculator-config';
+import {
+  calculatedCubes,
+  calculatorStore,
+  goToStep,
+  nextStep,
+  prevStep,
+  recommendedResources,
+  setInventoryQuantity,
+  setUseInventory,
+} from '@/lib/calculator-store';
+import { cn } from '@/lib/utils';
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+
+const MAX_QUANTITY = 99;
+
+const rooms = Object.entries(CALCULATOR_CONFIG.inventoryRooms) as [
+  InventoryRoom,
+  { label: string; icon: string },
+][];
+
+const items = Object.entries(CALCULATOR_CONFIG.inventoryItems) as [
+  InventoryItemKey,
+  { room: string; label: string; cubes: number },
+][];
+
+export function Step3aInventory() {
+  const state = useStore(calculatorStore);
+  const cubes = useStore(calculatedCubes);
+  const resources = useStore(recommendedResources);
+
+  // First room open to start with
+  const [openRoom, setOpenRoom] = useState<InventoryRoom | null>(rooms[0][0]);
+
+  const quantities = new Map(state.inventory.map((line) => [line.item, line.quantity]));
+  const itemCount = state.inventory.reduce((sum, line) => sum + line.quantity, 0);
+  const hasItems = itemCount > 0;
+
+  const updateQuantity = (item: InventoryItemKey, delta: number) => {
+    const current = quantities.get(item) || 0;
+    setInventoryQuantity(item, Math.max(0, Math.min(MAX_QUANTITY, current + delta)));
+  };
+
+  const handleUseSlider = () => {
+    setUseInventory(false);
+    goToStep('step-03');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Heading */}
+      <div className="text-center">
+        <h2 className="text-2xl font-semibold text-foreground">What are you moving?</h2>
+        <p className="text-muted-foreground mt-2">
+          Add your items room by room - we'll work out the van space and crew
+        </p>
+      </div>
+
+      {/* Running total */}
+      <Card className="p-4 sm:p-6 bg-gradient-to-b from-muted/30 to-muted/10">
+        <div className="grid grid-cols-2 gap-4 sm:gap-6">
+          <div className="flex flex-col items-center justify-center text-center">
+            <p className="text-xl sm:text-2xl font-bold text-foreground">
+              {hasItems ? `${cubes.toLocaleString()} cu ft` : '-'}
+            </p>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              {itemCount} item{itemCount === 1 ? '' : 's'} listed
+            </p>
+          </div>
+
+          {hasItems && resources && (
+            <div className="flex items-center justify-center gap-4 sm:gap-6">
+              <div className="flex items-center gap-2">
+                <span className="text-2xl">🚚</span>
+                <div>
+                  <p className="text-xl font-bold text-foreground">{resources.vans}</p>
+                  <p className="text-xs text-muted-foreground">
+                    van{resources.vans > 1 ? 's' : ''}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-2xl">👷</span>
+                <div>
+                  <p className="text-xl font-bold text-foreground">{resources.men}</p>
+                  <p className="text-xs text-muted-foreground">
+                    mover{resources.men > 1 ? 's' : ''}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Rooms */}
+      <div className="space-y-3">
+        {rooms.map(([room, roomConfig]) => {
+          const roomItems = items.filter(([, item]) => item.room === room);
+          const roomCount = roomItems.reduce((sum, [key]) => sum + (quantities.get(key) || 0), 0);
+          const isOpen = openRoom === room;
+
+          return (
+            <div key={room} className="rounded-xl border-2 border-border bg-card overflow-hidden">
+              <button
+                type="button"
+                onClick={() => setOpenRoom(isOpen ? null : room)}
+                className="w-full flex items-center justify-between p-4 text-left hover:bg-muted/30 transition-colors"
+                aria-expanded={isOpen}
+              >
+                <span className="flex items-center gap-3 font-semibold text-foreground">
+                  <span className="text-xl">{roomConfig.icon}</span>
+                  {roomConfig.label}
+                </span>
+                <span className="flex items-center gap-3">
+                  {roomCount > 0 && (
+                    <span className="flex h-7 min-w-7 px-2 items-center justify-center rounded-full bg-[#6a9c95] text-white text-sm font-bold">
+                      {roomCount}
+                    </span>
+                  )}
+                  <span
+                    className={cn(
+                      'text-muted-foreground transition-transform',
+                      isOpen && 'rotate-180'
+                    )}
+                  >
+                    ▾
+                  </span>
+                </span>
+              </button>
+
+              {isOpen && (
+                <div className="divide-y divide-border border-t border-border">
+                  {roomItems.map(([key, item]) => (
+                    <InventoryRow
+                      key={key}
+                      label={item.label}
+                      quantity={quantities.get(key) || 0}
+                      onQuantityChange={(delta) => updateQuantity(key, delta)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Slider alternative */}
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={handleUseSlider}
+          className="text-sm text-primary font-medium hover:underline"
+        >
+          Not sure? Use a quick estimate instead
+        </button>
+      </div>
+
+      {/* Validation message */}
+      {!hasItems && (
+        <p className="text-center text-sm text-muted-foreground">
+          Add at least one item to continue
+        </p>
+      )}
+
+      {/* Navigation Buttons */}
+      <NavigationButtons
+        onPrevious={prevStep}
+        onNext={nextStep}
+        nextLabel="Continue"
+        canGoNext={hasItems}
+      />
+    </div>
+  );
+}
+
+// Inventory item row
+interface InventoryRowProps {
+  label: string;
+  quantity: number;
+  onQuantityChange: (delta: number) => void;
+}
+
+function InventoryRow({ label, quantity, onQuantityChange }: InventoryRowProps) {
+  const buttonClass = cn(
+    'flex h-8 w-8 items-center justify-center rounded-full',
+    'border-2 border-[#6a9c95] text-[#6a9c95] font-bold',
+    'transition-all hover:bg-[#6a9c95] hover:text-white',
+    'disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-[#6a9c95]'
+  );
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-between px-4 py-3',
+        quantity > 0 && 'bg-[#6a9c95]/5'
+      )}
+    >
+      <span
+        className={cn(
+          'text-sm',
+          quantity > 0 ? 'font-medium text-foreground' : 'text-muted-foreground'
+        )}
+      >
+        {label}
+      </span>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onQuantityChange(-1)}
+          disabled={quantity <= 0}
+          className={buttonClass}
+          aria-label={`Remove ${label}`}
+        >
+          -
+        </button>
+        <span className="text-lg font-bold text-foreground w-8 text-center">{quantity}</span>
+        <button
+          type="button"
+          onClick={() => onQuantityChange(1)}
+          disabled={quantity >= MAX_QUANTITY}
+          className={buttonClass}
+          aria-label={`Add ${label}`}
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default Step3aInventory;
@@ -4,8 +4,9 @@
  * Shows recommended vans/movers based on calculations.
  * Options:
  * 1. Accept recommendation → Continue
- * 2. Adjust belongings → Go back to slider
- * 3. Manual override → Select specific vans/movers
+ * 2. Pick a runner-up crew (quicker or larger) → Continue
+ * 3. Adjust belongings → Go back to slider
+ * 4. Manual override → Select specific vans/movers
  */
 
 import { useState } from 'react';
@@ -14,6 +15,8 @@ import {
   calculatorStore,
   calculatedCubes,
   recommendedResources,
+  crewOptions,
+  pricingStore,
   requiresCallback,
   setManualOverride,
   clearManualOverride,
@@ -21,18 +24,27 @@ import {
   prevStep,
   goToStep,
 } from '@/lib/calculator-store';
-import { validateVanCrew, checkRecommendationDiff } from '@/lib/calculator-logic';
+import {
+  validateVanCrew,
+  checkRecommendationDiff,
+  checkOverrideDuration,
+  applyMargin,
+  type CrewOption,
+} from '@/lib/calculator-logic';
+import type { PricingConfig } from '@/lib/calculator-pricing';
 import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { cn } from '@/lib/utils';
+import { cn, formatPriceGBP } from '@/lib/utils';
 
 export function Step4Recommendation() {
   const state = useStore(calculatorStore);
   const cubes = useStore(calculatedCubes);
   const resources = useStore(recommendedResources);
   const callbackRequired = useStore(requiresCallback);
+  const options = useStore(crewOptions);
+  const pricing = useStore(pricingStore);
 
   const [showManualOverride, setShowManualOverride] = useState(false);
   const [manualVans, setManualVans] = useState(resources?.vans ?? 2);
@@ -45,6 +57,12 @@ export function Step4Recommendation() {
     nextStep();
   };
 
+  // Handle choosing a runner-up crew
+  const handleChooseAlternative = (option: CrewOption) => {
+    setManualOverride(option.men, option.vans);
+    nextStep();
+  };
+
   // Handle go back to adjust belongings
   const handleAdjustBelongings = () => {
     prevStep(); // Go back to slider
@@ -53,7 +71,7 @@ export function Step4Recommendation() {
   // Handle manual override submission
   const handleManualSubmit = () => {
     // Validate
-    const validation = validateVanCrew(manualVans, manualMen);
+    const validation = validateVanCrew(manualVans, manualMen, pricing.config);
     if (!validation.valid) {
       setValidationError(validation.message || 'Invalid selection');
       return;
@@ -70,6 +88,9 @@ export function Step4Recommendation() {
   )?.label || 'your property';
 
   const sliderLabel = CALCULATOR_CONFIG.sliderModifiers[state.sliderPosition]?.label || 'average';
+  const belongingsLabel = state.useInventory && state.inventory.length > 0
+    ? 'your itemised inventory'
+    : `${sliderLabel.toLowerCase()} belongings`;
 
   // If callback required (>2000 cubes or specialist items)
   if (callbackRequired.required) {
@@ -93,7 +114,7 @@ export function Step4Recommendation() {
           Here's what we recommend
         </h2>
         <p className="text-muted-foreground mt-2">
-          Based on your {propertyLabel} with {sliderLabel.toLowerCase()} belongings
+          Based on your {propertyLabel} with {belongingsLabel}
         </p>
       </div>
 
@@ -135,9 +156,24 @@ export function Step4Recommendation() {
           <p className="text-sm text-muted-foreground">
             Estimated volume: ~{cubes.toLocaleString()} cubic feet
           </p>
+          {options[0] && (
+            <p className="text-sm text-muted-foreground">
+              About {formatHours(options[0].loadTime)} loading - {options[0].duration.label.toLowerCase()}
+            </p>
+          )}
         </div>
       </Card>
 
+      {/* Runner-up crews */}
+      {!showManualOverride && options.length > 1 && (
+        <CrewAlternatives
+          recommended={options[0]}
+          alternatives={options.slice(1)}
+          toPrice={(cost) => applyMargin(cost, pricing.config)}
+          onChoose={handleChooseAlternative}
+        />
+      )}
+
       {/* Action Buttons */}
       {!showManualOverride ? (
         <div className="space-y-3">
@@ -175,6 +211,8 @@ export function Step4Recommendation() {
           men={manualMen}
           recommendedVans={resources.vans}
           recommendedMen={resources.men}
+          recommendedLoadTime={resources.loadTime}
+          pricingConfig={pricing.config}
           onVansChange={setManualVans}
           onMenChange={setManualMen}
           onSubmit={handleManualSubmit}
@@ -187,6 +225,55 @@ export function Step4Recommendation() {
   );
 }
 
+// ===================
+// CREW ALTERNATIVES
+// ===================
+
+interface CrewAlternativesProps {
+  recommended: CrewOption;
+  alternatives: CrewOption[];
+  toPrice: (cost: number) => number;
+  onChoose: (option: CrewOption) => void;
+}
+
+function CrewAlternatives({ recommended, alternatives, toPrice, onChoose }: CrewAlternativesProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">Other options</p>
+      {alternatives.map((option) => {
+        const difference = Math.round(toPrice(option.cost - recommended.cost));
+
+        return (
+          <button
+            key={`${option.men}-${option.vans}`}
+            type="button"
+            onClick={() => onChoose(option)}
+            className="w-full flex items-center justify-between gap-4 rounded-lg border-2 border-border p-3 text-left transition-all hover:border-primary/50"
+          >
+            <span>
+              <span className="block font-medium text-foreground">
+                {option.men} mover{option.men > 1 ? 's' : ''}, {option.vans} van{option.vans > 1 ? 's' : ''}
+              </span>
+              <span className="block text-xs text-muted-foreground">
+                {option.duration.label} - about {formatHours(option.loadTime)} loading
+                {option.loadTime < recommended.loadTime ? ' (quicker)' : ''}
+              </span>
+            </span>
+            <span className="text-sm font-semibold text-foreground whitespace-nowrap">
+              {difference >= 0 ? '+' : '-'}{formatPriceGBP(Math.abs(difference))}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function formatHours(hours: number): string {
+  const rounded = Math.round(hours * 2) / 2;
+  return `${rounded} hour${rounded === 1 ? '' : 's'}`;
+}
+
 // ===================
 // MANUAL OVERRIDE PANEL
 // ===================
@@ -196,6 +283,8 @@ interface ManualOverridePanelProps {
   men: number;
   recommendedVans: number;
   recommendedMen: number;
+  recommendedLoadTime: number;
+  pricingConfig: PricingConfig;
   onVansChange: (v: number) => void;
   onMenChange: (m: number) => void;
   onSubmit: () => void;
@@ -208,6 +297,8 @@ function ManualOverridePanel({
   men,
   recommendedVans,
   recommendedMen,
+  recommendedLoadTime,
+  pricingConfig,
   onVansChange,
   onMenChange,
   onSubmit,
@@ -218,6 +309,11 @@ function ManualOverridePanel({
     { men: recommendedMen, vans: recommendedVans, loadTime: 0 },
     { men, vans }
   );
+  const durationCheck = checkOverrideDuration(
+    { men: recommendedMen, vans: recommendedVans, loadTime: recommendedLoadTime },
+    men,
+    pricingConfig
+  );
 
   return (
     <Card className="p-6 space-y-6">
@@ -289,6 +385,17 @@ function ManualOverridePanel({
         </Alert>
       )}
 
+      {/* Extra day warning */}
+      {durationCheck.longer && !validationError && (
+        <Alert className="border-amber-500 bg-amber-50">
+          <AlertDescription className="text-amber-800">
+            <strong>This adds time to your move</strong>
+            <br />
+            {durationCheck.message}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Difference warning */}
       {diff.differs && !validationError && (
         <Alert className="border-amber-500 bg-amber-50">
@@ -332,7 +439,7 @@ interface CallbackRequiredViewProps {
 
 function CallbackRequiredView({ reason }: CallbackRequiredViewProps) {
   const handleRequestCallback = () => {
-    goToStep(11); // Go to contact details
+    goToStep('step-11'); // Go to contact details
   };
 
   return (
@@ -367,7 +474,7 @@ function CallbackRequiredView({ reason }: CallbackRequiredViewProps) {
           <strong>Why can't we quote online?</strong>
           <br />
           {reason === 'specialist_items'
-            ? 'Specialist items like pianos, safes, or gym equipment require special equipment and expertise. We need to understand exactly what you have to ensure we send the right team.'
+            ? 'Pianos, safes and other common specialist items are priced online, but this item needs a closer look. We need to understand exactly what you have to ensure we send the right team.'
             : 'Properties over a certain size vary significantly in load volume. A quick call helps us give you an accurate price rather than a rough estimate.'
           }
         </AlertDescription>
@@ -18,6 +18,7 @@ import {
   prevStep,
   type DateFlexibility,
 } from '@/lib/calculator-store';
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
 import { Card } from '@/components/ui/card';
 import { NavigationButtons } from '@/components/calculator/navigation-buttons';
 import { cn } from '@/lib/utils';
@@ -44,7 +45,7 @@ const flexibilityOptions: Array<{
     description: 'We can find the best available slot for you',
     icon: '🗓️',
     needsDate: true,
-    badge: 'Better prices!',
+    badge: `Save ${Math.round(CALCULATOR_CONFIG.datePricing.flexible.discount * 100)}%!`,
   },
   {
     value: 'unknown',
@@ -81,18 +82,9 @@ export function Step5DateSelection() {
     navigationTimeoutRef.current = setTimeout(() => {
       navigationTimeoutRef.current = null;
 
-      if (option === 'unknown') {
-        // No date needed, save and go to next main step
-        setDate('unknown', undefined);
-        nextStep();
-      } else {
-        // Save flexibility and go to date picker step
-        setDate(option, undefined);
-        // Navigate to step 5b (calendar)
-        if (typeof window !== 'undefined') {
-          window.location.href = '/calculator/step-5b';
-        }
-      }
+      // A fixed or flexible date adds the date picker (step 5b) to the flow
+      setDate(option, undefined);
+      nextStep();
     }, 300);
   };
 
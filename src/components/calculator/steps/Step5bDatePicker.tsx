@@ -10,7 +10,11 @@ import { useStore } from '@nanostores/react';
 import {
   calculatorStore,
   setDate,
+  nextStep,
+  prevStep,
 } from '@/lib/calculator-store';
+import { getDateAdjustments } from '@/lib/calculator-logic';
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
 import { Card } from '@/components/ui/card';
 import { Calendar } from '@/components/ui/calendar';
 import { NavigationButtons } from '@/components/calculator/navigation-buttons';
@@ -41,16 +45,11 @@ export function Step5bDatePicker() {
       state.dateFlexibility || 'flexible',
       selectedDate ? selectedDate.toISOString() : undefined
     );
-    // Navigate to step 6 (Complications)
-    if (typeof window !== 'undefined') {
-      window.location.href = '/calculator/step-06';
-    }
+    nextStep();
   };
 
   const handlePrevious = () => {
-    if (typeof window !== 'undefined') {
-      window.location.href = '/calculator/step-05';
-    }
+    prevStep();
   };
 
   // Format selected date for display
@@ -65,6 +64,27 @@ export function Step5bDatePicker() {
 
   const isFixed = state.dateFlexibility === 'fixed';
 
+  // Date pricing as fractions of crew + van cost
+  const dateAdjustments = selectedDate
+    ? getDateAdjustments(1, selectedDate.toISOString(), state.dateFlexibility || 'flexible')
+    : null;
+  const peakLabels = dateAdjustments
+    ? [
+        dateAdjustments.bankHolidaySurcharge > 0 && CALCULATOR_CONFIG.datePricing.bankHoliday.label,
+        dateAdjustments.peakDaySurcharge > 0 &&
+          CALCULATOR_CONFIG.datePricing.peakDays[selectedDate?.getDay() ?? -1]?.label,
+        dateAdjustments.monthEndSurcharge > 0 && CALCULATOR_CONFIG.datePricing.monthEnd.label,
+      ].filter(Boolean)
+    : [];
+  const surchargePercent = dateAdjustments
+    ? Math.round(
+        (dateAdjustments.bankHolidaySurcharge +
+          dateAdjustments.peakDaySurcharge +
+          dateAdjustments.monthEndSurcharge) *
+          100
+      )
+    : 0;
+
   return (
     <div className="space-y-6">
       {/* Heading */}
@@ -111,6 +131,19 @@ export function Step5bDatePicker() {
                   <strong>Weekend move:</strong> Saturdays are our busiest days - book early to secure your slot!
                 </div>
               )}
+              {/* Peak date pricing */}
+              {surchargePercent > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+                  <strong>{peakLabels.join(' + ')}:</strong> +{surchargePercent}% on crew and vans.
+                  Choosing flexible dates avoids peak pricing.
+                </div>
+              )}
+              {dateAdjustments && dateAdjustments.flexibleDiscount < 0 && (
+                <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-emerald-800 text-sm">
+                  <strong>{CALCULATOR_CONFIG.datePricing.flexible.label}:</strong>{' '}
+                  {Math.round(CALCULATOR_CONFIG.datePricing.flexible.discount * 100)}% off crew and vans.
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -4,8 +4,12 @@
  * Combined from/to address selection with:
  * - Map at the top showing route
  * - From and To address fields below
+ * - Optional extra pickup / drop-off stops in between, in route order
  * - Real-time route display
  * - Distance and drive time shown under map
+ *
+ * For clearances the "to" address is fixed to the waste transfer station,
+ * so the route covers depot → collection → tip → depot.
  */
 
 import { useState, useEffect, useRef } from 'react';
@@ -14,13 +18,16 @@ import {
   calculatorStore,
   setFromAddress,
   setToAddress,
+  setStops,
   setDistances,
   nextStep,
   prevStep,
   type AddressData,
   type DistanceData,
+  type StopData,
 } from '@/lib/calculator-store';
-import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import { CALCULATOR_CONFIG, type DepotKey, type LiftAccess, type StopType } from '@/lib/calculator-config';
+import { chooseDepot } from '@/lib/calculator-logic';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { NavigationButtons } from '@/components/calculator/navigation-buttons';
@@ -45,22 +52,51 @@ const FLOOR_LEVELS = [
   { value: '10', label: '10th floor' },
 ];
 
+// Lift options (only asked when not on the ground floor)
+const LIFT_OPTIONS = Object.entries(CALCULATOR_CONFIG.floorAccess.lift).map(([value, option]) => ({
+  value: value as LiftAccess,
+  label: option.label,
+}));
+
+// Stop type options
+const STOP_TYPES = Object.entries(CALCULATOR_CONFIG.stops.types).map(([value, option]) => ({
+  value: value as StopType,
+  label: option.label,
+}));
+
+const MAX_STOPS = CALCULATOR_CONFIG.stops.maxStops;
+
 // Google Maps is loaded globally via script tag
 // Using any types to avoid TS errors for the global Google object
 declare const google: any;
 
-// Depot location (Bristol BS10 5PN)
-const DEPOT_LOCATION = {
-  lat: 51.5074,
-  lng: -2.6051,
-  address: CALCULATOR_CONFIG.company.depot,
+// The parts of a Google Maps route leg we read
+interface RouteLeg {
+  distance?: { value: number }; // metres
+  duration?: { value: number }; // seconds
+}
+
+// Branches the job can run from - the nearest one is picked with the route
+const DEPOTS = Object.entries(CALCULATOR_CONFIG.depots).map(([key, depot]) => ({
+  key: key as DepotKey,
+  location: { lat: depot.lat, lng: depot.lng },
+}));
+
+// Where clearance loads are tipped
+const { transferStation } = CALCULATOR_CONFIG.clearance;
+const TRANSFER_STATION: AddressData = {
+  formatted: `${transferStation.name}, ${transferStation.address}`,
+  postcode: transferStation.postcode,
 };
 
 export function Step8AddressSelection() {
   const state = useStore(calculatorStore);
+  const isClearance = state.serviceType === 'clearance';
 
   const [fromAddress, setFromAddressLocal] = useState<AddressData | null>(state.fromAddress);
-  const [toAddress, setToAddressLocal] = useState<AddressData | null>(state.toAddress);
+  const [toAddress, setToAddressLocal] = useState<AddressData | null>(
+    isClearance ? TRANSFER_STATION : state.toAddress
+  );
   const [fromInputValue, setFromInputValue] = useState(state.fromAddress?.formatted || '');
   const [toInputValue, setToInputValue] = useState(state.toAddress?.formatted || '');
   const [fromFloorLevel, setFromFloorLevel] = useState<string>(
@@ -69,6 +105,12 @@ export function Step8AddressSelection() {
   const [toFloorLevel, setToFloorLevel] = useState<string>(
     state.toAddress?.floorLevel?.toString() ?? '0'
   );
+  const [fromLift, setFromLift] = useState<LiftAccess>(state.fromAddress?.lift ?? 'none');
+  const [toLift, setToLift] = useState<LiftAccess>(state.toAddress?.lift ?? 'none');
+  const [stops, setStopsLocal] = useState<StopData[]>(state.stops);
+  // Stable React keys for stops, so reordering keeps each field's input
+  const [stopKeys, setStopKeys] = useState<number[]>(() => state.stops.map((_, i) => i));
+  const nextStopKey = useRef(state.stops.length);
   const [isCalculatingRoute, setIsCalculatingRoute] = useState(false);
   const [distanceInfo, setDistanceInfo] = useState<DistanceData | null>(state.distances);
   const [googleLoaded, setGoogleLoaded] = useState(false);
@@ -161,11 +203,7 @@ export function Step8AddressSelection() {
 
       setFromAddressLocal(addressData);
       setFromInputValue(place.formatted_address);
-
-      // If we have both addresses, calculate route
-      if (toAddress) {
-        calculateRoute(addressData, toAddress);
-      }
+      setDistanceInfo(null);
     });
 
     return () => {
@@ -173,7 +211,7 @@ export function Step8AddressSelection() {
         google.maps.event.clearInstanceListeners(fromAutocompleteRef.current);
       }
     };
-  }, [googleLoaded, toAddress]);
+  }, [googleLoaded]);
 
   // Initialize To autocomplete
   useEffect(() => {
@@ -206,11 +244,7 @@ export function Step8AddressSelection() {
 
       setToAddressLocal(addressData);
       setToInputValue(place.formatted_address);
-
-      // If we have both addresses, calculate route
-      if (fromAddress) {
-        calculateRoute(fromAddress, addressData);
-      }
+      setDistanceInfo(null);
     });
 
     return () => {
@@ -218,10 +252,45 @@ export function Step8AddressSelection() {
         google.maps.event.clearInstanceListeners(toAutocompleteRef.current);
       }
     };
-  }, [googleLoaded, fromAddress]);
+  }, [googleLoaded]);
+
+  // Recalculate the route once every address on it is set
+  useEffect(() => {
+    if (!googleLoaded || distanceInfo || !fromAddress || !toAddress) return;
+    if (stops.some(stop => !stop.formatted)) return;
+
+    calculateRoute(fromAddress, toAddress, stops);
+  }, [googleLoaded, fromAddress, toAddress, stops, distanceInfo]);
+
+  // Stop editing
+  const addStop = () => {
+    setStopsLocal(prev => [...prev, { type: 'pickup', formatted: '', postcode: '', floorLevel: 0, lift: 'none' }]);
+    setStopKeys(prev => [...prev, nextStopKey.current++]);
+    setDistanceInfo(null);
+  };
+
+  const updateStop = (index: number, changes: Partial<StopData>) => {
+    setStopsLocal(prev => prev.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+    // Only a new address changes the route
+    if ('formatted' in changes) {
+      setDistanceInfo(null);
+    }
+  };
+
+  const removeStop = (index: number) => {
+    setStopsLocal(prev => prev.filter((_, i) => i !== index));
+    setStopKeys(prev => prev.filter((_, i) => i !== index));
+    setDistanceInfo(null);
+  };
+
+  const moveStop = (index: number, direction: -1 | 1) => {
+    setStopsLocal(prev => swap(prev, index, index + direction));
+    setStopKeys(prev => swap(prev, index, index + direction));
+    setDistanceInfo(null);
+  };
 
   // Calculate route
-  const calculateRoute = async (from: AddressData, to: AddressData) => {
+  const calculateRoute = async (from: AddressData, to: AddressData, via: StopData[]) => {
     if (!googleLoaded) return;
 
     setIsCalculatingRoute(true);
@@ -230,18 +299,12 @@ export function Step8AddressSelection() {
       const directionsService = new google.maps.DirectionsService();
       const distanceService = new google.maps.DistanceMatrixService();
 
-      const origin = from.lat && from.lng
-        ? { lat: from.lat, lng: from.lng }
-        : from.formatted;
-
-      const destination = to.lat && to.lng
-        ? { lat: to.lat, lng: to.lng }
-        : to.formatted;
-
-      // Get route for display
+      // Get route for display - stops are waypoints, kept in the customer's order
       const routeResult = await directionsService.route({
-        origin,
-        destination,
+        origin: toLocation(from),
+        destination: toLocation(to),
+        waypoints: via.map(stop => ({ location: toLocation(stop), stopover: true })),
+        optimizeWaypoints: false,
         travelMode: google.maps.TravelMode.DRIVING,
       });
 
@@ -253,43 +316,57 @@ export function Step8AddressSelection() {
         }
       }
 
-      // Calculate all three legs
+      // Customer legs: from → stops → to
+      const routeLegs: RouteLeg[] = routeResult.routes[0]?.legs ?? [];
+      const legMiles = routeLegs.map(leg => metersToMiles(leg.distance?.value || 0));
+      const fromToToMiles = legMiles.reduce((sum, miles) => sum + miles, 0);
+      const fromToToMinutes = routeLegs.reduce((sum, leg) => sum + (leg.duration?.value || 0), 0) / 60;
+
+      // Depot legs for every branch: each depot → from, and to → each depot
       const distanceResult = await distanceService.getDistanceMatrix({
-        origins: [DEPOT_LOCATION, from.formatted, to.formatted],
-        destinations: [from.formatted, to.formatted, DEPOT_LOCATION],
+        origins: [...DEPOTS.map(depot => depot.location), to.formatted],
+        destinations: [from.formatted, ...DEPOTS.map(depot => depot.location)],
         travelMode: google.maps.TravelMode.DRIVING,
         unitSystem: google.maps.UnitSystem.IMPERIAL,
       });
 
       if (distanceResult.rows) {
-        const depotToFrom = distanceResult.rows[0]?.elements[0];
-        const fromToTo = distanceResult.rows[1]?.elements[1];
-        const toToDepot = distanceResult.rows[2]?.elements[2];
+        const returnRow = distanceResult.rows[DEPOTS.length];
 
-        const depotToFromMiles = metersToMiles(depotToFrom?.distance?.value || 0);
-        const fromToToMiles = metersToMiles(fromToTo?.distance?.value || 0);
-        const toToDepotMiles = metersToMiles(toToDepot?.distance?.value || 0);
+        const depotRoutes = DEPOTS.map((depot, i) => {
+          const depotToFrom = distanceResult.rows[i]?.elements[0];
+          const toToDepot = returnRow?.elements[i + 1];
 
-        const depotToFromMinutes = (depotToFrom?.duration?.value || 0) / 60;
-        const fromToToMinutes = (fromToTo?.duration?.value || 0) / 60;
-        const toToDepotMinutes = (toToDepot?.duration?.value || 0) / 60;
+          return {
+            depot: depot.key,
+            depotToFrom: metersToMiles(depotToFrom?.distance?.value || 0),
+            toToDepot: metersToMiles(toToDepot?.distance?.value || 0),
+            driveMinutes: ((depotToFrom?.duration?.value || 0) + (toToDepot?.duration?.value || 0)) / 60,
+          };
+        });
 
-        const totalDriveTimeHours = (depotToFromMinutes + fromToToMinutes + toToDepotMinutes) / 60;
+        const nearest = chooseDepot(depotRoutes);
+        if (!nearest) return;
+
+        const totalDriveTimeHours = (nearest.driveMinutes + fromToToMinutes) / 60;
 
         const distances: DistanceData = {
-          depotToFrom: depotToFromMiles,
+          depotToFrom: nearest.depotToFrom,
           fromToTo: fromToToMiles,
-          toToDepot: toToDepotMiles,
+          toToDepot: nearest.toToDepot,
           driveTimeHours: totalDriveTimeHours,
           customerDistance: fromToToMiles,
           customerDriveMinutes: fromToToMinutes,
+          ...(via.length > 0 && { legs: legMiles }),
+          path: routeResult.routes[0]?.overview_polyline,
+          depot: nearest.depot,
         };
 
         setDistanceInfo(distances);
       }
     } catch (err) {
       console.error('Route calculation error:', err);
-      toast.error('Could not calculate route. Please check both addresses.');
+      toast.error('Could not calculate route. Please check the addresses.');
     } finally {
       setIsCalculatingRoute(false);
     }
@@ -302,30 +379,34 @@ export function Step8AddressSelection() {
       return;
     }
 
-    // Include floor levels in address data
+    // Include floor levels and lift access in address data
     setFromAddress({
       ...fromAddress,
       floorLevel: parseInt(fromFloorLevel, 10),
+      lift: fromLift,
     });
     setToAddress({
       ...toAddress,
       floorLevel: parseInt(toFloorLevel, 10),
+      lift: toLift,
     });
+    setStops(stops);
     if (distanceInfo) {
       setDistances(distanceInfo);
     }
     nextStep();
   };
 
-  // Can continue? Require both addresses AND calculated distances
-  const canContinue = fromAddress && toAddress && distanceInfo && !isCalculatingRoute;
+  // Can continue? Require every address AND calculated distances
+  const stopsComplete = stops.every(stop => stop.formatted);
+  const canContinue = fromAddress && toAddress && stopsComplete && distanceInfo && !isCalculatingRoute;
 
   return (
     <div className="space-y-6">
       {/* Heading */}
       <div className="text-center">
         <h2 className="text-2xl font-semibold text-foreground">
-          Where are you moving from and to?
+          {isClearance ? 'Where are we collecting from?' : 'Where are you moving from and to?'}
         </h2>
       </div>
 
@@ -365,6 +446,12 @@ export function Step8AddressSelection() {
               </div>
             </div>
 
+            {distanceInfo.depot && (
+              <p className="mt-3 text-xs text-center text-muted-foreground">
+                Your move runs from our {CALCULATOR_CONFIG.depots[distanceInfo.depot].name} branch
+              </p>
+            )}
+
             {/* Long distance warning */}
             {distanceInfo.customerDistance > 100 && (
               <div className="mt-3 p-2 bg-amber-50 border border-amber-200 rounded text-amber-800 text-sm text-center">
@@ -383,7 +470,9 @@ export function Step8AddressSelection() {
             <div className="flex h-8 w-8 items-center justify-center rounded-full bg-emerald-100 text-emerald-600 text-sm font-medium">
               A
             </div>
-            <Label htmlFor="from-address" className="font-medium">Moving from</Label>
+            <Label htmlFor="from-address" className="font-medium">
+              {isClearance ? 'Collection address' : 'Moving from'}
+            </Label>
           </div>
           <div className="relative">
             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
@@ -393,7 +482,7 @@ export function Step8AddressSelection() {
               ref={fromInputRef}
               id="from-address"
               type="text"
-              placeholder="Enter current address"
+              placeholder={isClearance ? 'Enter collection address' : 'Enter current address'}
               value={fromInputValue}
               onChange={(e) => {
                 setFromInputValue(e.target.value);
@@ -430,62 +519,151 @@ export function Step8AddressSelection() {
               ))}
             </Select>
           </div>
+          {/* Lift dropdown */}
+          {fromFloorLevel !== '0' && (
+            <div className="mt-3">
+              <Label htmlFor="from-lift" className="text-sm text-muted-foreground">
+                Is there a lift?
+              </Label>
+              <Select
+                id="from-lift"
+                value={fromLift}
+                onChange={(e) => setFromLift(e.target.value as LiftAccess)}
+                className="mt-1"
+              >
+                {LIFT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
         </Card>
 
-        {/* To Address */}
-        <Card className="p-4">
-          <div className="flex items-center gap-3 mb-3">
-            <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/20 text-primary text-sm font-medium">
-              B
+        {/* To Address (fixed to the transfer station for clearances) */}
+        {isClearance ? (
+          <Card className="p-4">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/20 text-primary text-sm font-medium">
+                B
+              </div>
+              <span className="font-medium">Taken to</span>
             </div>
-            <Label htmlFor="to-address" className="font-medium">Moving to</Label>
-          </div>
-          <div className="relative">
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-              📍
-            </span>
-            <Input
-              ref={toInputRef}
-              id="to-address"
-              type="text"
-              placeholder="Enter new address"
-              value={toInputValue}
-              onChange={(e) => {
-                setToInputValue(e.target.value);
-                if (toAddress) {
-                  setToAddressLocal(null);
-                  setDistanceInfo(null);
-                }
-              }}
-              className="pl-10"
-              autoComplete="off"
-            />
-          </div>
-          {toAddress && (
-            <div className="mt-2 flex items-center gap-2 text-sm text-emerald-600">
-              <span>✓</span>
-              <span className="truncate">{toAddress.postcode || 'Address selected'}</span>
+            <p className="font-medium text-foreground">{transferStation.name}</p>
+            <p className="text-sm text-muted-foreground">
+              {transferStation.address}, {transferStation.postcode}
+            </p>
+            <p className="mt-3 text-xs text-muted-foreground">
+              A licensed waste transfer station - we'll give you a waste transfer note for your records.
+            </p>
+          </Card>
+        ) : (
+          <Card className="p-4">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/20 text-primary text-sm font-medium">
+                B
+              </div>
+              <Label htmlFor="to-address" className="font-medium">Moving to</Label>
             </div>
-          )}
-          {/* Floor level dropdown */}
-          <div className="mt-3">
-            <Label htmlFor="to-floor" className="text-sm text-muted-foreground">
-              Which floor?
-            </Label>
-            <Select
-              id="to-floor"
-              value={toFloorLevel}
-              onChange={(e) => setToFloorLevel(e.target.value)}
-              className="mt-1"
-            >
-              {FLOOR_LEVELS.map((floor) => (
-                <option key={floor.value} value={floor.value}>
-                  {floor.label}
-                </option>
-              ))}
-            </Select>
-          </div>
-        </Card>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                📍
+              </span>
+              <Input
+                ref={toInputRef}
+                id="to-address"
+                type="text"
+                placeholder="Enter new address"
+                value={toInputValue}
+                onChange={(e) => {
+                  setToInputValue(e.target.value);
+                  if (toAddress) {
+                    setToAddressLocal(null);
+                    setDistanceInfo(null);
+                  }
+                }}
+                className="pl-10"
+                autoComplete="off"
+              />
+            </div>
+            {toAddress && (
+              <div className="mt-2 flex items-center gap-2 text-sm text-emerald-600">
+                <span>✓</span>
+                <span className="truncate">{toAddress.postcode || 'Address selected'}</span>
+              </div>
+            )}
+            {/* Floor level dropdown */}
+            <div className="mt-3">
+              <Label htmlFor="to-floor" className="text-sm text-muted-foreground">
+                Which floor?
+              </Label>
+              <Select
+                id="to-floor"
+                value={toFloorLevel}
+                onChange={(e) => setToFloorLevel(e.target.value)}
+                className="mt-1"
+              >
+                {FLOOR_LEVELS.map((floor) => (
+                  <option key={floor.value} value={floor.value}>
+                    {floor.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            {/* Lift dropdown */}
+            {toFloorLevel !== '0' && (
+              <div className="mt-3">
+                <Label htmlFor="to-lift" className="text-sm text-muted-foreground">
+                  Is there a lift?
+                </Label>
+                <Select
+                  id="to-lift"
+                  value={toLift}
+                  onChange={(e) => setToLift(e.target.value as LiftAccess)}
+                  className="mt-1"
+                >
+                  {LIFT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+
+      {/* Extra stops */}
+      <div className="space-y-3">
+        {stops.map((stop, index) => (
+          <StopField
+            key={stopKeys[index]}
+            stop={stop}
+            index={index}
+            googleLoaded={googleLoaded}
+            onChange={(changes) => updateStop(index, changes)}
+            onRemove={() => removeStop(index)}
+            onMoveUp={index > 0 ? () => moveStop(index, -1) : undefined}
+            onMoveDown={index < stops.length - 1 ? () => moveStop(index, 1) : undefined}
+          />
+        ))}
+
+        {stops.length < MAX_STOPS && (
+          <button
+            type="button"
+            onClick={addStop}
+            className="w-full rounded-xl border-2 border-dashed border-border p-3 text-sm font-medium text-primary hover:border-primary/50 transition-colors"
+          >
+            + Add a stop on the way
+          </button>
+        )}
+        {stops.length > 0 && (
+          <p className="text-xs text-center text-muted-foreground">
+            Stops are visited in this order, between A and B. Each one adds a little time on the day.
+          </p>
+        )}
       </div>
 
       {/* Navigation Buttons */}
@@ -499,7 +677,220 @@ export function Step8AddressSelection() {
   );
 }
 
+// ===================
+// STOP FIELD
+// ===================
+
+interface StopFieldProps {
+  stop: StopData;
+  index: number;
+  googleLoaded: boolean;
+  onChange: (changes: Partial<StopData>) => void;
+  onRemove: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+}
+
+function StopField({ stop, index, googleLoaded, onChange, onRemove, onMoveUp, onMoveDown }: StopFieldProps) {
+  const [inputValue, setInputValue] = useState(stop.formatted);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const autocompleteRef = useRef<any>(null);
+
+  // The listener outlives renders - always call the latest onChange
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const id = `stop-${index}`;
+
+  useEffect(() => {
+    if (!inputRef.current || !googleLoaded) return;
+
+    autocompleteRef.current = new google.maps.places.Autocomplete(inputRef.current, {
+      componentRestrictions: { country: 'gb' },
+      types: ['geocode'],
+      fields: ['formatted_address', 'geometry', 'address_components'],
+    });
+
+    autocompleteRef.current.addListener('place_changed', () => {
+      const place = autocompleteRef.current?.getPlace();
+
+      if (!place || !place.formatted_address) {
+        toast.warning('Please select an address from the dropdown');
+        return;
+      }
+
+      const postcodeComponent = place.address_components?.find(
+        (c: any) => c.types.includes('postal_code')
+      );
+
+      setInputValue(place.formatted_address);
+      onChangeRef.current({
+        formatted: place.formatted_address,
+        postcode: postcodeComponent?.long_name || '',
+        lat: place.geometry?.location?.lat(),
+        lng: place.geometry?.location?.lng(),
+      });
+    });
+
+    return () => {
+      if (autocompleteRef.current) {
+        google.maps.event.clearInstanceListeners(autocompleteRef.current);
+      }
+    };
+  }, [googleLoaded]);
+
+  const floorLevel = (stop.floorLevel ?? 0).toString();
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-amber-100 text-amber-700 text-sm font-medium">
+            {index + 1}
+          </div>
+          <Select
+            id={`${id}-type`}
+            value={stop.type}
+            onChange={(e) => onChange({ type: e.target.value as StopType })}
+            aria-label="Stop type"
+          >
+            {STOP_TYPES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <button
+            type="button"
+            onClick={onMoveUp}
+            disabled={!onMoveUp}
+            className="h-8 w-8 rounded hover:bg-muted disabled:opacity-30"
+            aria-label="Move stop earlier"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={onMoveDown}
+            disabled={!onMoveDown}
+            className="h-8 w-8 rounded hover:bg-muted disabled:opacity-30"
+            aria-label="Move stop later"
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="h-8 w-8 rounded hover:bg-muted"
+            aria-label="Remove stop"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+          📍
+        </span>
+        <Input
+          ref={inputRef}
+          id={`${id}-address`}
+          type="text"
+          placeholder="Enter stop address"
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            if (stop.formatted) {
+              onChange({ formatted: '', postcode: '', lat: undefined, lng: undefined });
+            }
+          }}
+          className="pl-10"
+          autoComplete="off"
+        />
+      </div>
+      {stop.formatted && (
+        <div className="mt-2 flex items-center gap-2 text-sm text-emerald-600">
+          <span>✓</span>
+          <span className="truncate">{stop.postcode || 'Address selected'}</span>
+        </div>
+      )}
+
+      <div className="mt-3 grid gap-3 sm:grid-cols-2">
+        {/* Floor level dropdown */}
+        <div>
+          <Label htmlFor={`${id}-floor`} className="text-sm text-muted-foreground">
+            Which floor?
+          </Label>
+          <Select
+            id={`${id}-floor`}
+            value={floorLevel}
+            onChange={(e) => onChange({ floorLevel: Number.parseInt(e.target.value, 10) })}
+            className="mt-1"
+          >
+            {FLOOR_LEVELS.map((floor) => (
+              <option key={floor.value} value={floor.value}>
+                {floor.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        {/* Lift dropdown */}
+        {floorLevel !== '0' && (
+          <div>
+            <Label htmlFor={`${id}-lift`} className="text-sm text-muted-foreground">
+              Is there a lift?
+            </Label>
+            <Select
+              id={`${id}-lift`}
+              value={stop.lift ?? 'none'}
+              onChange={(e) => onChange({ lift: e.target.value as LiftAccess })}
+              className="mt-1"
+            >
+              {LIFT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {/* Access notes */}
+      <div className="mt-3">
+        <Label htmlFor={`${id}-notes`} className="text-sm text-muted-foreground">
+          Access notes (optional)
+        </Label>
+        <Input
+          id={`${id}-notes`}
+          type="text"
+          placeholder="e.g. Storage unit 42, gate code needed"
+          value={stop.notes ?? ''}
+          onChange={(e) => onChange({ notes: e.target.value || undefined })}
+          maxLength={200}
+          className="mt-1"
+        />
+      </div>
+    </Card>
+  );
+}
+
 // Helper functions
+function toLocation(address: AddressData) {
+  return address.lat && address.lng
+    ? { lat: address.lat, lng: address.lng }
+    : address.formatted;
+}
+
+function swap<T>(list: T[], a: number, b: number): T[] {
+  const result = [...list];
+  [result[a], result[b]] = [result[b], result[a]];
+  return result;
+}
+
 function metersToMiles(meters: number): number {
   return meters / 1609.34;
 }
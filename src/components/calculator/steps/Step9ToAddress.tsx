@@ -28,11 +28,10 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Spinner } from '@/components/ui/spinner';
 
-// Depot location (Bristol BS10 5PN)
+// Depot location (the default branch)
 const DEPOT_LOCATION = {
-  lat: 51.5074,
-  lng: -2.6051,
-  address: CALCULATOR_CONFIG.company.depot,
+  lat: CALCULATOR_CONFIG.depots[CALCULATOR_CONFIG.defaultDepot].lat,
+  lng: CALCULATOR_CONFIG.depots[CALCULATOR_CONFIG.defaultDepot].lng,
 };
 
 export function Step9ToAddress() {
@@ -238,6 +237,7 @@ export function Step9ToAddress() {
           driveTimeHours: totalDriveTimeHours,
           customerDistance: fromToToMiles,
           customerDriveMinutes: fromToToMinutes,
+          path: routeResult.routes[0]?.overview_polyline,
         };
 
         setDistanceInfo(distances);
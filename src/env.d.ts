@@ -13,6 +13,12 @@ declare namespace App {
         // Email
         RESEND_API_KEY: string;
 
+        // Resume links
+        SESSION_SECRET?: string;
+
+        // Admin reports
+        ADMIN_API_KEY?: string;
+
         // Site
         SITE_URL: string;
         ENVIRONMENT: string;
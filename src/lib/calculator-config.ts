@@ -9,11 +9,30 @@ export const CALCULATOR_CONFIG = {
   // Company info
   company: {
     name: 'Painless Removals Bristol',
-    depot: 'BS10 5PN',
     phone: '0117 123 4567',
     email: 'quotes@painlessremovals.co.uk',
   },
 
+  // ===================
+  // DEPOTS
+  // ===================
+  // Each job runs from the depot with the shortest depot → from → to → depot
+  // round trip, among depots within their service radius (road miles to the
+  // collection address). Quote notifications go to the branch inbox.
+  // Rate overrides replace the matching pricing tables for that branch.
+  defaultDepot: 'bristol' as const,
+  depots: {
+    bristol: {
+      name: 'Bristol',
+      postcode: 'BS10 5PN',
+      lat: 51.5074,
+      lng: -2.6051,
+      serviceRadiusMiles: 80,
+      inbox: 'quotes@painlessremovals.co.uk',
+      rates: {},
+    },
+  },
+
   // Currency & formatting
   currency: {
     code: 'GBP',
@@ -24,20 +43,42 @@ export const CALCULATOR_CONFIG = {
   // Profit margin (65%)
   profitMargin: 0.65,
 
+  // ===================
+  // VAT
+  // ===================
+  // Quoted prices include VAT; the VAT content is worked out per price line.
+  vat: {
+    rate: 0.20,
+    // Price lines with no VAT (matched on the line id prefix)
+    // Storage is exempt as a lease of space, insurance carries IPT instead
+    exemptItems: ['storage', 'insurance'] as string[],
+    // Which figure leads on the quote page and emails, by service type
+    // Business customers (office) reclaim VAT, so they see ex. VAT prices
+    display: {
+      home: 'inc',
+      office: 'ex',
+      clearance: 'inc',
+    } as Record<'home' | 'office' | 'clearance', 'inc' | 'ex'>,
+    labels: { inc: 'inc. VAT', ex: 'ex. VAT' },
+  },
+
   // ===================
   // CUBES → RESOURCES
   // ===================
-  // Maps cubic feet to men, vans, and load time
-  cubesTable: {
-    250: { men: 2, vans: 1, loadTime: 1.5 },
-    500: { men: 2, vans: 1, loadTime: 3 },
-    750: { men: 3, vans: 2, loadTime: 4 },
-    1000: { men: 4, vans: 2, loadTime: 5 },
-    1250: { men: 5, vans: 3, loadTime: 6 },
-    1500: { men: 6, vans: 3, loadTime: 7 },
-    1750: { men: 7, vans: 4, loadTime: 7.5 },
-    2000: { men: 8, vans: 4, loadTime: 8 },
-  } as Record<number, { men: number; vans: number; loadTime: number }>,
+  // Candidate crews are priced and the cheapest one that loads within a
+  // half or full day wins. More movers load faster, with diminishing returns
+  // as they get in each other's way:
+  //   loadTime = setupTime + cubes / (cubesPerMoverHour × men ^ crewEfficiency)
+  crewSolver: {
+    cubesPerMoverHour: 80,
+    crewEfficiency: 0.85,
+    setupTime: 0.5,   // hours - walkthrough, floor protection, paperwork
+    cubesPerVan: 500, // Luton van load
+    minMen: 2,        // two-person lifts from 250 cubes up
+    maxMen: 10,
+    maxVans: 5,
+    alternatives: 2,  // runner-up crews shown at Step 4
+  },
 
   // For < 250 cubes (furniture only, small jobs)
   smallJobResources: { men: 1, vans: 1, loadTime: 1 },
@@ -88,6 +129,79 @@ export const CALCULATOR_CONFIG = {
     'large':  { cubes: 1500, description: '16+ desks' },
   } as Record<string, { cubes: number; description: string }>,
 
+  // ===================
+  // INVENTORY (ROOM BY ROOM)
+  // ===================
+  // Alternative to the slider - item volumes in cubic feet
+  inventoryRooms: {
+    living: { label: 'Living Room', icon: '🛋️' },
+    bedroom: { label: 'Bedrooms', icon: '🛏️' },
+    kitchen: { label: 'Kitchen', icon: '🍽️' },
+    dining: { label: 'Dining Room', icon: '🪑' },
+    office: { label: 'Home Office', icon: '💻' },
+    garden: { label: 'Garden & Garage', icon: '🚲' },
+    boxes: { label: 'Boxes & Bags', icon: '📦' },
+  },
+
+  inventoryItems: {
+    // Living room
+    sofa3Seater: { room: 'living', label: '3-seater sofa', cubes: 50 },
+    sofa2Seater: { room: 'living', label: '2-seater sofa', cubes: 35 },
+    armchair: { room: 'living', label: 'Armchair', cubes: 20 },
+    coffeeTable: { room: 'living', label: 'Coffee table', cubes: 8 },
+    tvUnit: { room: 'living', label: 'TV & TV unit', cubes: 15 },
+    bookcase: { room: 'living', label: 'Bookcase', cubes: 20 },
+    sideboard: { room: 'living', label: 'Sideboard', cubes: 25 },
+    lamp: { room: 'living', label: 'Floor lamp', cubes: 3 },
+    rug: { room: 'living', label: 'Rug (rolled)', cubes: 4 },
+
+    // Bedrooms
+    kingBed: { room: 'bedroom', label: 'King bed & mattress', cubes: 70 },
+    doubleBed: { room: 'bedroom', label: 'Double bed & mattress', cubes: 60 },
+    singleBed: { room: 'bedroom', label: 'Single bed & mattress', cubes: 35 },
+    cot: { room: 'bedroom', label: 'Cot', cubes: 15 },
+    doubleWardrobe: { room: 'bedroom', label: 'Double wardrobe', cubes: 45 },
+    singleWardrobe: { room: 'bedroom', label: 'Single wardrobe', cubes: 25 },
+    chestOfDrawers: { room: 'bedroom', label: 'Chest of drawers', cubes: 15 },
+    bedsideTable: { room: 'bedroom', label: 'Bedside table', cubes: 5 },
+    dressingTable: { room: 'bedroom', label: 'Dressing table', cubes: 15 },
+
+    // Kitchen
+    fridgeFreezer: { room: 'kitchen', label: 'Fridge freezer', cubes: 30 },
+    undercounterFridge: { room: 'kitchen', label: 'Under-counter fridge', cubes: 12 },
+    washingMachine: { room: 'kitchen', label: 'Washing machine', cubes: 20 },
+    tumbleDryer: { room: 'kitchen', label: 'Tumble dryer', cubes: 20 },
+    dishwasher: { room: 'kitchen', label: 'Dishwasher', cubes: 15 },
+    microwave: { room: 'kitchen', label: 'Microwave', cubes: 3 },
+    kitchenTable: { room: 'kitchen', label: 'Kitchen table', cubes: 20 },
+    kitchenChair: { room: 'kitchen', label: 'Kitchen chair', cubes: 4 },
+
+    // Dining room
+    diningTable: { room: 'dining', label: 'Dining table', cubes: 25 },
+    diningChair: { room: 'dining', label: 'Dining chair', cubes: 5 },
+    displayCabinet: { room: 'dining', label: 'Display cabinet', cubes: 30 },
+
+    // Home office
+    desk: { room: 'office', label: 'Desk', cubes: 20 },
+    officeChair: { room: 'office', label: 'Office chair', cubes: 8 },
+    filingCabinet: { room: 'office', label: 'Filing cabinet', cubes: 10 },
+    computer: { room: 'office', label: 'Computer & monitor', cubes: 5 },
+
+    // Garden & garage
+    lawnmower: { room: 'garden', label: 'Lawnmower', cubes: 10 },
+    gardenTable: { room: 'garden', label: 'Garden table', cubes: 15 },
+    gardenChair: { room: 'garden', label: 'Garden chair', cubes: 4 },
+    bbq: { room: 'garden', label: 'Barbecue', cubes: 10 },
+    bicycle: { room: 'garden', label: 'Bicycle', cubes: 10 },
+    toolChest: { room: 'garden', label: 'Tool chest', cubes: 8 },
+
+    // Boxes & bags
+    smallBox: { room: 'boxes', label: 'Small box', cubes: 1.5 },
+    mediumBox: { room: 'boxes', label: 'Medium box', cubes: 3 },
+    largeBox: { room: 'boxes', label: 'Large box', cubes: 4.5 },
+    suitcase: { room: 'boxes', label: 'Suitcase or bag', cubes: 3 },
+  },
+
   // ===================
   // FURNITURE ONLY
   // ===================
@@ -103,15 +217,74 @@ export const CALCULATOR_CONFIG = {
     // Weight threshold for 2-man job
     heavyWeightThreshold: 40, // kg
 
-    // Specialist items (require callback)
-    specialistItems: [
-      'piano',
-      'safe',
-      'gym-equipment',
-      'hot-tub',
-      'marble-stone',
-      'other'
+    // Specialist items - priced per item, 'other' still needs a callback
+    // handlingFee: £ per item (equipment, straps, skates)
+    // extraMen: movers on top of the usual crew
+    specialistItems: {
+      piano: { label: 'Piano / Grand Piano', icon: '🎹', handlingFee: 120, extraMen: 2, weightClass: 'veryHeavy', requiresCallback: false },
+      safe: { label: 'Safe / Strongbox', icon: '🔐', handlingFee: 90, extraMen: 1, weightClass: 'veryHeavy', requiresCallback: false },
+      'gym-equipment': { label: 'Heavy gym equipment', icon: '🏋️', handlingFee: 45, extraMen: 1, weightClass: 'heavy', requiresCallback: false },
+      'hot-tub': { label: 'Hot tub / Jacuzzi', icon: '🛁', handlingFee: 150, extraMen: 2, weightClass: 'veryHeavy', requiresCallback: false },
+      'marble-stone': { label: 'Marble / Stone furniture', icon: '🪨', handlingFee: 60, extraMen: 1, weightClass: 'heavy', requiresCallback: false },
+      other: { label: 'Other specialist item', icon: '📦', handlingFee: 0, extraMen: 0, weightClass: 'medium', requiresCallback: true },
+    },
+
+    // Extra load time per specialist item
+    weightClasses: {
+      medium: { label: 'Up to 100kg', loadTime: 0.25 },
+      heavy: { label: '100-250kg', loadTime: 0.5 },
+      veryHeavy: { label: 'Over 250kg', loadTime: 1 },
+    },
+
+    // Handling fees go up when the item is carried up or down stairs
+    stairsMultiplier: 1.5,
+  },
+
+  // ===================
+  // CLEARANCE
+  // ===================
+  // Waste volume in cubic yards (a Luton van holds about 16)
+  clearance: {
+    loads: {
+      fewItems: { cubicYards: 2, label: 'A few items', description: '1-3 bulky items or up to 10 bags' },
+      quarter: { cubicYards: 4, label: 'Quarter van', description: 'A box room or garden shed' },
+      half: { cubicYards: 8, label: 'Half van', description: 'A bedroom or single garage' },
+      threeQuarter: { cubicYards: 12, label: 'Three-quarter van', description: 'A 1-bedroom flat' },
+      full: { cubicYards: 16, label: 'Full van', description: 'A 2-bedroom house' },
+      double: { cubicYards: 32, label: 'Two vans', description: 'A 3-bedroom house or larger' },
+    },
+
+    vanCapacity: 16,         // cubic yards per van load
+    loadTimePerYard: 0.15,   // hours to carry out and load
+
+    // Crew by volume
+    crew: [
+      { maxYards: 4, men: 1 },
+      { maxYards: 16, men: 2 },
+      { maxYards: Infinity, men: 3 },
     ],
+
+    // Tip / transfer station - the 'to' address of a clearance
+    transferStation: {
+      name: 'Avonmouth Waste Transfer Station',
+      address: 'Kings Weston Lane, Avonmouth, Bristol',
+      postcode: 'BS11 8AZ',
+    },
+    tipFeePerYard: 22,       // general waste gate fee
+    tipTimePerLoad: 0.5,     // hours at the transfer station per van load
+
+    // Charged per item on top of the general waste
+    wasteCategories: {
+      weee: { fee: 15, label: 'Electricals (WEEE)', examples: 'TVs, washing machines, microwaves', icon: '🔌' },
+      mattresses: { fee: 20, label: 'Mattresses', examples: 'Any size, including divans', icon: '🛏️' },
+      hazardous: { fee: 35, label: 'Hazardous waste', examples: 'Paint, chemicals, gas bottles, batteries', icon: '⚠️' },
+    },
+
+    // Sorting for recycling and donation keeps reusable items out of the tip
+    recycling: {
+      diversion: 0.3,            // share of general waste kept out of the tip
+      sortingTimePerYard: 0.05,  // extra hours to sort
+    },
   },
 
   // ===================
@@ -140,15 +313,90 @@ export const CALCULATOR_CONFIG = {
     { maxMiles: Infinity, rate: 0.30 },
   ],
 
+  // ===================
+  // PRICING - ROAD CHARGES
+  // ===================
+  // A route is charged when an address is in one of the postcode districts,
+  // or the route passes through the polygon ([lat, lng], approximate boundaries)
+  roadCharges: {
+    // Per van, for each day of the job
+    zones: {
+      bristolCaz: {
+        label: 'Bristol Clean Air Zone',
+        dailyCharge: 9,
+        districts: ['BS1'],
+        polygon: [[51.4620, -2.6050], [51.4620, -2.5700], [51.4450, -2.5700], [51.4450, -2.6050]],
+      },
+      londonCongestion: {
+        label: 'London Congestion Charge',
+        dailyCharge: 15,
+        districts: ['EC1', 'EC2', 'EC3', 'EC4', 'WC1', 'WC2'],
+        polygon: [[51.5300, -0.1800], [51.5300, -0.0700], [51.4900, -0.0700], [51.4900, -0.1800]],
+      },
+      londonUlez: {
+        label: 'London ULEZ',
+        dailyCharge: 12.5,
+        districts: [],
+        polygon: [
+          [51.6900, -0.3300], [51.6600, 0.0300], [51.6300, 0.3300], [51.5600, 0.2700],
+          [51.5000, 0.2000], [51.4500, 0.1800], [51.2900, 0.0300], [51.2900, -0.1600],
+          [51.3700, -0.4800], [51.5300, -0.5100],
+        ],
+      },
+    },
+
+    // Per van, once per job
+    tolls: {
+      dartford: {
+        label: 'Dartford Crossing',
+        charge: 3,
+        districts: [],
+        polygon: [[51.4700, 0.2530], [51.4700, 0.2630], [51.4600, 0.2630], [51.4600, 0.2530]],
+      },
+      merseyGateway: {
+        label: 'Mersey Gateway Bridge',
+        charge: 4,
+        districts: [],
+        polygon: [[53.3510, -2.7320], [53.3510, -2.7220], [53.3410, -2.7220], [53.3410, -2.7320]],
+      },
+      tamarBridge: {
+        label: 'Tamar Bridge',
+        charge: 2.6,
+        districts: [],
+        polygon: [[50.4125, -4.2085], [50.4125, -4.1985], [50.4025, -4.1985], [50.4025, -4.2085]],
+      },
+      humberBridge: {
+        label: 'Humber Bridge',
+        charge: 3,
+        districts: [],
+        polygon: [[53.7115, -0.4545], [53.7115, -0.4445], [53.7015, -0.4445], [53.7015, -0.4545]],
+      },
+    },
+  },
+
   // ===================
   // PRICING - ACCOMMODATION
   // ===================
   accommodation: {
-    triggerHours: 10,   // If drive time > 10h, need overnight
     perRoom: 140,       // £140 per room per night
     peoplePerRoom: 2,   // 2 people per room
   },
 
+  // ===================
+  // DRIVERS' HOURS
+  // ===================
+  // UK/EU rules - long jobs are split into legal working days
+  driverHours: {
+    maxDailyDriving: 9,     // hours behind the wheel per driver per day
+    breakAfter: 4.5,        // hours of driving before a break
+    breakLength: 0.75,      // 45 minute break
+    maxWorkingDay: 13,      // 11h daily rest leaves 13h for driving, loading and breaks
+    // Two drivers per van share the wheel: breaks are taken as passenger
+    secondDriver: {
+      maxWorkingDay: 21,    // 9h rest within 30h when double-manned
+    },
+  },
+
   // ===================
   // TIME THRESHOLDS
   // ===================
@@ -171,6 +419,82 @@ export const CALCULATOR_CONFIG = {
     plants: { addVans: 1, addMen: 1, label: 'Large collection of plants (20+)' },
   },
 
+  // ===================
+  // FLOOR ACCESS
+  // ===================
+  // Replaces the flat 'stairs' factor when both addresses have a floor level.
+  // Each address carries half the load time (loading at A, unloading at B);
+  // every floor above or below ground adds timeFactor × that half.
+  floorAccess: {
+    lift: {
+      none: { timeFactor: 0.12, label: 'No lift' },
+      small: { timeFactor: 0.06, label: 'Lift, but furniture goes by the stairs' },
+      fits: { timeFactor: 0.02, label: 'Lift fits furniture' },
+    },
+    // Carrying furniture by the stairs from this many floors adds a mover
+    extraMoverFromFloor: 3,
+  },
+
+  // ===================
+  // EXTRA STOPS
+  // ===================
+  // Pickups and drop-offs on the way from A to B (e.g. a storage unit).
+  // Each stop adds handling time (parking, loading or unloading part of the
+  // load), and floors at a stop add timeFactor × that handling time.
+  stops: {
+    maxStops: 4,
+    handlingTime: 0.5, // hours per stop
+    types: {
+      pickup: { label: 'Extra pickup' },
+      dropoff: { label: 'Extra drop-off' },
+    },
+  },
+
+  // ===================
+  // DATE PRICING
+  // ===================
+  // Percentages apply to van + mover cost (crew availability drives the price)
+  datePricing: {
+    timeZone: 'Europe/London',
+    // Day of week (0 = Sunday) → surcharge
+    peakDays: {
+      5: { surcharge: 0.10, label: 'Friday move' },
+      6: { surcharge: 0.15, label: 'Saturday move' },
+    } as Record<number, { surcharge: number; label: string }>,
+    // Completion days cluster on the last working days of the month
+    monthEnd: { workingDays: 2, surcharge: 0.10, label: 'Month-end move' },
+    // Replaces the peak day surcharge when both apply
+    bankHoliday: { surcharge: 0.25, label: 'Bank holiday move' },
+    // "I'm flexible with dates" - we pick the slot, no peak surcharges
+    flexible: { discount: 0.05, label: 'Flexible date discount' },
+    // England & Wales bank holidays (gov.uk)
+    bankHolidays: [
+      '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04',
+      '2026-05-25', '2026-08-31', '2026-12-25', '2026-12-28',
+      '2027-01-01', '2027-03-26', '2027-03-29', '2027-05-03',
+      '2027-05-31', '2027-08-30', '2027-12-27', '2027-12-28',
+      '2028-01-03', '2028-04-14', '2028-04-17', '2028-05-01',
+      '2028-05-29', '2028-08-28', '2028-12-25', '2028-12-26',
+    ] as string[],
+  },
+
+  // ===================
+  // PRICE RANGE
+  // ===================
+  // Quotes built on estimates (belongings slider, no move date yet) are shown
+  // as a low / high band: the estimated inputs are varied either way and the
+  // job re-priced. Drive time always varies with traffic.
+  priceRange: {
+    sliderStep: 1,          // slider positions either side of the customer's pick
+    datePremium: 0.15,      // an undecided date may land on a Saturday
+    driveTimeVariance: 0.2, // ± share of drive time
+    factors: {
+      volume: { hint: 'List your belongings room by room to pin down the van space' },
+      date: { hint: 'Pick a move date to fix any peak day surcharge' },
+      driveTime: { hint: 'Allows for traffic on the day' },
+    },
+  },
+
   // ===================
   // PACKING SERVICES
   // ===================
@@ -374,6 +698,18 @@ export const CALCULATOR_CONFIG = {
     6: { price: 210, label: '6+ rooms' },
   } as Record<number, { price: number; label: string }>,
 
+  // Bedrooms by property size - pre-fills cleaning and sizes packages
+  estimatedRooms: {
+    studio: 1,
+    '1bed': 1,
+    '2bed': 2,
+    '3bed-small': 3,
+    '3bed-large': 3,
+    '4bed': 4,
+    '5bed': 5,
+    '5bed-plus': 6,
+  } as Record<string, number>,
+
   // ===================
   // STORAGE SERVICES
   // ===================
@@ -397,6 +733,65 @@ export const CALCULATOR_CONFIG = {
     veryComplex: { price: 120, label: 'Very Complex', examples: 'Gym equipment, custom' },
   },
 
+  // ===================
+  // GOODS IN TRANSIT INSURANCE
+  // ===================
+  // Optional cover for the customer's declared contents value, on top of our
+  // standard liability. Premium = rate × declared value, never below minimum.
+  insurance: {
+    maxDeclaredValue: 250000,
+    levels: {
+      basic: {
+        label: 'Basic cover',
+        description: 'Loss or damage in transit, up to £1,000 per item',
+        rate: 0.005,  // 0.5% of declared value
+        minimum: 25,
+        itemLimit: 1000 as number | null,
+      },
+      full: {
+        label: 'Full replacement',
+        description: "Anything lost or damaged replaced at today's price, no per-item limit",
+        rate: 0.01,   // 1% of declared value
+        minimum: 45,
+        itemLimit: null as number | null,
+      },
+    },
+  },
+
+  // ===================
+  // PACKAGES
+  // ===================
+  // Good / Better / Best bundles compared on the quote page. Each one sets the
+  // packing tier, disassembly and cleaning; storage stays as the customer chose.
+  // Disassembly (one item per bedroom) and cleaning are sized from the property
+  // unless the customer already picked their own.
+  packages: {
+    moveOnly: {
+      label: 'Move only',
+      description: 'Van, crew and fuel - you pack and dismantle',
+      badge: null,
+      packingTier: null,
+      disassembly: null,
+      cleaning: null,
+    },
+    packed: {
+      label: 'Move & pack',
+      description: 'We pack the fragile items and take apart the furniture',
+      badge: 'Most popular',
+      packingTier: 'fragile' as const,
+      disassembly: 'general' as const,
+      cleaning: null,
+    },
+    complete: {
+      label: 'Full service',
+      description: 'We pack everything and deep clean the old place',
+      badge: null,
+      packingTier: 'fullService' as const,
+      disassembly: 'general' as const,
+      cleaning: 'deep' as const,
+    },
+  },
+
   // ===================
   // PROPERTY SIZE OPTIONS
   // ===================
@@ -416,20 +811,27 @@ export const CALCULATOR_CONFIG = {
   // ===================
   // PROGRESS MESSAGES
   // ===================
+  // By step id (calculator-steps.ts)
   progressMessages: {
-    1: "📦 Let's figure out what you need...",
-    2: "📦 Let's figure out what you need...",
-    3: "🏠 Great! Now let's plan the details...",
-    4: "🏠 Great! Now let's plan the details...",
-    5: "🎉 Halfway there! Just a few more details...",
-    6: "🎉 Halfway there! Just a few more details...",
-    7: "🚚 Almost done! We're mapping your route...",
-    8: "🚚 Almost done! We're mapping your route...",
-    9: "🚚 Almost done! We're mapping your route...",
-    10: "🚀 Nearly there! Just your contact details...",
-    11: "🚀 Nearly there! Just your contact details...",
-    12: "🎉 Your quote is ready!",
-  } as Record<number, string>,
+    'step-01': "📦 Let's figure out what you need...",
+    'step-02': "📦 Let's figure out what you need...",
+    'step-03': "🏠 Great! Now let's plan the details...",
+    'step-03a': "🏠 Great! Now let's plan the details...",
+    'step-04': "🏠 Great! Now let's plan the details...",
+    'step-05': "🎉 Halfway there! Just a few more details...",
+    'step-05b': "🎉 Halfway there! Just a few more details...",
+    'step-06': "🎉 Halfway there! Just a few more details...",
+    'step-07': "🚚 Almost done! We're mapping your route...",
+    'step-08': "🚚 Almost done! We're mapping your route...",
+    'step-10': "🚀 Nearly there! Just your contact details...",
+    'step-10a': "🚀 Nearly there! Just your contact details...",
+    'step-10b': "🚀 Nearly there! Just your contact details...",
+    'step-10c': "🚀 Nearly there! Just your contact details...",
+    'step-10d': "🚀 Nearly there! Just your contact details...",
+    'step-10e': "🚀 Nearly there! Just your contact details...",
+    'step-11': "🚀 Nearly there! Just your contact details...",
+    'step-12': "🎉 Your quote is ready!",
+  } as Record<string, string>,
 
   // ===================
   // VALIDATION
@@ -453,6 +855,12 @@ export const CALCULATOR_CONFIG = {
 // Type exports
 export type PropertySize = keyof typeof CALCULATOR_CONFIG.propertyCubes | 'furniture';
 export type OfficeSize = keyof typeof CALCULATOR_CONFIG.officeCubes;
+export type InventoryRoom = keyof typeof CALCULATOR_CONFIG.inventoryRooms;
+export type InventoryItemKey = keyof typeof CALCULATOR_CONFIG.inventoryItems;
+export type ClearanceLoad = keyof typeof CALCULATOR_CONFIG.clearance.loads;
+export type WasteCategory = keyof typeof CALCULATOR_CONFIG.clearance.wasteCategories;
+export type SpecialistItemKey = keyof typeof CALCULATOR_CONFIG.furnitureOnly.specialistItems;
+export type WeightClass = keyof typeof CALCULATOR_CONFIG.furnitureOnly.weightClasses;
 export type BelongingsCategory = 'few' | 'average' | 'many';
 export type SliderPosition = 1 | 2 | 3 | 4 | 5;
 export type PackingSize = keyof typeof CALCULATOR_CONFIG.packing;
@@ -463,3 +871,12 @@ export type StorageSize = keyof typeof CALCULATOR_CONFIG.storage;
 export type StorageSizeKey = keyof typeof CALCULATOR_CONFIG.storageSizes;
 export type AssemblyComplexity = keyof typeof CALCULATOR_CONFIG.assembly;
 export type Complication = keyof typeof CALCULATOR_CONFIG.complications;
+export type LiftAccess = keyof typeof CALCULATOR_CONFIG.floorAccess.lift;
+export type StopType = keyof typeof CALCULATOR_CONFIG.stops.types;
+export type DepotKey = keyof typeof CALCULATOR_CONFIG.depots;
+export type ChargeZone = keyof typeof CALCULATOR_CONFIG.roadCharges.zones;
+export type TollCrossing = keyof typeof CALCULATOR_CONFIG.roadCharges.tolls;
+export type RangeFactor = keyof typeof CALCULATOR_CONFIG.priceRange.factors;
+export type PackageKey = keyof typeof CALCULATOR_CONFIG.packages;
+export type InsuranceLevel = keyof typeof CALCULATOR_CONFIG.insurance.levels;
+export type VatDisplay = keyof typeof CALCULATOR_CONFIG.vat.labels;
@@ -2,16 +2,42 @@
  * PAINLESS REMOVALS - CALCULATOR LOGIC
  *
  * All calculation functions for the quote calculator.
- * Uses data from calculator-config.ts
+ * Prices come from a PricingConfig (calculator-pricing.ts); helpers
+ * default to the bundled config, calculateQuote requires one.
  */
 
 import { CALCULATOR_CONFIG } from './calculator-config';
+import { DEFAULT_PRICING_CONFIG, type PricingConfig } from './calculator-pricing';
+import {
+  type LatLng,
+  decodePolyline,
+  getPostcodeDistrict,
+  isPointInPolygon,
+  pathEntersPolygon,
+} from './utils/geo';
 import type {
   PropertySize,
   OfficeSize,
   SliderPosition,
+  InventoryItemKey,
+  ClearanceLoad,
+  WasteCategory,
+  SpecialistItemKey,
   Complication,
-  PackingSize
+  PackingSize,
+  PackingTierType,
+  CleaningTierType,
+  StorageSizeKey,
+  AssemblyComplexity,
+  LiftAccess,
+  StopType,
+  DepotKey,
+  ChargeZone,
+  TollCrossing,
+  RangeFactor,
+  PackageKey,
+  InsuranceLevel,
+  VatDisplay
 } from './calculator-config';
 
 // ===================
@@ -24,11 +50,84 @@ export interface Resources {
   loadTime: number;
 }
 
+export interface ServiceDuration {
+  days: number;
+  isHalfDay: boolean;
+  label: string;
+}
+
+// How a job is split into legal working days
+// local: the crew gets home each night
+// overnight: one driver per van, stopping overnight
+// secondDriver: two drivers per van sharing the wheel
+export type SchedulePlan = 'local' | 'overnight' | 'secondDriver';
+
+export interface DriverSchedule {
+  plan: SchedulePlan;
+  duration: ServiceDuration;
+  nights: number; // nights away from the depot
+  secondDrivers: number; // drivers added to the crew
+  breakTime: number; // hours of statutory driving breaks
+}
+
+export interface CrewOption extends Resources {
+  duration: ServiceDuration;
+  cost: number; // vans + movers, before margin
+}
+
 export interface FurnitureOnlyInput {
   itemCount: number;
   needs2Person: boolean;
   over40kg: boolean;
-  hasSpecialist: boolean;
+  specialistItems: SpecialistItemKey[];
+}
+
+export interface ClearanceInput {
+  load: ClearanceLoad;
+  items: Partial<Record<WasteCategory, number>>; // Per-item waste (WEEE, mattresses, hazardous)
+  recycling: boolean; // Sort for recycling and donation
+}
+
+export interface InsuranceInput {
+  level: InsuranceLevel;
+  declaredValue: number; // £, customer's estimate of their contents
+}
+
+export interface InventoryLine {
+  item: InventoryItemKey;
+  quantity: number;
+}
+
+export interface AddressAccess {
+  floorLevel: number; // -1 = basement, 0 = ground
+  lift: LiftAccess;
+}
+
+export interface StopInput {
+  type: StopType;
+  access?: AddressAccess;
+}
+
+// An address on the route, for road charges
+export interface RoutePoint {
+  postcode?: string;
+  lat?: number;
+  lng?: number;
+}
+
+// A charging zone or toll crossing (CALCULATOR_CONFIG.roadCharges)
+interface RoadChargeArea {
+  label: string;
+  districts: readonly string[];
+  polygon: readonly LatLng[];
+}
+
+export interface PromoDiscount {
+  code: string;
+  type: 'percent' | 'fixed'; // percent: 10 = 10% off, fixed: pounds off
+  value: number;
+  minJobValue?: number | null;
+  serviceTypes?: string[] | null; // All service types when empty
 }
 
 export interface QuoteInput {
@@ -39,33 +138,65 @@ export interface QuoteInput {
   propertySize?: PropertySize;
   sliderPosition?: SliderPosition;
 
+  // Room-by-room inventory - replaces the slider estimate when set
+  inventory?: InventoryLine[];
+
   // Furniture only
   furnitureOnly?: FurnitureOnlyInput;
 
   // Office
   officeSize?: OfficeSize;
 
+  // Clearance
+  clearance?: ClearanceInput;
+
   // Complications
   complications: Complication[];
 
   // Property chain
   propertyChain: boolean;
 
+  // Floor access (Step 8) - replaces the 'stairs' complication when both are set
+  access?: {
+    from?: AddressAccess;
+    to?: AddressAccess;
+  };
+
+  // Extra pickups / drop-offs between from and to, in route order
+  stops?: StopInput[];
+
+  // Branch the job runs from (chosen with the route in Step 8)
+  depot?: DepotKey;
+
+  // Addresses and path, checked for clean air zones and tolls
+  route?: {
+    points: RoutePoint[]; // from, stops, to
+    path?: string; // Google encoded polyline of from → stops → to
+  };
+
+  // Date (Step 5)
+  selectedDate?: string; // ISO string
+  dateFlexibility?: 'fixed' | 'flexible' | 'unknown';
+
   // Distance (from Google Maps API)
   distances: {
     depotToFrom: number;  // miles
     fromToTo: number;     // miles
     toToDepot: number;    // miles
     driveTimeHours: number; // total drive time in hours
+    legs?: number[];      // miles per leg from → stops → to (sums to fromToTo)
   };
 
   // Extra services
   extras: {
-    packing?: PackingSize;
+    packingTier?: PackingTierType;
     cleaningRooms?: number;
-    storage?: keyof typeof CALCULATOR_CONFIG.storage;
-    assembly?: Array<{
-      type: keyof typeof CALCULATOR_CONFIG.assembly;
+    cleaningType?: CleaningTierType;
+    storageSize?: StorageSizeKey;
+    storageWeeks?: number;
+    insurance?: InsuranceInput;
+    disassemblyItems?: Array<{
+      category: AssemblyComplexity;
       quantity: number;
     }>;
   };
@@ -75,6 +206,54 @@ export interface QuoteInput {
     men: number;
     vans: number;
   };
+
+  // Promo code - resolved server-side, never taken from the request body
+  promo?: PromoDiscount;
+}
+
+export interface DateAdjustments {
+  peakDaySurcharge: number;
+  monthEndSurcharge: number;
+  bankHolidaySurcharge: number;
+  flexibleDiscount: number; // negative
+}
+
+export interface FloorAccessResult {
+  extraLoadTime: number;
+  extraMen: number;
+}
+
+export type PriceItemKind =
+  | 'crew'
+  | 'travel'
+  | 'date'
+  | 'extra'
+  | 'disposal'
+  | 'specialist'
+  | 'complication'
+  | 'service'
+  | 'discount';
+
+/**
+ * One labelled line of a quote - amounts are before margin,
+ * the 'service' line carries the margin and rounding,
+ * a 'discount' line comes off the final price
+ */
+export interface PriceItem {
+  id: string;
+  kind: PriceItemKind;
+  label: string;
+  amount: number; // inc. VAT
+  vat?: number; // VAT included in amount (set by calculateQuote)
+  quantity?: number;
+  unit?: string;
+}
+
+export interface VatTotals {
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number; // = totalPrice
 }
 
 export interface QuoteResult {
@@ -88,27 +267,74 @@ export interface QuoteResult {
 
   // Time
   loadTime: number;
+  accessTime: number; // included in loadTime
   totalJobTime: number;
   serviceDuration: string;
   serviceDays: number;
   isHalfDay: boolean;
+  schedule: DriverSchedule; // drivers' hours plan behind the duration
 
   // Flags
   requiresCallback: boolean;
   callbackReason?: string;
   showMultiDayWarning: boolean;
 
-  // Breakdown (for display)
+  // Promo code applied (absent if none was given or it didn't qualify)
+  promoCode?: string;
+
+  // Price lines in display order - amounts sum to totalPrice
+  items: PriceItem[];
+
+  // VAT split of totalPrice
+  vat: VatTotals;
+
+  // Breakdown (totals by category)
   breakdown: {
     vansCost: number;
     moversCost: number;
     mileageCost: number;
     accommodationCost: number;
+    roadChargesCost: number;
     extrasCost: number;
+    disposalCost: number;
+    specialistCost: number;
+    peakDaySurcharge: number;
+    monthEndSurcharge: number;
+    bankHolidaySurcharge: number;
+    flexibleDiscount: number;
     complicationMultiplier: number;
     subtotal: number;
     margin: number;
+    promoDiscount: number; // negative
   };
+
+  // Low / high band for estimated inputs (only with the range option)
+  range?: PriceRange;
+}
+
+export interface PriceRange {
+  low: number;
+  expected: number; // = totalPrice
+  high: number;
+  factors: RangeFactor[]; // estimated inputs behind the band
+}
+
+export interface QuoteOptions {
+  range?: boolean; // also price the low / high band
+}
+
+// Extras a package sets - the rest of the customer's extras are kept
+export interface PackageExtras {
+  packingTier?: PackingTierType;
+  disassemblyItems: Array<{ category: AssemblyComplexity; quantity: number }>;
+  cleaningRooms?: number;
+  cleaningType?: CleaningTierType;
+}
+
+export interface QuotePackage {
+  key: PackageKey;
+  extras: PackageExtras;
+  quote: QuoteResult;
 }
 
 // ===================
@@ -120,14 +346,15 @@ export interface QuoteResult {
  */
 export function getCubesForProperty(
   propertySize: PropertySize,
-  sliderPosition: SliderPosition
+  sliderPosition: SliderPosition,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
 ): number {
   if (propertySize === 'furniture') {
     return 0; // Furniture only doesn't use cubes
   }
 
-  const slider = CALCULATOR_CONFIG.sliderModifiers[sliderPosition];
-  const propertyCubes = CALCULATOR_CONFIG.propertyCubes[propertySize];
+  const slider = config.sliderModifiers[sliderPosition];
+  const propertyCubes = config.propertyCubes[propertySize];
 
   if (!propertyCubes) {
     throw new Error(`Unknown property size: ${propertySize}`);
@@ -139,33 +366,106 @@ export function getCubesForProperty(
   return finalCubes;
 }
 
+/**
+ * Get cubes for a room-by-room inventory
+ */
+export function getCubesForInventory(
+  inventory: InventoryLine[],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const total = inventory.reduce(
+    (sum, line) => sum + config.inventoryItems[line.item].cubes * line.quantity,
+    0
+  );
+
+  return Math.round(total);
+}
+
 /**
  * Get cubes for office size
  */
-export function getCubesForOffice(officeSize: OfficeSize): number {
-  return CALCULATOR_CONFIG.officeCubes[officeSize].cubes;
+export function getCubesForOffice(
+  officeSize: OfficeSize,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return config.officeCubes[officeSize].cubes;
+}
+
+/**
+ * Load time for a crew - more movers load faster, with diminishing returns
+ */
+export function getLoadTime(
+  cubes: number,
+  men: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const { cubesPerMoverHour, crewEfficiency, setupTime } = config.crewSolver;
+
+  return setupTime + cubes / (cubesPerMoverHour * men ** crewEfficiency);
+}
+
+/**
+ * Load time for a different crew size - the same labour-hours model as
+ * getLoadTime, so the work scales with crew size but set-up time doesn't
+ */
+export function scaleLoadTime(
+  loadTime: number,
+  fromMen: number,
+  toMen: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const { crewEfficiency, setupTime } = config.crewSolver;
+  if (fromMen === toMen || fromMen <= 0 || toMen <= 0) return loadTime;
+
+  const setup = Math.min(setupTime, loadTime);
+  const work = loadTime - setup;
+
+  return setup + work * (fromMen / toMen) ** crewEfficiency;
+}
+
+/**
+ * Candidate crews for a volume that load within a full day, cheapest first
+ * Each crew gets the fewest vans that hold the load and seat everyone
+ */
+export function getCrewOptions(
+  cubes: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): CrewOption[] {
+  const { cubesPerVan, minMen, maxMen, maxVans } = config.crewSolver;
+  const { maxCrewPerVan } = config.validation;
+  const minVans = Math.max(1, Math.ceil(cubes / cubesPerVan));
+  const options: CrewOption[] = [];
+
+  for (let men = minMen; men <= maxMen; men++) {
+    const vans = Math.max(minVans, Math.ceil(men / maxCrewPerVan));
+    if (vans > maxVans || !validateVanCrew(vans, men, config).valid) continue;
+
+    const loadTime = getLoadTime(cubes, men, config);
+    const duration = getServiceDuration(loadTime, false, config);
+    if (duration.days > 1) continue;
+
+    options.push({ men, vans, loadTime, duration, cost: getCrewCost(men, vans, duration, config) });
+  }
+
+  // Cheapest first; on a tie, the smaller crew
+  return options.sort((a, b) => a.cost - b.cost || a.men - b.men);
 }
 
 /**
  * Get resources (men, vans, loadTime) from cubes
  */
-export function getResourcesFromCubes(cubes: number): Resources & { requiresCallback: boolean } {
-  const { cubesTable, smallJobResources, extraCubesFormula } = CALCULATOR_CONFIG;
+export function getResourcesFromCubes(
+  cubes: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): Resources & { requiresCallback: boolean } {
+  const { smallJobResources, extraCubesFormula, crewSolver } = config;
 
   // Small job (< 250 cubes)
   if (cubes < 250) {
     return { ...smallJobResources, requiresCallback: false };
   }
 
-  // Find exact match or interpolate
-  const cubeKeys = Object.keys(cubesTable).map(Number).sort((a, b) => a - b);
-
-  // Exact match
-  if (cubesTable[cubes]) {
-    return { ...cubesTable[cubes], requiresCallback: false };
-  }
-
-  // Above maximum (> 2000)
+  // Above maximum (> 2000) - estimate only, we call back to survey
   if (cubes > extraCubesFormula.baseCubes) {
     const extraCubes = cubes - extraCubesFormula.baseCubes;
     const men = extraCubesFormula.baseMen + Math.ceil(extraCubes / 250) * extraCubesFormula.menPer250;
@@ -175,27 +475,33 @@ export function getResourcesFromCubes(cubes: number): Resources & { requiresCall
     return { men, vans, loadTime, requiresCallback: true };
   }
 
-  // Find nearest lower key and use that
-  let nearestKey = cubeKeys[0];
-  for (const key of cubeKeys) {
-    if (key <= cubes) {
-      nearestKey = key;
-    } else {
-      break;
-    }
+  // Cheapest crew that loads within a day
+  const [best] = getCrewOptions(cubes, config);
+  if (best) {
+    return { men: best.men, vans: best.vans, loadTime: best.loadTime, requiresCallback: false };
   }
 
-  return { ...cubesTable[nearestKey], requiresCallback: false };
+  // Nothing fits in a day - send the largest crew
+  const men = crewSolver.maxMen;
+  const vans = Math.min(
+    crewSolver.maxVans,
+    Math.max(Math.ceil(cubes / crewSolver.cubesPerVan), Math.ceil(men / config.validation.maxCrewPerVan))
+  );
+
+  return { men, vans, loadTime: getLoadTime(cubes, men, config), requiresCallback: false };
 }
 
 /**
  * Get resources for furniture-only job
  */
-export function getResourcesForFurnitureOnly(input: FurnitureOnlyInput): Resources & { requiresCallback: boolean } {
-  const { loadTimeByItems } = CALCULATOR_CONFIG.furnitureOnly;
-
-  // Specialist items = callback required
-  if (input.hasSpecialist) {
+export function getResourcesForFurnitureOnly(
+  input: FurnitureOnlyInput,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): Resources & { requiresCallback: boolean } {
+  const { loadTimeByItems, specialistItems, weightClasses } = config.furnitureOnly;
+
+  // Items we can't price = callback required
+  if (requiresSpecialistCallback(input.specialistItems)) {
     return { men: 0, vans: 0, loadTime: 0, requiresCallback: true };
   }
 
@@ -216,9 +522,124 @@ export function getResourcesForFurnitureOnly(input: FurnitureOnlyInput): Resourc
     men = 2;
   }
 
+  // Specialist items - the heaviest sets the extra crew, each adds handling time
+  for (const item of input.specialistItems) {
+    loadTime += weightClasses[specialistItems[item].weightClass].loadTime;
+  }
+  men += Math.max(0, ...input.specialistItems.map((item) => specialistItems[item].extraMen));
+
   return { men, vans: 1, loadTime, requiresCallback: false };
 }
 
+/**
+ * Check if any specialist item can only be quoted by callback
+ */
+export function requiresSpecialistCallback(items: readonly SpecialistItemKey[]): boolean {
+  return items.some((item) => CALCULATOR_CONFIG.furnitureOnly.specialistItems[item].requiresCallback);
+}
+
+/**
+ * Check if the job involves carrying up or down stairs
+ * Floors without a lift big enough, or the flat 'stairs' complication
+ */
+export function hasStairs(access: QuoteInput['access'], complications: Complication[]): boolean {
+  const addresses = [access?.from, access?.to];
+  return complications.includes('stairs')
+    || addresses.some((address) => address && address.floorLevel !== 0 && address.lift !== 'fits');
+}
+
+/**
+ * Handling fee lines for specialist furniture items
+ */
+export function getSpecialistItems(
+  items: readonly SpecialistItemKey[],
+  stairs: boolean,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  const { specialistItems, stairsMultiplier } = config.furnitureOnly;
+
+  return items
+    .filter((item) => specialistItems[item].handlingFee > 0)
+    .map((item): PriceItem => ({
+      id: `specialist-${item}`,
+      kind: 'specialist',
+      label: `${CALCULATOR_CONFIG.furnitureOnly.specialistItems[item].label} handling${stairs ? ' (stairs)' : ''}`,
+      amount: specialistItems[item].handlingFee * (stairs ? stairsMultiplier : 1),
+    }));
+}
+
+/**
+ * Get the waste volume of a clearance in cubic yards
+ */
+export function getClearanceYards(
+  input: ClearanceInput,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return config.clearance.loads[input.load].cubicYards;
+}
+
+/**
+ * Get resources for a clearance job
+ * Load time covers carrying out, sorting and unloading at the tip
+ */
+export function getResourcesForClearance(
+  input: ClearanceInput,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): Resources {
+  const { clearance } = config;
+  const yards = getClearanceYards(input, config);
+  const vanLoads = Math.ceil(yards / clearance.vanCapacity);
+
+  const tier = clearance.crew.find((t) => yards <= t.maxYards) ?? clearance.crew[clearance.crew.length - 1];
+  const sortingTime = input.recycling ? yards * clearance.recycling.sortingTimePerYard : 0;
+  const loadTime = yards * clearance.loadTimePerYard + vanLoads * clearance.tipTimePerLoad + sortingTime;
+
+  return { men: tier.men, vans: vanLoads, loadTime };
+}
+
+/**
+ * Disposal price lines for a clearance - tip fees for the general waste
+ * plus a fee per item for waste that can't go in with it
+ */
+export function getDisposalItems(
+  input: ClearanceInput,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  const { clearance } = config;
+  const yards = getClearanceYards(input, config);
+
+  // Recycled and donated items don't go to the tip
+  const tipYards = input.recycling ? yards * (1 - clearance.recycling.diversion) : yards;
+  const roundedYards = Math.round(tipYards * 10) / 10;
+
+  const items: PriceItem[] = [
+    {
+      id: 'disposal-general',
+      kind: 'disposal',
+      label: `Tip fees - ${roundedYards} cu yd general waste${input.recycling ? ' (after recycling)' : ''}`,
+      amount: tipYards * clearance.tipFeePerYard,
+      quantity: roundedYards,
+      unit: 'cu yd',
+    },
+  ];
+
+  for (const category of Object.keys(clearance.wasteCategories) as WasteCategory[]) {
+    const quantity = input.items[category] ?? 0;
+    if (quantity <= 0) continue;
+
+    items.push({
+      id: `disposal-${category}`,
+      kind: 'disposal',
+      label: `${CALCULATOR_CONFIG.clearance.wasteCategories[category].label} × ${quantity}`,
+      amount: clearance.wasteCategories[category].fee * quantity,
+      quantity,
+      unit: 'item',
+    });
+  }
+
+  return items;
+}
+
 // ===================
 // PRICING FUNCTIONS
 // ===================
@@ -226,8 +647,11 @@ export function getResourcesForFurnitureOnly(input: FurnitureOnlyInput): Resourc
 /**
  * Calculate mover cost for a day
  */
-export function getMoverDayCost(moverCount: number): number {
-  const { firstTwo, additional } = CALCULATOR_CONFIG.moverRates;
+export function getMoverDayCost(
+  moverCount: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const { firstTwo, additional } = config.moverRates;
 
   if (moverCount <= 0) return 0;
   if (moverCount <= 2) return moverCount * firstTwo;
@@ -236,12 +660,24 @@ export function getMoverDayCost(moverCount: number): number {
 }
 
 /**
- * Calculate mileage cost (tiered)
+ * Label for a mileage tier
  */
-export function getMileageCost(totalMiles: number): number {
-  const { mileageRates } = CALCULATOR_CONFIG;
+function getMileageTierLabel(fromMiles: number, toMiles: number): string {
+  if (fromMiles === 0) return `Mileage - first ${toMiles} miles`;
+  if (toMiles === Number.POSITIVE_INFINITY) return `Mileage - over ${fromMiles} miles`;
+  return `Mileage - miles ${fromMiles + 1}-${toMiles}`;
+}
 
-  let cost = 0;
+/**
+ * Mileage price lines, one per tier used
+ */
+export function getMileageItems(
+  totalMiles: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  const { mileageRates } = config;
+
+  const items: PriceItem[] = [];
   let remainingMiles = totalMiles;
   let previousMax = 0;
 
@@ -249,7 +685,14 @@ export function getMileageCost(totalMiles: number): number {
     const milesInTier = Math.min(remainingMiles, tier.maxMiles - previousMax);
 
     if (milesInTier > 0) {
-      cost += milesInTier * tier.rate;
+      items.push({
+        id: `mileage-${previousMax}`,
+        kind: 'travel',
+        label: getMileageTierLabel(previousMax, tier.maxMiles),
+        amount: milesInTier * tier.rate,
+        quantity: Math.round(milesInTier * 10) / 10,
+        unit: 'mile',
+      });
       remainingMiles -= milesInTier;
     }
 
@@ -258,33 +701,133 @@ export function getMileageCost(totalMiles: number): number {
     if (remainingMiles <= 0) break;
   }
 
-  return cost;
+  return items;
+}
+
+/**
+ * Calculate mileage cost (tiered)
+ */
+export function getMileageCost(
+  totalMiles: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return sumItems(getMileageItems(totalMiles, config));
 }
 
 /**
  * Calculate accommodation cost
  */
-export function getAccommodationCost(crewCount: number, driveTimeHours: number): number {
-  const { triggerHours, perRoom, peoplePerRoom } = CALCULATOR_CONFIG.accommodation;
+export function getAccommodationCost(
+  crewCount: number,
+  nights: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const { perRoom, peoplePerRoom } = config.accommodation;
 
-  if (driveTimeHours <= triggerHours) {
+  if (nights <= 0) {
     return 0;
   }
 
-  const nights = Math.ceil(driveTimeHours / triggerHours) - 1;
   const rooms = Math.ceil(crewCount / peoplePerRoom);
 
   return rooms * perRoom * nights;
 }
 
+/**
+ * Statutory breaks for one driver - one is due after every
+ * breakAfter hours of driving, except at the end of the drive
+ */
+export function getDriverBreakTime(
+  driveTimeHours: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const { breakAfter, breakLength } = config.driverHours;
+
+  return Math.max(0, Math.ceil(driveTimeHours / breakAfter) - 1) * breakLength;
+}
+
+/**
+ * Split a job into legal working days under drivers' hours rules
+ * Round trips within a day's driving keep the usual durations; longer ones
+ * stop overnight or add a second driver per van, whichever costs less
+ */
+export function getDriverSchedule(
+  resources: Resources,
+  driveTimeHours: number,
+  propertyChain: boolean,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): DriverSchedule {
+  const { maxDailyDriving, maxWorkingDay, secondDriver } = config.driverHours;
+  const workTime = resources.loadTime + driveTimeHours;
+  const breakTime = getDriverBreakTime(driveTimeHours, config);
+
+  if (driveTimeHours <= maxDailyDriving) {
+    return {
+      plan: 'local',
+      duration: getServiceDuration(workTime + breakTime, propertyChain, config),
+      nights: 0,
+      secondDrivers: 0,
+      breakTime,
+    };
+  }
+
+  // One driver per van - driving and working day limits, with breaks
+  const soloDays = Math.max(
+    Math.ceil(driveTimeHours / maxDailyDriving),
+    Math.ceil((workTime + breakTime) / maxWorkingDay)
+  );
+  const overnight: DriverSchedule = {
+    plan: 'overnight',
+    duration: getDaysDuration(soloDays),
+    nights: soloDays - 1,
+    secondDrivers: 0,
+    breakTime,
+  };
+
+  // Two drivers per van - double the driving, breaks taken as passenger
+  const teamDays = Math.max(
+    Math.ceil(driveTimeHours / (maxDailyDriving * 2)),
+    Math.ceil(workTime / secondDriver.maxWorkingDay)
+  );
+  const doubleManned: DriverSchedule = {
+    plan: 'secondDriver',
+    duration: getDaysDuration(teamDays),
+    nights: teamDays - 1,
+    secondDrivers: Math.max(0, resources.vans * 2 - resources.men),
+    breakTime: 0,
+  };
+
+  return getScheduleCost(doubleManned, resources, config) <= getScheduleCost(overnight, resources, config)
+    ? doubleManned
+    : overnight;
+}
+
+/**
+ * Whole working days away from the depot
+ */
+function getDaysDuration(days: number): ServiceDuration {
+  return { days, isHalfDay: false, label: days === 1 ? 'Full Day' : `${days} Days` };
+}
+
+/**
+ * Crew, vans and hotel rooms for a schedule
+ */
+function getScheduleCost(schedule: DriverSchedule, resources: Resources, config: PricingConfig): number {
+  const men = resources.men + schedule.secondDrivers;
+
+  return getCrewCost(men, resources.vans, schedule.duration, config)
+    + getAccommodationCost(men, schedule.nights, config);
+}
+
 /**
  * Get service duration from total job time
  */
 export function getServiceDuration(
   totalJobTime: number,
-  propertyChain: boolean
-): { days: number; isHalfDay: boolean; label: string } {
-  const { halfDay, fullDay, twoDays, threeDays } = CALCULATOR_CONFIG.timeThresholds;
+  propertyChain: boolean,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): ServiceDuration {
+  const { halfDay, fullDay, twoDays, threeDays } = config.timeThresholds;
 
   // Property chain = minimum full day
   if (propertyChain && totalJobTime <= halfDay) {
@@ -311,29 +854,427 @@ export function getServiceDuration(
   return { days, isHalfDay: false, label: `${days} Days` };
 }
 
+/**
+ * Van hire for the job duration
+ */
+export function getVansCost(
+  vans: number,
+  duration: ServiceDuration,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  if (duration.isHalfDay) return vans * config.vanRates.halfDay;
+
+  return vans * config.vanRates.fullDay * duration.days;
+}
+
+/**
+ * Mover wages for the job duration
+ */
+export function getMoversCost(
+  men: number,
+  duration: ServiceDuration,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return getMoverDayCost(men, config) * (duration.isHalfDay ? 0.5 : duration.days);
+}
+
+/**
+ * Vans + movers for the job duration
+ */
+export function getCrewCost(
+  men: number,
+  vans: number,
+  duration: ServiceDuration,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return getVansCost(vans, duration, config) + getMoversCost(men, duration, config);
+}
+
+/**
+ * Get the calendar date (in the company time zone) for an ISO date string
+ */
+function getMoveDate(
+  isoDate: string,
+  timeZone: string
+): { key: string; year: number; month: number; day: number } | null {
+  const date = new Date(isoDate);
+  if (Number.isNaN(date.getTime())) return null;
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  const key = `${part('year')}-${part('month')}-${part('day')}`;
+
+  return { key, year: Number(part('year')), month: Number(part('month')), day: Number(part('day')) };
+}
+
+/**
+ * Format a calendar date as YYYY-MM-DD
+ */
+function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Check if a calendar date is a UK bank holiday
+ */
+export function isBankHoliday(
+  dateKey: string,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): boolean {
+  return config.datePricing.bankHolidays.includes(dateKey);
+}
+
+/**
+ * Check if a calendar date is one of the last working days of its month
+ */
+export function isMonthEnd(
+  year: number,
+  month: number,
+  day: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): boolean {
+  const { workingDays } = config.datePricing.monthEnd;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  let found = 0;
+  for (let d = lastDay; d >= 1 && found < workingDays; d--) {
+    const weekday = new Date(Date.UTC(year, month - 1, d)).getUTCDay();
+    if (weekday === 0 || weekday === 6 || isBankHoliday(toDateKey(year, month, d), config)) continue;
+
+    if (d === day) return true;
+    found++;
+  }
+
+  return false;
+}
+
+/**
+ * Date surcharges and discounts (applied to van + mover cost)
+ */
+export function getDateAdjustments(
+  crewCost: number,
+  selectedDate?: string,
+  dateFlexibility?: QuoteInput['dateFlexibility'],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): DateAdjustments {
+  const { timeZone, peakDays, monthEnd, bankHoliday, flexible } = config.datePricing;
+  const adjustments: DateAdjustments = {
+    peakDaySurcharge: 0,
+    monthEndSurcharge: 0,
+    bankHolidaySurcharge: 0,
+    flexibleDiscount: 0,
+  };
+
+  // Flexible customers let us pick the slot - discount, no peak surcharges
+  if (dateFlexibility === 'flexible') {
+    adjustments.flexibleDiscount = -crewCost * flexible.discount;
+    return adjustments;
+  }
+
+  if (!selectedDate) return adjustments;
+
+  const moveDate = getMoveDate(selectedDate, timeZone);
+  if (!moveDate) return adjustments;
+
+  const weekday = new Date(Date.UTC(moveDate.year, moveDate.month - 1, moveDate.day)).getUTCDay();
+
+  if (isBankHoliday(moveDate.key, config)) {
+    adjustments.bankHolidaySurcharge = crewCost * bankHoliday.surcharge;
+  } else if (peakDays[weekday]) {
+    adjustments.peakDaySurcharge = crewCost * peakDays[weekday].surcharge;
+  }
+
+  if (isMonthEnd(moveDate.year, moveDate.month, moveDate.day, config)) {
+    adjustments.monthEndSurcharge = crewCost * monthEnd.surcharge;
+  }
+
+  return adjustments;
+}
+
+/**
+ * Date surcharge / discount price lines
+ */
+export function getDateItems(
+  adjustments: DateAdjustments,
+  selectedDate?: string,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  const { timeZone, peakDays } = config.datePricing;
+  const labels = CALCULATOR_CONFIG.datePricing;
+  const items: PriceItem[] = [];
+
+  if (adjustments.peakDaySurcharge > 0 && selectedDate) {
+    const moveDate = getMoveDate(selectedDate, timeZone);
+    const weekday = moveDate
+      ? new Date(Date.UTC(moveDate.year, moveDate.month - 1, moveDate.day)).getUTCDay()
+      : -1;
+
+    items.push({
+      id: 'peak-day',
+      kind: 'date',
+      label: peakDays[weekday]?.label ?? 'Peak day move',
+      amount: adjustments.peakDaySurcharge,
+    });
+  }
+
+  if (adjustments.bankHolidaySurcharge > 0) {
+    items.push({
+      id: 'bank-holiday',
+      kind: 'date',
+      label: labels.bankHoliday.label,
+      amount: adjustments.bankHolidaySurcharge,
+    });
+  }
+
+  if (adjustments.monthEndSurcharge > 0) {
+    items.push({
+      id: 'month-end',
+      kind: 'date',
+      label: labels.monthEnd.label,
+      amount: adjustments.monthEndSurcharge,
+    });
+  }
+
+  if (adjustments.flexibleDiscount < 0) {
+    items.push({
+      id: 'flexible-date',
+      kind: 'date',
+      label: labels.flexible.label,
+      amount: adjustments.flexibleDiscount,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Get floor access for an address (undefined until a floor level is given)
+ */
+export function getAddressAccess(
+  address?: { floorLevel?: number; lift?: LiftAccess } | null
+): AddressAccess | undefined {
+  if (address?.floorLevel === undefined) return undefined;
+
+  return { floorLevel: address.floorLevel, lift: address.lift ?? 'none' };
+}
+
+/**
+ * Route points for road charges: from, stops, to (missing addresses skipped)
+ */
+export function getRoutePoints(addresses: Array<RoutePoint | null | undefined>): RoutePoint[] {
+  return addresses
+    .filter((address): address is RoutePoint => !!address)
+    .map(({ postcode, lat, lng }) => ({ postcode, lat, lng }));
+}
+
+/**
+ * Check if both addresses have structured floor data
+ */
+export function hasFloorAccess(access: QuoteInput['access']): boolean {
+  return access?.from !== undefined && access?.to !== undefined;
+}
+
+/**
+ * Extra load time and movers for carrying between floors
+ * Basements count as one floor below ground
+ */
+export function getFloorAccess(
+  loadTime: number,
+  access: QuoteInput['access'],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): FloorAccessResult {
+  const { lift, extraMoverFromFloor } = config.floorAccess;
+  const result: FloorAccessResult = { extraLoadTime: 0, extraMen: 0 };
+
+  if (!access?.from || !access.to) return result;
+
+  for (const address of [access.from, access.to]) {
+    const floors = Math.abs(address.floorLevel);
+    if (floors === 0) continue;
+
+    // Loading or unloading - half the load time happens at each address
+    result.extraLoadTime += (loadTime / 2) * floors * lift[address.lift].timeFactor;
+
+    if (address.lift !== 'fits' && floors >= extraMoverFromFloor) {
+      result.extraMen = 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Handling time and movers for extra stops
+ * Each stop adds a fixed handling time, scaled up for floors at the stop
+ */
+export function getStopHandling(
+  stops: StopInput[] | undefined,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): FloorAccessResult {
+  const { lift, extraMoverFromFloor } = config.floorAccess;
+  const { handlingTime } = config.stops;
+  const result: FloorAccessResult = { extraLoadTime: 0, extraMen: 0 };
+
+  for (const stop of stops ?? []) {
+    result.extraLoadTime += handlingTime;
+
+    if (!stop.access) continue;
+
+    const floors = Math.abs(stop.access.floorLevel);
+    result.extraLoadTime += handlingTime * floors * lift[stop.access.lift].timeFactor;
+
+    if (stop.access.lift !== 'fits' && floors >= extraMoverFromFloor) {
+      result.extraMen = 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Total miles driven: depot → from → stops → to → depot
+ */
+export function getRouteMiles(distances: QuoteInput['distances']): number {
+  const customerMiles = distances.legs?.length
+    ? distances.legs.reduce((sum, miles) => sum + miles, 0)
+    : distances.fromToTo;
+
+  return distances.depotToFrom + customerMiles + distances.toToDepot;
+}
+
+export interface DepotRoute {
+  depot: DepotKey;
+  depotToFrom: number; // miles
+  toToDepot: number;   // miles
+}
+
+/**
+ * Pick the depot for a job - the shortest depot → from → to → depot round
+ * trip among depots whose service radius covers the collection address,
+ * or among all depots when none does
+ */
+export function chooseDepot<T extends DepotRoute>(
+  routes: T[],
+  depots: Record<string, { serviceRadiusMiles: number }> = CALCULATOR_CONFIG.depots
+): T | undefined {
+  const inRadius = routes.filter((route) => route.depotToFrom <= depots[route.depot].serviceRadiusMiles);
+  const candidates = inRadius.length > 0 ? inRadius : routes;
+
+  let best: T | undefined;
+  for (const route of candidates) {
+    if (!best || route.depotToFrom + route.toToDepot < best.depotToFrom + best.toToDepot) {
+      best = route;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check if a route touches a charging zone or toll crossing - an address in
+ * one of its postcode districts, or an address or the path inside its polygon
+ */
+function isOnRoute(area: RoadChargeArea, points: RoutePoint[], path: LatLng[]): boolean {
+  for (const point of points) {
+    const district = point.postcode ? getPostcodeDistrict(point.postcode) : undefined;
+    if (district && area.districts.includes(district)) return true;
+
+    if (point.lat !== undefined && point.lng !== undefined && isPointInPolygon([point.lat, point.lng], area.polygon)) {
+      return true;
+    }
+  }
+
+  return pathEntersPolygon(path, area.polygon);
+}
+
+/**
+ * Clean air zone, congestion charge and toll lines for a route
+ * Zones are charged per van for each day, tolls per van
+ */
+export function getRoadChargeItems(
+  route: QuoteInput['route'],
+  vans: number,
+  days: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  if (!route) return [];
+
+  const zones = CALCULATOR_CONFIG.roadCharges.zones as Record<ChargeZone, RoadChargeArea>;
+  const tolls = CALCULATOR_CONFIG.roadCharges.tolls as Record<TollCrossing, RoadChargeArea>;
+  const path = route.path ? decodePolyline(route.path) : [];
+  const chargedDays = Math.max(1, Math.ceil(days));
+  const vanLabel = `${vans} van${vans > 1 ? 's' : ''}`;
+  const items: PriceItem[] = [];
+
+  for (const zone of Object.keys(zones) as ChargeZone[]) {
+    if (!isOnRoute(zones[zone], route.points, path)) continue;
+
+    items.push({
+      id: `zone-${zone}`,
+      kind: 'travel',
+      label: `${zones[zone].label} - ${vanLabel} × ${chargedDays} day${chargedDays > 1 ? 's' : ''}`,
+      amount: config.roadCharges.zones[zone].dailyCharge * vans * chargedDays,
+      quantity: vans * chargedDays,
+      unit: 'van day',
+    });
+  }
+
+  for (const toll of Object.keys(tolls) as TollCrossing[]) {
+    if (!isOnRoute(tolls[toll], route.points, path)) continue;
+
+    items.push({
+      id: `toll-${toll}`,
+      kind: 'travel',
+      label: `${tolls[toll].label} - ${vanLabel}`,
+      amount: config.roadCharges.tolls[toll].charge * vans,
+      quantity: vans,
+      unit: 'van',
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Pricing for a branch - its rate overrides replace the standard tables
+ */
+export function getDepotPricing(config: PricingConfig, depot?: DepotKey): PricingConfig {
+  const rates = depot ? config.depots[depot]?.rates : undefined;
+  if (!rates) return config;
+
+  return { ...config, ...rates };
+}
+
 /**
  * Apply complication factors
  */
 export function applyComplications(
   resources: Resources,
-  complications: Complication[]
+  complications: Complication[],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
 ): { resources: Resources; multiplier: number } {
   let multiplier = 1.0;
   let { men, vans, loadTime } = resources;
 
   for (const complication of complications) {
-    const config = CALCULATOR_CONFIG.complications[complication];
+    const effect = config.complications[complication];
 
-    if ('factor' in config) {
-      multiplier *= config.factor;
+    if (effect.factor !== undefined) {
+      multiplier *= effect.factor;
     }
 
-    if ('addVans' in config) {
-      vans += config.addVans;
+    if (effect.addVans !== undefined) {
+      vans += effect.addVans;
     }
 
-    if ('addMen' in config) {
-      men += config.addMen;
+    if (effect.addMen !== undefined) {
+      men += effect.addMen;
     }
   }
 
@@ -343,6 +1284,36 @@ export function applyComplications(
   };
 }
 
+/**
+ * Complication uplift price lines
+ * Factors compound, so each uplift is taken on the running total
+ */
+export function getComplicationItems(
+  subtotal: number,
+  complications: Complication[],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  const items: PriceItem[] = [];
+  let running = subtotal;
+
+  for (const complication of complications) {
+    const { factor } = config.complications[complication];
+    if (factor === undefined || factor === 1) continue;
+
+    const uplift = running * (factor - 1);
+    running += uplift;
+
+    items.push({
+      id: `complication-${complication}`,
+      kind: 'complication',
+      label: `${CALCULATOR_CONFIG.complications[complication].label} (+${Math.round((factor - 1) * 100)}%)`,
+      amount: uplift,
+    });
+  }
+
+  return items;
+}
+
 /**
  * Get packing size category based on cubes
  */
@@ -354,39 +1325,63 @@ function getPackingSizeCategory(cubes: number): 'small' | 'medium' | 'large' | '
 }
 
 /**
- * Calculate extras cost (enhanced version with new pricing)
+ * Goods in transit premium - a share of the declared value, with a minimum
+ */
+export function getInsurancePremium(
+  insurance: InsuranceInput,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  const { rate, minimum } = config.insurance.levels[insurance.level];
+  return Math.max(insurance.declaredValue * rate, minimum);
+}
+
+/**
+ * Extras price lines, one per selection (enhanced version with new pricing)
+ * Labels come from the bundled config - only prices are versioned
  */
-export function getExtrasCost(extras: QuoteInput['extras'], cubes: number): number {
-  let total = 0;
+export function getExtrasItems(
+  extras: QuoteInput['extras'],
+  cubes: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PriceItem[] {
+  const items: PriceItem[] = [];
 
   // New packing tier system
   if ('packingTier' in extras && extras.packingTier) {
     const sizeCategory = getPackingSizeCategory(cubes);
-    const tierConfig = CALCULATOR_CONFIG.packingTiers[extras.packingTier as keyof typeof CALCULATOR_CONFIG.packingTiers];
+    const tierConfig = config.packingTiers[extras.packingTier as keyof typeof config.packingTiers];
     if (tierConfig && tierConfig.priceBySize) {
-      total += tierConfig.priceBySize[sizeCategory];
+      items.push({
+        id: `packing-${extras.packingTier}`,
+        kind: 'extra',
+        label: `Packing - ${CALCULATOR_CONFIG.packingTiers[extras.packingTier].label}`,
+        amount: tierConfig.priceBySize[sizeCategory],
+      });
     }
   }
-  // Legacy packing support
-  else if (extras.packing) {
-    total += CALCULATOR_CONFIG.packing[extras.packing].total;
-  }
 
   // Enhanced cleaning with quick/deep options
   if ('cleaningRooms' in extras && extras.cleaningRooms && extras.cleaningRooms > 0) {
     // Ensure roomKey is between 1 and 6
     const roomKey = Math.max(1, Math.min(extras.cleaningRooms, 6)) as 1 | 2 | 3 | 4 | 5 | 6;
-    const basePrice = CALCULATOR_CONFIG.cleaning[roomKey].price;
+    const basePrice = config.cleaning[roomKey].price;
 
     // Apply cleaning type multiplier if available
-    const cleaningType = ('cleaningType' in extras ? extras.cleaningType : 'quick') as keyof typeof CALCULATOR_CONFIG.cleaningTiers;
-    const multiplier = CALCULATOR_CONFIG.cleaningTiers[cleaningType]?.multiplier || 1.0;
-    total += Math.round(basePrice * multiplier);
+    const cleaningType = ('cleaningType' in extras && extras.cleaningType ? extras.cleaningType : 'quick') as keyof typeof config.cleaningTiers;
+    const multiplier = config.cleaningTiers[cleaningType]?.multiplier || 1.0;
+    items.push({
+      id: `cleaning-${cleaningType}`,
+      kind: 'extra',
+      label: `Cleaning - ${CALCULATOR_CONFIG.cleaningTiers[cleaningType].label} (${CALCULATOR_CONFIG.cleaning[roomKey].label})`,
+      amount: Math.round(basePrice * multiplier),
+      quantity: extras.cleaningRooms,
+      unit: 'room',
+    });
   }
 
   // Enhanced storage with duration
   if ('storageSize' in extras && extras.storageSize && 'storageWeeks' in extras && extras.storageWeeks) {
-    const sizeConfig = CALCULATOR_CONFIG.storageSizes[extras.storageSize as keyof typeof CALCULATOR_CONFIG.storageSizes];
+    const sizeConfig = config.storageSizes[extras.storageSize as keyof typeof config.storageSizes];
     if (sizeConfig) {
       const weeklyRate = sizeConfig.price;
       const weeks = extras.storageWeeks as number;
@@ -396,35 +1391,64 @@ export function getExtrasCost(extras: QuoteInput['extras'], cubes: number): numb
       const fullPriceWeeks = Math.max(0, weeks - 8);
       const discountedCost = discountedWeeks * weeklyRate * 0.5;
       const fullPriceCost = fullPriceWeeks * weeklyRate;
-      total += discountedCost + fullPriceCost;
+      items.push({
+        id: `storage-${extras.storageSize}`,
+        kind: 'extra',
+        label: `Storage - ${CALCULATOR_CONFIG.storageSizes[extras.storageSize].label} (${weeks} week${weeks > 1 ? 's' : ''})`,
+        amount: discountedCost + fullPriceCost,
+        quantity: weeks,
+        unit: 'week',
+      });
     }
   }
-  // Legacy storage support (monthly rate only)
-  else if (extras.storage) {
-    total += CALCULATOR_CONFIG.storage[extras.storage].price;
-  }
 
-  // Disassembly items (new structure)
-  if ('disassemblyItems' in extras && extras.disassemblyItems && Array.isArray(extras.disassemblyItems)) {
-    for (const item of extras.disassemblyItems as Array<{ category: keyof typeof CALCULATOR_CONFIG.assembly; quantity: number }>) {
-      total += CALCULATOR_CONFIG.assembly[item.category].price * item.quantity;
-    }
+  // Disassembly items
+  for (const item of extras.disassemblyItems ?? []) {
+    if (item.quantity <= 0) continue;
+
+    items.push({
+      id: `assembly-${item.category}`,
+      kind: 'extra',
+      label: `Disassembly & reassembly - ${CALCULATOR_CONFIG.assembly[item.category].label}`,
+      amount: config.assembly[item.category].price * item.quantity,
+      quantity: item.quantity,
+      unit: 'item',
+    });
   }
-  // Legacy assembly support
-  else if (extras.assembly && extras.assembly.length > 0) {
-    for (const item of extras.assembly) {
-      total += CALCULATOR_CONFIG.assembly[item.type].price * item.quantity;
-    }
+
+  // Goods in transit insurance
+  if (extras.insurance) {
+    const { level, declaredValue } = extras.insurance;
+    items.push({
+      id: `insurance-${level}`,
+      kind: 'extra',
+      label: `Goods in transit insurance - ${CALCULATOR_CONFIG.insurance.levels[level].label} (£${declaredValue.toLocaleString('en-GB')} declared)`,
+      amount: getInsurancePremium(extras.insurance, config),
+    });
   }
 
-  return total;
+  return items;
+}
+
+/**
+ * Calculate extras cost (enhanced version with new pricing)
+ */
+export function getExtrasCost(
+  extras: QuoteInput['extras'],
+  cubes: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return sumItems(getExtrasItems(extras, cubes, config));
 }
 
 /**
  * Get recommended packing size based on cubes
  */
-export function getRecommendedPackingSize(cubes: number): PackingSize {
-  const { packing } = CALCULATOR_CONFIG;
+export function getRecommendedPackingSize(
+  cubes: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PackingSize {
+  const { packing } = config;
 
   if (cubes <= packing.small.cubesMax) return 'small';
   if (cubes <= packing.medium.cubesMax) return 'medium';
@@ -436,8 +1460,30 @@ export function getRecommendedPackingSize(cubes: number): PackingSize {
  * Apply profit margin (markup)
  * Example: 65% margin means base cost of £100 becomes £165
  */
-export function applyMargin(baseCost: number): number {
-  return baseCost * (1 + CALCULATOR_CONFIG.profitMargin);
+export function applyMargin(
+  baseCost: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): number {
+  return baseCost * (1 + config.profitMargin);
+}
+
+/**
+ * Discount from a promo code on a price (after margin)
+ * Returns 0 when the job doesn't qualify
+ */
+export function getPromoDiscount(
+  price: number,
+  serviceType: QuoteInput['serviceType'],
+  promo?: PromoDiscount
+): number {
+  if (!promo) return 0;
+
+  if (promo.serviceTypes?.length && !promo.serviceTypes.includes(serviceType)) return 0;
+  if (promo.minJobValue && price < promo.minJobValue) return 0;
+
+  const discount = promo.type === 'percent' ? price * (promo.value / 100) : promo.value;
+
+  return Math.min(Math.max(discount, 0), price);
 }
 
 /**
@@ -447,6 +1493,79 @@ export function roundPrice(price: number): number {
   return Math.round(price / 10) * 10;
 }
 
+/**
+ * Check if a price line is VAT exempt
+ */
+export function isVatExempt(
+  item: PriceItem,
+  exemptItems: readonly string[] = DEFAULT_PRICING_CONFIG.vat.exemptItems
+): boolean {
+  return exemptItems.some(
+    (prefix) => item.id === prefix || item.id.startsWith(`${prefix}-`)
+  );
+}
+
+/**
+ * Work out the VAT included in each price line
+ * Service and discount lines span the whole job, so they are split
+ * pro rata between taxable and exempt lines
+ */
+export function applyVat(
+  items: PriceItem[],
+  vatConfig: PricingConfig['vat'] = DEFAULT_PRICING_CONFIG.vat
+): { items: PriceItem[]; totals: VatTotals } {
+  const { rate, exemptItems } = vatConfig;
+  const vatFraction = rate / (1 + rate);
+  const toPence = (value: number) => Math.round(value * 100) / 100;
+
+  const costItems = items.filter((item) => item.kind !== 'service' && item.kind !== 'discount');
+  const costTotal = sumItems(costItems);
+  const taxableShare = costTotal > 0
+    ? sumItems(costItems.filter((item) => !isVatExempt(item, exemptItems))) / costTotal
+    : 1;
+
+  let taxableTotal = 0;
+  const withVat = items.map((item) => {
+    const taxable = item.kind === 'service' || item.kind === 'discount'
+      ? item.amount * taxableShare
+      : isVatExempt(item, exemptItems) ? 0 : item.amount;
+
+    taxableTotal += taxable;
+    return { ...item, vat: toPence(taxable * vatFraction) };
+  });
+
+  // Totals from the unrounded figures - line VAT is for display
+  const gross = sumItems(withVat);
+  const vat = toPence(taxableTotal * vatFraction);
+
+  return {
+    items: withVat,
+    totals: { rate, net: toPence(gross - vat), vat, gross },
+  };
+}
+
+/**
+ * Whether prices lead with or without VAT for a service type
+ */
+export function getVatDisplay(serviceType?: string | null): VatDisplay {
+  const { display } = CALCULATOR_CONFIG.vat;
+  return display[serviceType as keyof typeof display] ?? 'inc';
+}
+
+/**
+ * A price line amount as displayed (inc. or ex. VAT)
+ */
+export function getDisplayAmount(item: PriceItem, display: VatDisplay): number {
+  return display === 'ex' ? item.amount - (item.vat ?? 0) : item.amount;
+}
+
+/**
+ * Sum the amounts of a list of price lines
+ */
+export function sumItems(items: PriceItem[]): number {
+  return items.reduce((total, item) => total + item.amount, 0);
+}
+
 // ===================
 // MAIN CALCULATION
 // ===================
@@ -454,7 +1573,68 @@ export function roundPrice(price: number): number {
 /**
  * Calculate full quote
  */
-export function calculateQuote(input: QuoteInput): QuoteResult {
+export function calculateQuote(
+  input: QuoteInput,
+  baseConfig: PricingConfig,
+  options: QuoteOptions = {}
+): QuoteResult {
+  const result = priceQuote(input, baseConfig);
+  if (!options.range) return result;
+
+  return { ...result, range: getPriceRange(input, baseConfig, result.totalPrice) };
+}
+
+/**
+ * Price band for a quote built on estimates - the job is re-priced with the
+ * estimated inputs at the cheap end and at the dear end of their range
+ */
+export function getPriceRange(input: QuoteInput, config: PricingConfig, expected: number): PriceRange {
+  const { sliderStep, datePremium, driveTimeVariance } = config.priceRange;
+  const factors: RangeFactor[] = [];
+
+  // Same order as calculateQuote - the slider only counts when nothing replaces it
+  const usesSlider = !(input.serviceType === 'office' && input.officeSize)
+    && !(input.serviceType === 'clearance' && input.clearance)
+    && !input.furnitureOnly
+    && !input.inventory?.length
+    && input.propertySize !== 'furniture'
+    && !!input.sliderPosition;
+  const undecidedDate = !input.selectedDate && input.dateFlexibility !== 'flexible';
+
+  if (usesSlider && sliderStep > 0) factors.push('volume');
+  if (undecidedDate && datePremium > 0) factors.push('date');
+  if (input.distances.driveTimeHours > 0 && driveTimeVariance > 0) factors.push('driveTime');
+
+  const priceAt = (direction: -1 | 1): number => {
+    const sliderPosition = usesSlider && input.sliderPosition
+      ? Math.min(Math.max(input.sliderPosition + direction * sliderStep, 1), 5) as SliderPosition
+      : input.sliderPosition;
+    const distances = {
+      ...input.distances,
+      driveTimeHours: input.distances.driveTimeHours * (1 + direction * driveTimeVariance),
+    };
+
+    return priceQuote(
+      { ...input, sliderPosition, distances },
+      config,
+      direction > 0 && undecidedDate ? datePremium : 0
+    ).totalPrice;
+  };
+
+  return {
+    low: Math.min(priceAt(-1), expected),
+    expected,
+    high: Math.max(priceAt(1), expected),
+    factors,
+  };
+}
+
+/**
+ * Price a job - datePremium prices an undecided date as if it carried a
+ * surcharge (share of van + mover cost), for the top of a price band
+ */
+function priceQuote(input: QuoteInput, baseConfig: PricingConfig, datePremium = 0): QuoteResult {
+  const config = getDepotPricing(baseConfig, input.depot);
   let cubes = 0;
   let resources: Resources;
   let requiresCallback = false;
@@ -466,24 +1646,39 @@ export function calculateQuote(input: QuoteInput): QuoteResult {
 
   if (input.serviceType === 'office' && input.officeSize) {
     // Office
-    cubes = getCubesForOffice(input.officeSize);
-    const result = getResourcesFromCubes(cubes);
+    cubes = getCubesForOffice(input.officeSize, config);
+    const result = getResourcesFromCubes(cubes, config);
     resources = result;
     requiresCallback = result.requiresCallback;
 
+  } else if (input.serviceType === 'clearance' && input.clearance) {
+    // Clearance (cubic yards → cubic feet)
+    cubes = getClearanceYards(input.clearance, config) * 27;
+    resources = getResourcesForClearance(input.clearance, config);
+
   } else if (input.furnitureOnly) {
     // Furniture only
-    const result = getResourcesForFurnitureOnly(input.furnitureOnly);
+    const result = getResourcesForFurnitureOnly(input.furnitureOnly, config);
     resources = result;
     requiresCallback = result.requiresCallback;
     if (requiresCallback) {
       callbackReason = 'specialist_items';
     }
 
+  } else if (input.inventory?.length) {
+    // Home removal - room-by-room inventory
+    cubes = getCubesForInventory(input.inventory, config);
+    const result = getResourcesFromCubes(cubes, config);
+    resources = result;
+    requiresCallback = result.requiresCallback;
+    if (requiresCallback) {
+      callbackReason = 'large_property';
+    }
+
   } else if (input.propertySize && input.sliderPosition) {
     // Home removal
-    cubes = getCubesForProperty(input.propertySize, input.sliderPosition);
-    const result = getResourcesFromCubes(cubes);
+    cubes = getCubesForProperty(input.propertySize, input.sliderPosition, config);
+    const result = getResourcesFromCubes(cubes, config);
     resources = result;
     requiresCallback = result.requiresCallback;
     if (requiresCallback) {
@@ -491,84 +1686,201 @@ export function calculateQuote(input: QuoteInput): QuoteResult {
     }
 
   } else {
-    throw new Error('Invalid input: missing property size, office size, or furniture details');
+    throw new Error('Invalid input: missing property size, inventory, office size, clearance, or furniture details');
   }
 
   // ===================
   // 2. APPLY MANUAL OVERRIDE
   // ===================
 
+  // A different crew takes a different time to load
   if (input.manualOverride) {
     resources = {
-      ...resources,
       men: input.manualOverride.men,
       vans: input.manualOverride.vans,
+      loadTime: scaleLoadTime(resources.loadTime, resources.men, input.manualOverride.men, config),
     };
   }
 
   // ===================
-  // 3. APPLY COMPLICATIONS
+  // 3. APPLY FLOOR ACCESS + STOPS
   // ===================
 
-  const complicationResult = applyComplications(resources, input.complications);
+  // Structured floor data replaces the flat 'stairs' factor
+  const floorAccess = getFloorAccess(resources.loadTime, input.access, config);
+  const stopHandling = getStopHandling(input.stops, config);
+  const complications = hasFloorAccess(input.access)
+    ? input.complications.filter((c) => c !== 'stairs')
+    : input.complications;
+  const extraMen = Math.max(floorAccess.extraMen, stopHandling.extraMen);
+
+  resources = {
+    ...resources,
+    // A manual crew choice is kept as-is
+    men: input.manualOverride ? resources.men : resources.men + extraMen,
+    loadTime: resources.loadTime + floorAccess.extraLoadTime + stopHandling.extraLoadTime,
+  };
+
+  // ===================
+  // 4. APPLY COMPLICATIONS
+  // ===================
+
+  const complicationResult = applyComplications(resources, complications, config);
   resources = complicationResult.resources;
   const complicationMultiplier = complicationResult.multiplier;
 
   // ===================
-  // 4. CALCULATE TIME
+  // 5. CALCULATE TIME
   // ===================
 
-  const totalMiles = input.distances.depotToFrom + input.distances.fromToTo + input.distances.toToDepot;
-  const totalJobTime = resources.loadTime + input.distances.driveTimeHours;
+  const totalMiles = getRouteMiles(input.distances);
+
+  // Drivers' hours set the days, overnight stops and any second drivers
+  const schedule = getDriverSchedule(resources, input.distances.driveTimeHours, input.propertyChain, config);
+  resources = { ...resources, men: resources.men + schedule.secondDrivers };
 
-  const duration = getServiceDuration(totalJobTime, input.propertyChain);
+  const totalJobTime = resources.loadTime + input.distances.driveTimeHours + schedule.breakTime;
+  const duration = schedule.duration;
 
   // ===================
-  // 5. CALCULATE COSTS
+  // 6. CALCULATE COSTS
   // ===================
 
-  // Van cost
-  const vanRate = duration.isHalfDay
-    ? CALCULATOR_CONFIG.vanRates.halfDay
-    : CALCULATOR_CONFIG.vanRates.fullDay;
-  const vansCost = resources.vans * vanRate * (duration.isHalfDay ? 1 : duration.days);
-
-  // Mover cost
-  const moverDayRate = getMoverDayCost(resources.men);
-  const moversCost = moverDayRate * (duration.isHalfDay ? 0.5 : duration.days);
+  // Van and mover cost
+  const vansCost = getVansCost(resources.vans, duration, config);
+  const moversCost = getMoversCost(resources.men, duration, config);
 
   // Mileage cost
-  const mileageCost = getMileageCost(totalMiles);
+  const mileageItems = getMileageItems(totalMiles, config);
+  const mileageCost = sumItems(mileageItems);
 
   // Accommodation cost
-  const accommodationCost = getAccommodationCost(resources.men, input.distances.driveTimeHours);
+  const accommodationCost = getAccommodationCost(resources.men, schedule.nights, config);
+
+  // Clean air zones, congestion charges and tolls
+  const roadChargeItems = getRoadChargeItems(input.route, resources.vans, duration.days, config);
+  const roadChargesCost = sumItems(roadChargeItems);
 
   // Extras cost
-  const extrasCost = getExtrasCost(input.extras, cubes);
+  const extrasItems = getExtrasItems(input.extras, cubes, config);
+  const extrasCost = sumItems(extrasItems);
+
+  // Disposal cost (clearance)
+  const disposalItems = input.serviceType === 'clearance' && input.clearance
+    ? getDisposalItems(input.clearance, config)
+    : [];
+  const disposalCost = sumItems(disposalItems);
+
+  // Specialist item handling (furniture only)
+  const specialistItems = input.furnitureOnly
+    ? getSpecialistItems(input.furnitureOnly.specialistItems, hasStairs(input.access, input.complications), config)
+    : [];
+  const specialistCost = sumItems(specialistItems);
+
+  // Date surcharges / discounts
+  const dateAdjustments = getDateAdjustments(
+    vansCost + moversCost,
+    input.selectedDate,
+    input.dateFlexibility,
+    config
+  );
+  if (datePremium > 0) {
+    dateAdjustments.peakDaySurcharge += (vansCost + moversCost) * datePremium;
+  }
+  const dateAdjustmentTotal = dateAdjustments.peakDaySurcharge
+    + dateAdjustments.monthEndSurcharge
+    + dateAdjustments.bankHolidaySurcharge
+    + dateAdjustments.flexibleDiscount;
 
   // ===================
-  // 6. SUBTOTAL + COMPLICATIONS
+  // 7. SUBTOTAL + COMPLICATIONS
   // ===================
 
-  let subtotal = vansCost + moversCost + mileageCost + accommodationCost + extrasCost;
+  let subtotal = vansCost + moversCost + mileageCost + accommodationCost + roadChargesCost + extrasCost
+    + disposalCost + specialistCost + dateAdjustmentTotal;
+  const complicationItems = getComplicationItems(subtotal, complications, config);
   subtotal *= complicationMultiplier;
 
   // ===================
-  // 7. APPLY MARGIN
+  // 8. APPLY MARGIN
   // ===================
 
-  const withMargin = applyMargin(subtotal);
-  const totalPrice = roundPrice(withMargin);
+  const withMargin = applyMargin(subtotal, config);
+  const promoDiscount = getPromoDiscount(withMargin, input.serviceType, input.promo);
+  const totalPrice = roundPrice(withMargin - promoDiscount);
 
   // ===================
-  // 8. WARNINGS
+  // 9. PRICE LINES
   // ===================
 
-  const showMultiDayWarning = totalJobTime > CALCULATOR_CONFIG.thresholds.multiDayWarning
+  const lines: PriceItem[] = [
+    {
+      id: 'vans',
+      kind: 'crew',
+      label: `${resources.vans} van${resources.vans > 1 ? 's' : ''} × ${duration.label}`,
+      amount: vansCost,
+      quantity: resources.vans,
+      unit: 'van',
+    },
+    {
+      id: 'movers',
+      kind: 'crew',
+      label: `${resources.men} mover${resources.men > 1 ? 's' : ''} × ${duration.label}`,
+      amount: moversCost,
+      quantity: resources.men,
+      unit: 'mover',
+    },
+    ...mileageItems,
+  ];
+
+  if (accommodationCost > 0) {
+    lines.push({
+      id: 'accommodation',
+      kind: 'travel',
+      label: `Crew accommodation (${schedule.nights} night${schedule.nights > 1 ? 's' : ''})`,
+      amount: accommodationCost,
+    });
+  }
+
+  lines.push(
+    ...roadChargeItems,
+    ...getDateItems(dateAdjustments, input.selectedDate, config),
+    ...extrasItems,
+    ...disposalItems,
+    ...specialistItems,
+    ...complicationItems
+  );
+
+  // Whole pounds - the total is rounded to £10 anyway
+  const costItems = lines.map((item) => ({ ...item, amount: Math.round(item.amount) }));
+
+  const discountItems: PriceItem[] = promoDiscount > 0 && input.promo
+    ? [{ id: 'promo', kind: 'discount', label: `Promo code ${input.promo.code}`, amount: -Math.round(promoDiscount) }]
+    : [];
+
+  // Margin and rounding make up the rest, so the lines add up to the total
+  const lineItems: PriceItem[] = [
+    ...costItems,
+    {
+      id: 'service',
+      kind: 'service',
+      label: 'Service & insurance',
+      amount: totalPrice - sumItems(costItems) - sumItems(discountItems),
+    },
+    ...discountItems,
+  ];
+
+  const { items, totals: vat } = applyVat(lineItems, config.vat);
+
+  // ===================
+  // 10. WARNINGS
+  // ===================
+
+  const showMultiDayWarning = totalJobTime > config.thresholds.multiDayWarning
     && totalJobTime <= 12;
 
   // ===================
-  // 9. RETURN RESULT
+  // 11. RETURN RESULT
   // ===================
 
   return {
@@ -577,26 +1889,90 @@ export function calculateQuote(input: QuoteInput): QuoteResult {
     vans: resources.vans,
     cubes,
     loadTime: resources.loadTime,
+    accessTime: floorAccess.extraLoadTime,
     totalJobTime,
     serviceDuration: duration.label,
     serviceDays: duration.days,
     isHalfDay: duration.isHalfDay,
+    schedule,
     requiresCallback,
     callbackReason,
     showMultiDayWarning,
+    promoCode: promoDiscount > 0 ? input.promo?.code : undefined,
+    items,
+    vat,
     breakdown: {
       vansCost,
       moversCost,
       mileageCost,
       accommodationCost,
+      roadChargesCost,
       extrasCost,
+      disposalCost,
+      specialistCost,
+      ...dateAdjustments,
       complicationMultiplier,
       subtotal,
-      margin: totalPrice - subtotal,
+      margin: totalPrice - subtotal + promoDiscount,
+      promoDiscount: promoDiscount > 0 ? -promoDiscount : 0,
     },
   };
 }
 
+// ===================
+// PACKAGES
+// ===================
+
+/**
+ * Bedrooms for a property size (defaults to 2 when unknown)
+ */
+export function getEstimatedRooms(propertySize?: PropertySize | null): number {
+  return (propertySize && CALCULATOR_CONFIG.estimatedRooms[propertySize]) || 2;
+}
+
+/**
+ * Extras for a package - disassembly and cleaning the customer already
+ * chose are kept, otherwise they're sized by bedroom
+ */
+export function getPackageExtras(
+  pkg: PackageKey,
+  extras: QuoteInput['extras'],
+  propertySize?: PropertySize | null
+): PackageExtras {
+  const { packingTier, disassembly, cleaning } = CALCULATOR_CONFIG.packages[pkg];
+  const rooms = extras.cleaningRooms || getEstimatedRooms(propertySize);
+  const chosenItems = extras.disassemblyItems?.filter((item) => item.quantity > 0) ?? [];
+
+  let disassemblyItems: PackageExtras['disassemblyItems'] = [];
+  if (disassembly) {
+    disassemblyItems = chosenItems.length > 0 ? chosenItems : [{ category: disassembly, quantity: rooms }];
+  }
+
+  return {
+    packingTier: packingTier ?? undefined,
+    disassemblyItems,
+    cleaningRooms: cleaning ? rooms : undefined,
+    cleaningType: cleaning ?? undefined,
+  };
+}
+
+/**
+ * Price each package for the current move (none for flows without extras)
+ */
+export function getPackages(input: QuoteInput, config: PricingConfig): QuotePackage[] {
+  if (input.furnitureOnly || input.serviceType === 'clearance') return [];
+
+  return (Object.keys(CALCULATOR_CONFIG.packages) as PackageKey[]).map((key) => {
+    const extras = getPackageExtras(key, input.extras, input.propertySize);
+
+    return {
+      key,
+      extras,
+      quote: calculateQuote({ ...input, extras: { ...input.extras, ...extras } }, config),
+    };
+  });
+}
+
 // ===================
 // VALIDATION
 // ===================
@@ -606,9 +1982,10 @@ export function calculateQuote(input: QuoteInput): QuoteResult {
  */
 export function validateVanCrew(
   vans: number,
-  crew: number
+  crew: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
 ): { valid: boolean; message?: string } {
-  const { minVansPerCrew, maxCrewPerVan } = CALCULATOR_CONFIG.validation;
+  const { minVansPerCrew, maxCrewPerVan } = config.validation;
 
   const minCrew = vans * minVansPerCrew;
   const maxCrew = vans * maxCrewPerVan;
@@ -623,13 +2000,40 @@ export function validateVanCrew(
   if (crew > maxCrew) {
     return {
       valid: false,
-      message: `Maximum ${maxCrew} movers for ${vans} van${vans > 1 ? 's' : ''} - each van holds up to 3 people.`
+      message: `Maximum ${maxCrew} movers for ${vans} van${vans > 1 ? 's' : ''} - each van holds up to ${maxCrewPerVan} people.`
     };
   }
 
   return { valid: true };
 }
 
+/**
+ * Check if a manual crew size makes the job run into more days
+ * (load time only - the route isn't known at Step 4)
+ */
+export function checkOverrideDuration(
+  recommended: Resources,
+  men: number,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): { longer: boolean; loadTime: number; duration: ServiceDuration; message?: string } {
+  const loadTime = scaleLoadTime(recommended.loadTime, recommended.men, men, config);
+  const duration = getServiceDuration(loadTime, false, config);
+  const recommendedDuration = getServiceDuration(recommended.loadTime, false, config);
+
+  if (duration.days <= recommendedDuration.days) {
+    return { longer: false, loadTime, duration };
+  }
+
+  const hours = Math.round(loadTime * 2) / 2;
+
+  return {
+    longer: true,
+    loadTime,
+    duration,
+    message: `With ${men} mover${men > 1 ? 's' : ''}, loading takes about ${hours} hours, so the job becomes ${duration.label.toLowerCase()} instead of ${recommendedDuration.label.toLowerCase()}. We charge vans and movers for every day they're booked.`,
+  };
+}
+
 /**
  * Check if recommendation differs from manual selection
  */
@@ -0,0 +1,117 @@
+/**
+ * PAINLESS REMOVALS - SAVED STATE MIGRATIONS
+ *
+ * Calculator state saved in localStorage (and server copies for resume
+ * links) carries a stateVersion. Saves from older versions are upgraded
+ * one version at a time before they are validated, so a change to the
+ * state's shape keeps the customer's answers instead of wiping them.
+ *
+ * To change the shape: bump STATE_VERSION and add a migration from the
+ * previous version that rewrites older saves into the new shape.
+ */
+
+import { FIRST_STEP, STEP_IDS, type StepId, isStepId } from './calculator-steps';
+
+export type SavedState = Record<string, unknown>;
+
+export type Migration = (state: SavedState) => SavedState;
+
+/** Saves from before stateVersion existed */
+const UNVERSIONED = 0;
+
+/**
+ * Upgrades from each version to the next - MIGRATIONS[n] turns a
+ * version n save into a version n + 1 save
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  // 0 → 1: steps have string ids (3.1 → step-03a, 10.1-10.5 → step-10a-10e)
+  (state) => ({
+    ...state,
+    currentStep:
+      typeof state.currentStep === 'number'
+        ? fromLegacyStepNumber(state.currentStep)
+        : state.currentStep,
+  }),
+
+  // 1 → 2: legacy packing/storage/assembly extras become packingTier,
+  // storageSize and disassemblyItems, with the gateway to match
+  (state) => {
+    if (!isRecord(state.extras)) return state;
+
+    let currentStep = state.currentStep;
+    const { packing, storage, assembly, ...extras } = state.extras;
+    const gateway = new Set(Array.isArray(extras.gateway) ? extras.gateway : []);
+    const assemblyItems = Array.isArray(assembly) ? assembly : [];
+
+    if (typeof packing === 'string' && extras.packingTier === undefined) {
+      extras.packingTier = packing === 'fragileOnly' ? 'fragile' : 'fullService';
+      gateway.add('packing');
+    }
+
+    if (typeof storage === 'string' && extras.storageSize === undefined) {
+      // Legacy storage was one month at a flat price, which weekly storage
+      // can't reproduce - keep the size and ask for the duration again
+      extras.storageSize = storage;
+      gateway.add('storage');
+      if (isStepId(currentStep) && STEP_IDS.indexOf(currentStep) > STEP_IDS.indexOf('step-10d')) {
+        currentStep = 'step-10d';
+      }
+    }
+
+    const hasDisassembly =
+      Array.isArray(extras.disassemblyItems) && extras.disassemblyItems.length > 0;
+    if (assemblyItems.length > 0 && !hasDisassembly) {
+      extras.disassemblyItems = assemblyItems.filter(isRecord).map((item) => ({
+        category: item.type,
+        quantity: item.quantity,
+      }));
+      gateway.add('assembly');
+    }
+
+    return { ...state, currentStep, extras: { ...extras, gateway: [...gateway] } };
+  },
+];
+
+export const STATE_VERSION = UNVERSIONED + MIGRATIONS.length;
+
+export interface MigrationResult {
+  state: SavedState;
+  /** Version the state reached - below STATE_VERSION if a migration failed */
+  version: number;
+}
+
+/**
+ * Upgrade a save to STATE_VERSION, one version at a time.
+ * If a migration throws, stops there and returns the state as the last
+ * successful migration left it - validation then keeps what it can.
+ */
+export function migrateState(
+  saved: SavedState,
+  migrations: readonly Migration[] = MIGRATIONS
+): MigrationResult {
+  let version = typeof saved.stateVersion === 'number' ? saved.stateVersion : UNVERSIONED;
+  let state = saved;
+
+  while (version < UNVERSIONED + migrations.length) {
+    try {
+      state = { ...migrations[version - UNVERSIONED](state), stateVersion: version + 1 };
+      version++;
+    } catch (e) {
+      console.warn(`Failed to migrate saved state from version ${version}:`, e);
+      break;
+    }
+  }
+
+  return { state, version };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fromLegacyStepNumber(step: number): StepId {
+  const [main, sub] = step.toFixed(1).split('.');
+  const id = `step-${main.padStart(2, '0')}${sub === '0' ? '' : ('abcde'[Number(sub) - 1] ?? '')}`;
+
+  return isStepId(id) ? id : FIRST_STEP;
+}
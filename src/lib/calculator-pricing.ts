@@ -0,0 +1,215 @@
+/**
+ * PAINLESS REMOVALS - PRICING CONFIGURATION
+ *
+ * The pricing part of CALCULATOR_CONFIG as a validated, versioned snapshot.
+ * Version 0 is the bundled config; later versions are stored in the
+ * pricing_configs table with an effectiveFrom date.
+ */
+
+import { z } from 'zod';
+import { CALCULATOR_CONFIG } from './calculator-config';
+
+// ===================
+// SCHEMA
+// ===================
+
+const amount = z.number().nonnegative();
+
+// JSON has no Infinity - open-ended limits are stored as null
+const limit = z.union([amount, z.null().transform(() => Number.POSITIVE_INFINITY)]);
+
+const resources = z.object({
+  men: z.number().int().nonnegative(),
+  vans: z.number().int().nonnegative(),
+  loadTime: amount,
+});
+
+const vanRates = z.object({ halfDay: amount, fullDay: amount });
+const moverRates = z.object({ firstTwo: amount, additional: amount });
+const mileageRates = z.array(z.object({ maxMiles: limit, rate: amount })).min(1);
+
+/**
+ * Object schema with exactly the keys of a config table
+ * (quote inputs reference these keys, so a version can't drop one)
+ */
+function keysOf<K extends string, V extends z.ZodTypeAny>(table: Record<K, unknown>, value: V) {
+  const keys = Object.keys(table) as K[];
+  return z.object(Object.fromEntries(keys.map((key) => [key, value])) as Record<K, V>);
+}
+
+/**
+ * Enum of the keys of a config table
+ */
+function keyOf<K extends string>(table: Record<K, unknown>) {
+  return z.enum(Object.keys(table) as [K, ...K[]]);
+}
+
+export const pricingConfigSchema = z.object({
+  profitMargin: amount,
+
+  crewSolver: z.object({
+    cubesPerMoverHour: z.number().positive(),
+    crewEfficiency: z.number().positive().max(1),
+    setupTime: amount,
+    cubesPerVan: z.number().positive(),
+    minMen: z.number().int().positive(),
+    maxMen: z.number().int().positive(),
+    maxVans: z.number().int().positive(),
+    alternatives: z.number().int().nonnegative(),
+  }),
+  smallJobResources: resources,
+  extraCubesFormula: z.object({
+    baseCubes: amount,
+    baseMen: amount,
+    baseVans: amount,
+    baseLoadTime: amount,
+    menPer250: amount,
+    vansPer500: amount,
+    loadTimePer250: amount,
+  }),
+
+  propertyCubes: z.record(z.string(), z.object({ few: amount, average: amount, many: amount })),
+  sliderModifiers: z.record(
+    z.string(),
+    z.object({
+      category: z.enum(['few', 'average', 'many']),
+      modifier: amount,
+    })
+  ),
+  officeCubes: z.record(z.string(), z.object({ cubes: amount })),
+  inventoryItems: keysOf(CALCULATOR_CONFIG.inventoryItems, z.object({ cubes: amount })),
+  furnitureOnly: z.object({
+    loadTimeByItems: z.record(z.string(), amount),
+    specialistItems: keysOf(
+      CALCULATOR_CONFIG.furnitureOnly.specialistItems,
+      z.object({
+        handlingFee: amount,
+        extraMen: z.number().int().nonnegative(),
+        weightClass: keyOf(CALCULATOR_CONFIG.furnitureOnly.weightClasses),
+      })
+    ),
+    weightClasses: keysOf(
+      CALCULATOR_CONFIG.furnitureOnly.weightClasses,
+      z.object({ loadTime: amount })
+    ),
+    stairsMultiplier: z.number().min(1),
+  }),
+  clearance: z.object({
+    loads: keysOf(CALCULATOR_CONFIG.clearance.loads, z.object({ cubicYards: amount })),
+    vanCapacity: z.number().positive(),
+    loadTimePerYard: amount,
+    crew: z.array(z.object({ maxYards: limit, men: z.number().int().positive() })).min(1),
+    tipFeePerYard: amount,
+    tipTimePerLoad: amount,
+    wasteCategories: keysOf(CALCULATOR_CONFIG.clearance.wasteCategories, z.object({ fee: amount })),
+    recycling: z.object({ diversion: z.number().min(0).max(1), sortingTimePerYard: amount }),
+  }),
+
+  vanRates,
+  moverRates,
+  mileageRates,
+  // Per-branch overrides of the rate tables above
+  depots: keysOf(
+    CALCULATOR_CONFIG.depots,
+    z.object({ rates: z.object({ vanRates, moverRates, mileageRates }).partial() })
+  ),
+  roadCharges: z.object({
+    zones: keysOf(CALCULATOR_CONFIG.roadCharges.zones, z.object({ dailyCharge: amount })),
+    tolls: keysOf(CALCULATOR_CONFIG.roadCharges.tolls, z.object({ charge: amount })),
+  }),
+  accommodation: z.object({
+    perRoom: amount,
+    peoplePerRoom: z.number().int().positive(),
+  }),
+  driverHours: z.object({
+    maxDailyDriving: z.number().positive(),
+    breakAfter: z.number().positive(),
+    breakLength: amount,
+    maxWorkingDay: z.number().positive(),
+    secondDriver: z.object({ maxWorkingDay: z.number().positive() }),
+  }),
+  timeThresholds: z.object({
+    halfDay: amount,
+    fullDay: amount,
+    twoDays: amount,
+    threeDays: amount,
+  }),
+
+  complications: keysOf(
+    CALCULATOR_CONFIG.complications,
+    z.object({
+      factor: amount.optional(),
+      addVans: z.number().int().nonnegative().optional(),
+      addMen: z.number().int().nonnegative().optional(),
+    })
+  ),
+  floorAccess: z.object({
+    lift: keysOf(CALCULATOR_CONFIG.floorAccess.lift, z.object({ timeFactor: amount })),
+    extraMoverFromFloor: z.number().int().positive(),
+  }),
+  stops: z.object({ handlingTime: amount }),
+  datePricing: z.object({
+    timeZone: z.string(),
+    peakDays: z.record(z.string(), z.object({ surcharge: amount, label: z.string() })),
+    monthEnd: z.object({ workingDays: z.number().int().nonnegative(), surcharge: amount }),
+    bankHoliday: z.object({ surcharge: amount }),
+    flexible: z.object({ discount: amount }),
+    bankHolidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  }),
+  priceRange: z.object({
+    sliderStep: z.number().int().nonnegative(),
+    datePremium: amount,
+    driveTimeVariance: amount.max(1),
+  }),
+
+  packing: keysOf(CALCULATOR_CONFIG.packing, z.object({ cubesMax: limit, total: amount })),
+  packingTiers: keysOf(
+    CALCULATOR_CONFIG.packingTiers,
+    z.object({
+      priceBySize: z.object({ small: amount, medium: amount, large: amount, xl: amount }),
+    })
+  ),
+  cleaningTiers: keysOf(CALCULATOR_CONFIG.cleaningTiers, z.object({ multiplier: amount })),
+  storageSizes: keysOf(CALCULATOR_CONFIG.storageSizes, z.object({ price: amount })),
+  cleaning: z.record(z.string(), z.object({ price: amount })),
+  storage: keysOf(CALCULATOR_CONFIG.storage, z.object({ price: amount })),
+  assembly: keysOf(CALCULATOR_CONFIG.assembly, z.object({ price: amount })),
+  insurance: z.object({
+    levels: keysOf(
+      CALCULATOR_CONFIG.insurance.levels,
+      z.object({ rate: amount.max(1), minimum: amount })
+    ),
+  }),
+
+  // Crew per van - limits the crews the solver and manual override can pick
+  validation: z.object({
+    minVansPerCrew: z.number().int().positive(),
+    maxCrewPerVan: z.number().int().positive(),
+  }),
+  vat: z.object({
+    rate: amount.max(1),
+    // Price line id prefixes with no VAT
+    exemptItems: z.array(z.string()),
+  }),
+
+  thresholds: z.object({ callbackRequired: amount, multiDayWarning: amount }),
+});
+
+export type PricingConfig = z.infer<typeof pricingConfigSchema>;
+
+export interface PricingVersion {
+  version: number;
+  config: PricingConfig;
+}
+
+// ===================
+// DEFAULTS
+// ===================
+
+// Parsing strips everything that isn't pricing (labels, UI options)
+export const DEFAULT_PRICING_CONFIG: PricingConfig = pricingConfigSchema.parse(CALCULATOR_CONFIG);
+
+export const DEFAULT_PRICING: PricingVersion = {
+  version: 0,
+  config: DEFAULT_PRICING_CONFIG,
+};
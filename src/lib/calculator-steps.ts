@@ -0,0 +1,330 @@
+/**
+ * PAINLESS REMOVALS - CALCULATOR STEP GRAPH
+ *
+ * The one definition of the calculator's steps, in order.
+ * Each step has a string id (also its page: /calculator/<id>), an entry
+ * condition over the calculator state and a completion validator.
+ * A customer's flow is the steps whose entry conditions hold - navigation,
+ * progress, URLs and the progress bar are all derived from it.
+ */
+
+import type { CalculatorState } from './calculator-store';
+import type { Locale } from './config';
+
+export interface StepDefinition {
+  id: string;
+  title: Record<Locale, string>;
+  description: Record<Locale, string>;
+  /** Shown in this flow? Every flow if omitted */
+  when?: (state: CalculatorState) => boolean;
+  /** Answered enough to move on? */
+  isComplete: (state: CalculatorState) => boolean;
+}
+
+// ===================
+// FLOWS
+// ===================
+
+export type CalculatorFlow = 'home' | 'studio' | 'furniture' | 'office' | 'clearance';
+
+/**
+ * Which flow the customer is in - a full home move until they choose otherwise
+ */
+export function getFlow(
+  state: Pick<CalculatorState, 'serviceType' | 'propertySize'>
+): CalculatorFlow {
+  if (state.propertySize === 'furniture') return 'furniture';
+  if (state.serviceType === 'office') return 'office';
+  if (state.serviceType === 'clearance') return 'clearance';
+  if (state.propertySize === 'studio') return 'studio';
+  return 'home';
+}
+
+function isFlow(...flows: CalculatorFlow[]) {
+  return (state: CalculatorState) => flows.includes(getFlow(state));
+}
+
+// Moves with extras (packing, assembly, cleaning, storage)
+const hasExtras = isFlow('home', 'studio', 'office');
+
+const always = () => true;
+
+// ===================
+// STEP GRAPH
+// ===================
+
+export const CALCULATOR_STEP_GRAPH = [
+  {
+    id: 'step-01',
+    title: { en: 'Service', es: 'Servicio', fr: 'Service' },
+    description: {
+      en: 'What type of removal service do you need?',
+      es: '¿Qué tipo de servicio de mudanza necesitas?',
+      fr: 'Quel type de service de déménagement avez-vous besoin?',
+    },
+    isComplete: (state) => state.serviceType !== null,
+  },
+  {
+    id: 'step-02',
+    title: { en: 'Size', es: 'Tamaño', fr: 'Taille' },
+    description: {
+      en: 'Tell us about your property',
+      es: 'Cuéntanos sobre tu propiedad',
+      fr: 'Parlez-nous de votre propriété',
+    },
+    isComplete: (state) => {
+      switch (getFlow(state)) {
+        case 'furniture':
+          return state.furnitureOnly !== null;
+        case 'office':
+          return state.officeSize !== null;
+        case 'clearance':
+          return state.clearance !== null;
+        default:
+          return state.propertySize !== null;
+      }
+    },
+  },
+  {
+    id: 'step-03',
+    title: { en: 'Items', es: 'Objetos', fr: 'Objets' },
+    description: {
+      en: 'How much stuff do you have?',
+      es: '¿Cuántas cosas tienes?',
+      fr: "Combien d'affaires avez-vous?",
+    },
+    // Studios are a fixed size
+    when: (state) => getFlow(state) === 'home' && !state.useInventory,
+    isComplete: always,
+  },
+  {
+    id: 'step-03a',
+    title: { en: 'Inventory', es: 'Inventario', fr: 'Inventaire' },
+    description: {
+      en: 'List your belongings room by room',
+      es: 'Enumera tus pertenencias habitación por habitación',
+      fr: 'Listez vos affaires pièce par pièce',
+    },
+    when: (state) => getFlow(state) === 'home' && state.useInventory,
+    isComplete: (state) => state.inventory.length > 0,
+  },
+  {
+    id: 'step-04',
+    title: { en: 'Plan', es: 'Plan', fr: 'Plan' },
+    description: {
+      en: 'Our recommended resources for your move',
+      es: 'Nuestros recursos recomendados para tu mudanza',
+      fr: 'Nos ressources recommandées pour votre déménagement',
+    },
+    when: isFlow('home', 'studio'),
+    isComplete: (state) =>
+      !state.useManualOverride || (state.manualMen !== null && state.manualVans !== null),
+  },
+  {
+    id: 'step-05',
+    title: { en: 'Date', es: 'Fecha', fr: 'Date' },
+    description: {
+      en: 'When would you like to move?',
+      es: '¿Cuándo te gustaría mudarte?',
+      fr: 'Quand souhaitez-vous déménager?',
+    },
+    isComplete: (state) => state.dateFlexibility !== null,
+  },
+  {
+    id: 'step-05b',
+    title: { en: 'Pick Date', es: 'Elegir Fecha', fr: 'Choisir Date' },
+    description: {
+      en: 'Select your preferred moving date',
+      es: 'Selecciona tu fecha de mudanza preferida',
+      fr: 'Sélectionnez votre date de déménagement préférée',
+    },
+    // Only once the customer has a date in mind
+    when: (state) => state.dateFlexibility === 'fixed' || state.dateFlexibility === 'flexible',
+    isComplete: (state) => state.selectedDate !== null,
+  },
+  {
+    id: 'step-06',
+    title: { en: 'Access', es: 'Acceso', fr: 'Accès' },
+    description: {
+      en: 'Any access issues or special requirements?',
+      es: '¿Algún problema de acceso o requisitos especiales?',
+      fr: "Des problèmes d'accès ou des exigences particulières?",
+    },
+    when: (state) => getFlow(state) !== 'furniture',
+    isComplete: (state) => state.complications !== null,
+  },
+  {
+    id: 'step-07',
+    title: { en: 'Chain', es: 'Cadena', fr: 'Chaîne' },
+    description: {
+      en: 'Are you part of a property chain?',
+      es: '¿Eres parte de una cadena de propiedades?',
+      fr: "Faites-vous partie d'une chaîne immobilière?",
+    },
+    when: isFlow('home', 'studio', 'office'),
+    isComplete: (state) => state.propertyChain !== null,
+  },
+  {
+    id: 'step-08',
+    title: { en: 'Addresses', es: 'Direcciones', fr: 'Adresses' },
+    description: {
+      en: 'Where are you moving from and to?',
+      es: '¿De dónde y a dónde te mudas?',
+      fr: "D'où et vers où déménagez-vous?",
+    },
+    isComplete: (state) =>
+      state.fromAddress !== null && state.toAddress !== null && state.distances !== null,
+  },
+  {
+    id: 'step-10',
+    title: { en: 'Extras', es: 'Extras', fr: 'Extras' },
+    description: {
+      en: 'Can we assist you with any of the following?',
+      es: '¿Podemos ayudarte con algo de lo siguiente?',
+      fr: "Pouvons-nous vous aider avec l'un des éléments suivants?",
+    },
+    when: hasExtras,
+    isComplete: always,
+  },
+  {
+    id: 'step-10a',
+    title: { en: 'Packing', es: 'Embalaje', fr: 'Emballage' },
+    description: {
+      en: 'How much packing assistance do you need?',
+      es: '¿Cuánta ayuda con el embalaje necesitas?',
+      fr: "De combien d'aide à l'emballage avez-vous besoin?",
+    },
+    when: (state) => hasExtras(state) && state.extras.gateway.includes('packing'),
+    isComplete: (state) => state.extras.packingTier !== undefined,
+  },
+  {
+    id: 'step-10b',
+    title: { en: 'Assembly', es: 'Montaje', fr: 'Assemblage' },
+    description: {
+      en: 'Which furniture needs disassembly?',
+      es: '¿Qué muebles necesitan desmontaje?',
+      fr: 'Quels meubles doivent être démontés?',
+    },
+    when: (state) => hasExtras(state) && state.extras.gateway.includes('assembly'),
+    isComplete: (state) => state.extras.disassemblyItems.length > 0,
+  },
+  {
+    id: 'step-10c',
+    title: { en: 'Cleaning', es: 'Limpieza', fr: 'Nettoyage' },
+    description: {
+      en: 'How many rooms do you need cleaned?',
+      es: '¿Cuántas habitaciones necesitas limpiar?',
+      fr: 'Combien de pièces devez-vous faire nettoyer?',
+    },
+    when: (state) => hasExtras(state) && state.extras.gateway.includes('cleaning'),
+    isComplete: (state) => state.extras.cleaningRooms !== undefined,
+  },
+  {
+    id: 'step-10d',
+    title: { en: 'Storage', es: 'Almacenamiento', fr: 'Stockage' },
+    description: {
+      en: 'How much storage space do you need?',
+      es: '¿Cuánto espacio de almacenamiento necesitas?',
+      fr: "De combien d'espace de stockage avez-vous besoin?",
+    },
+    when: (state) => hasExtras(state) && state.extras.gateway.includes('storage'),
+    isComplete: (state) =>
+      state.extras.storageSize !== undefined && state.extras.storageWeeks !== undefined,
+  },
+  {
+    id: 'step-10e',
+    title: { en: 'Insurance', es: 'Seguro', fr: 'Assurance' },
+    description: {
+      en: 'Would you like to insure your belongings in transit?',
+      es: '¿Quieres asegurar tus pertenencias durante el transporte?',
+      fr: 'Souhaitez-vous assurer vos biens pendant le transport?',
+    },
+    // The one extra in the furniture flow
+    when: (state) => getFlow(state) !== 'clearance',
+    isComplete: always,
+  },
+  {
+    id: 'step-11',
+    title: { en: 'Contact', es: 'Contacto', fr: 'Contact' },
+    description: {
+      en: 'How can we reach you?',
+      es: '¿Cómo podemos contactarte?',
+      fr: 'Comment pouvons-nous vous joindre?',
+    },
+    isComplete: ({ contact }) =>
+      [contact.firstName, contact.lastName, contact.phone, contact.email].every(
+        (value) => value.trim() !== ''
+      ) && contact.gdprConsent,
+  },
+  {
+    id: 'step-12',
+    title: { en: 'Quote', es: 'Precio', fr: 'Devis' },
+    description: {
+      en: 'Review your instant quote',
+      es: 'Revisa tu cotización instantánea',
+      fr: 'Vérifiez votre devis instantané',
+    },
+    isComplete: always,
+  },
+] as const satisfies readonly StepDefinition[];
+
+export type StepId = (typeof CALCULATOR_STEP_GRAPH)[number]['id'];
+
+export const STEP_IDS = CALCULATOR_STEP_GRAPH.map((step) => step.id) as [StepId, ...StepId[]];
+
+export const FIRST_STEP: StepId = 'step-01';
+
+// ===================
+// DERIVED
+// ===================
+
+export function isStepId(value: unknown): value is StepId {
+  return typeof value === 'string' && (STEP_IDS as string[]).includes(value);
+}
+
+export function getStepDefinition(id: StepId): StepDefinition {
+  return CALCULATOR_STEP_GRAPH.find((step) => step.id === id) as StepDefinition;
+}
+
+/**
+ * The customer's flow - steps whose entry conditions hold, in order
+ */
+export function getApplicableSteps(state: CalculatorState): StepId[] {
+  return CALCULATOR_STEP_GRAPH.filter((step: StepDefinition) => !step.when || step.when(state)).map(
+    (step) => step.id
+  );
+}
+
+/**
+ * First step in the flow that isn't complete (null once every step is)
+ */
+export function getFirstIncompleteStep(state: CalculatorState): StepId | null {
+  return getApplicableSteps(state).find((id) => !getStepDefinition(id).isComplete(state)) ?? null;
+}
+
+/**
+ * Whether the customer can open a step - every step before it in
+ * their flow is complete
+ */
+export function isStepReachable(state: CalculatorState, id: StepId): boolean {
+  const steps = getApplicableSteps(state);
+  const index = steps.indexOf(id);
+  if (index === -1) return false;
+
+  return steps.slice(0, index).every((step) => getStepDefinition(step).isComplete(state));
+}
+
+/**
+ * Page for a step, e.g. 'step-10a' → /calculator/step-10a
+ */
+export function getStepPath(id: StepId): string {
+  return `/calculator/${id}`;
+}
+
+/**
+ * Step for a page, e.g. /calculator/step-10a → 'step-10a'
+ */
+export function getStepFromPath(pathname: string): StepId | null {
+  const match = pathname.match(/\/calculator\/(step-[0-9a-z]+)\/?$/);
+  return match && isStepId(match[1]) ? match[1] : null;
+}
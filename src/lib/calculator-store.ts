@@ -5,24 +5,64 @@
  * Persists to localStorage for save & continue.
  */
 
-import { computed, map } from 'nanostores';
+import { atom, computed, map } from 'nanostores';
 import { z } from 'zod';
 import {
   calculateQuote,
+  getAddressAccess,
+  getRoutePoints,
+  getCubesForInventory,
   getCubesForProperty,
   getResourcesFromCubes,
+  getCrewOptions,
+  scaleLoadTime,
   getResourcesForFurnitureOnly,
+  getResourcesForClearance,
   getCubesForOffice,
+  getPackageExtras,
+  getPackages,
+  requiresSpecialistCallback,
+  type ClearanceInput,
+  type CrewOption,
+  type InsuranceInput,
+  type InventoryLine,
+  type PromoDiscount,
+  type QuoteInput,
+  type QuotePackage,
   type QuoteResult,
 } from './calculator-logic';
 import { CALCULATOR_CONFIG } from './calculator-config';
-import { STORAGE } from './constants';
+import {
+  DEFAULT_PRICING,
+  pricingConfigSchema,
+  type PricingConfig,
+  type PricingVersion,
+} from './calculator-pricing';
+import {
+  FIRST_STEP,
+  STEP_IDS,
+  getApplicableSteps,
+  getStepDefinition,
+  getStepFromPath,
+  getStepPath,
+  type StepId,
+} from './calculator-steps';
+import { STATE_VERSION, migrateState } from './calculator-migrations';
+import { STORAGE, TIMING } from './constants';
 import type {
   PropertySize,
   OfficeSize,
   SliderPosition,
+  InventoryItemKey,
+  ClearanceLoad,
+  WasteCategory,
+  SpecialistItemKey,
   Complication,
-  PackingSize,
+  LiftAccess,
+  StopType,
+  DepotKey,
+  PackageKey,
+  InsuranceLevel,
 } from './calculator-config';
 
 // ===================
@@ -36,7 +76,7 @@ export interface FurnitureOnlyData {
   itemCount: number;
   needs2Person: boolean;
   over40kg: boolean;
-  specialistItems: string[];
+  specialistItems: SpecialistItemKey[];
   otherSpecialistDescription?: string;
 }
 
@@ -46,6 +86,12 @@ export interface AddressData {
   lat?: number;
   lng?: number;
   floorLevel?: number; // -1 (basement) to 10
+  lift?: LiftAccess;
+}
+
+export interface StopData extends AddressData {
+  type: StopType;
+  notes?: string; // Access notes for the crew (unit number, gate code...)
 }
 
 export interface DistanceData {
@@ -55,6 +101,9 @@ export interface DistanceData {
   driveTimeHours: number;
   customerDistance: number; // Just from → to (for display)
   customerDriveMinutes: number;
+  legs?: number[]; // Miles per leg from → stops → to
+  path?: string; // Encoded polyline of from → stops → to (road charges)
+  depot?: DepotKey; // Nearest branch, which the depot legs run from
 }
 
 export type ExtrasGatewayOption = 'packing' | 'assembly' | 'cleaning' | 'storage';
@@ -85,13 +134,8 @@ export interface ExtrasData {
   storageSize?: keyof typeof CALCULATOR_CONFIG.storage;
   storageWeeks?: number;
 
-  // Legacy fields for backwards compatibility
-  packing?: PackingSize;
-  storage?: keyof typeof CALCULATOR_CONFIG.storage;
-  assembly: Array<{
-    type: keyof typeof CALCULATOR_CONFIG.assembly;
-    quantity: number;
-  }>;
+  // Goods in transit insurance (Step 10e)
+  insurance?: InsuranceInput;
 }
 
 export interface ContactData {
@@ -105,21 +149,27 @@ export interface ContactData {
 
 export interface CalculatorState {
   // Meta
-  currentStep: number;
+  stateVersion: number; // Saved state shape (calculator-migrations.ts)
+  currentStep: StepId;
   startedAt: string | null;
   lastUpdatedAt: string | null;
 
   // Step 1: Service Type
   serviceType: ServiceType | null;
 
-  // Step 2: Property/Office/Furniture
+  // Step 2: Property/Office/Furniture/Clearance
   propertySize: PropertySize | null;
   officeSize: OfficeSize | null;
   furnitureOnly: FurnitureOnlyData | null;
+  clearance: ClearanceInput | null;
 
   // Step 3: Belongings
   sliderPosition: SliderPosition;
 
+  // Step 3a: Inventory (alternative to the slider)
+  useInventory: boolean;
+  inventory: InventoryLine[];
+
   // Step 4: Manual Override
   useManualOverride: boolean;
   manualMen: number | null;
@@ -138,6 +188,7 @@ export interface CalculatorState {
   // Step 8-9: Addresses
   fromAddress: AddressData | null;
   toAddress: AddressData | null;
+  stops: StopData[];
   distances: DistanceData | null;
 
   // Step 10: Extras
@@ -145,6 +196,7 @@ export interface CalculatorState {
 
   // Step 11: Contact
   contact: ContactData;
+  promoCode: string | null;
 
   // Tracking
   gclid: string | null;
@@ -153,6 +205,11 @@ export interface CalculatorState {
   utmCampaign: string | null;
   landingPage: string | null;
   sessionId: string | null;
+
+  // Server copy kept in sync once a resume link has been sent
+  // (writes need the token issued with a server sessionId)
+  sessionToken: string | null;
+  serverSync: boolean;
 }
 
 // ===================
@@ -160,7 +217,8 @@ export interface CalculatorState {
 // ===================
 
 const initialState: CalculatorState = {
-  currentStep: 1,
+  stateVersion: STATE_VERSION,
+  currentStep: FIRST_STEP,
   startedAt: null,
   lastUpdatedAt: null,
 
@@ -168,7 +226,10 @@ const initialState: CalculatorState = {
   propertySize: null,
   officeSize: null,
   furnitureOnly: null,
+  clearance: null,
   sliderPosition: 3, // Default: Average
+  useInventory: false,
+  inventory: [],
 
   useManualOverride: false,
   manualMen: null,
@@ -182,6 +243,7 @@ const initialState: CalculatorState = {
 
   fromAddress: null,
   toAddress: null,
+  stops: [],
   distances: null,
 
   extras: {
@@ -192,10 +254,6 @@ const initialState: CalculatorState = {
     cleaningType: undefined,
     storageSize: undefined,
     storageWeeks: undefined,
-    // Legacy fields
-    packing: undefined,
-    storage: undefined,
-    assembly: [],
   },
 
   contact: {
@@ -206,6 +264,7 @@ const initialState: CalculatorState = {
     gdprConsent: false,
     marketingConsent: false,
   },
+  promoCode: null,
 
   gclid: null,
   utmSource: null,
@@ -213,6 +272,8 @@ const initialState: CalculatorState = {
   utmCampaign: null,
   landingPage: null,
   sessionId: null,
+  sessionToken: null,
+  serverSync: false,
 };
 
 // ===================
@@ -221,16 +282,39 @@ const initialState: CalculatorState = {
 
 export const calculatorStore = map<CalculatorState>(initialState);
 
+// Active pricing version - the bundled config until /api/pricing responds
+export const pricingStore = atom<PricingVersion>(DEFAULT_PRICING);
+
+// Discount terms for state.promoCode, once /api/promo has accepted it
+export const promoStore = atom<PromoDiscount | null>(null);
+
+// Whether /api/pricing has answered (or failed) - until then quotes use the bundled rates
+export const pricingLoaded = atom(false);
+
+// A promo code check in flight - the quote's discount isn't known yet
+export const promoPending = atom(false);
+
+// A resume link being fetched - the saved move may replace this one
+export const resumePending = atom(false);
+
+// The quote is priced with the rates and promo code the server will use,
+// so it can be submitted
+export const quoteSettled = computed(
+  [pricingLoaded, promoPending, resumePending],
+  (loaded, promo, resume) => loaded && !promo && !resume
+);
+
 // ===================
 // VALIDATION SCHEMA
 // ===================
 
 /**
- * Zod schema for validating localStorage data
- * This prevents XSS attacks from modifying localStorage
+ * Zod schema for validating localStorage data (after migrating it to
+ * STATE_VERSION). This prevents XSS attacks from modifying localStorage
  */
 const LocalStorageStateSchema = z.object({
-  currentStep: z.number().min(1).max(12).or(z.number().min(10.1).max(10.4)),
+  stateVersion: z.number().int().nonnegative(),
+  currentStep: z.enum(STEP_IDS),
   startedAt: z.string().nullable(),
   lastUpdatedAt: z.string().nullable(),
   serviceType: z.enum(['home', 'office', 'clearance']).nullable(),
@@ -240,10 +324,25 @@ const LocalStorageStateSchema = z.object({
     itemCount: z.number().min(1).max(10),
     needs2Person: z.boolean(),
     over40kg: z.boolean(),
-    specialistItems: z.array(z.string()),
+    specialistItems: z.array(
+      z.enum(Object.keys(CALCULATOR_CONFIG.furnitureOnly.specialistItems) as [SpecialistItemKey, ...SpecialistItemKey[]])
+    ),
     otherSpecialistDescription: z.string().optional(),
   }).nullable(),
+  clearance: z.object({
+    load: z.enum(Object.keys(CALCULATOR_CONFIG.clearance.loads) as [ClearanceLoad, ...ClearanceLoad[]]),
+    items: z.record(
+      z.enum(Object.keys(CALCULATOR_CONFIG.clearance.wasteCategories) as [WasteCategory, ...WasteCategory[]]),
+      z.number().int().min(0).max(50)
+    ),
+    recycling: z.boolean(),
+  }).nullable().optional(),
   sliderPosition: z.number().min(1).max(5),
+  useInventory: z.boolean().optional(),
+  inventory: z.array(z.object({
+    item: z.enum(Object.keys(CALCULATOR_CONFIG.inventoryItems) as [InventoryItemKey, ...InventoryItemKey[]]),
+    quantity: z.number().int().min(1).max(99),
+  })).max(200).optional(),
   useManualOverride: z.boolean(),
   manualMen: z.number().min(1).max(10).nullable(),
   manualVans: z.number().min(1).max(5).nullable(),
@@ -256,13 +355,27 @@ const LocalStorageStateSchema = z.object({
     postcode: z.string(),
     lat: z.number().optional(),
     lng: z.number().optional(),
+    floorLevel: z.number().min(-1).max(10).optional(),
+    lift: z.enum(['none', 'small', 'fits']).optional(),
   }).nullable(),
   toAddress: z.object({
     formatted: z.string(),
     postcode: z.string(),
     lat: z.number().optional(),
     lng: z.number().optional(),
+    floorLevel: z.number().min(-1).max(10).optional(),
+    lift: z.enum(['none', 'small', 'fits']).optional(),
   }).nullable(),
+  stops: z.array(z.object({
+    type: z.enum(Object.keys(CALCULATOR_CONFIG.stops.types) as [StopType, ...StopType[]]),
+    formatted: z.string(),
+    postcode: z.string(),
+    lat: z.number().optional(),
+    lng: z.number().optional(),
+    floorLevel: z.number().min(-1).max(10).optional(),
+    lift: z.enum(['none', 'small', 'fits']).optional(),
+    notes: z.string().max(200).optional(),
+  })).max(CALCULATOR_CONFIG.stops.maxStops).optional(),
   distances: z.object({
     depotToFrom: z.number(),
     fromToTo: z.number(),
@@ -270,6 +383,9 @@ const LocalStorageStateSchema = z.object({
     driveTimeHours: z.number(),
     customerDistance: z.number(),
     customerDriveMinutes: z.number(),
+    legs: z.array(z.number()).optional(),
+    path: z.string().optional(),
+    depot: z.enum(Object.keys(CALCULATOR_CONFIG.depots) as [DepotKey, ...DepotKey[]]).optional(),
   }).nullable(),
   extras: z.object({
     gateway: z.array(z.enum(['packing', 'assembly', 'cleaning', 'storage'])),
@@ -282,12 +398,10 @@ const LocalStorageStateSchema = z.object({
     cleaningType: z.enum(['quick', 'deep']).optional(),
     storageSize: z.string().optional(),
     storageWeeks: z.number().min(1).max(52).optional(),
-    packing: z.string().optional(),
-    storage: z.string().optional(),
-    assembly: z.array(z.object({
-      type: z.string(),
-      quantity: z.number(),
-    })),
+    insurance: z.object({
+      level: z.enum(Object.keys(CALCULATOR_CONFIG.insurance.levels) as [InsuranceLevel, ...InsuranceLevel[]]),
+      declaredValue: z.number().positive().max(CALCULATOR_CONFIG.insurance.maxDeclaredValue),
+    }).optional(),
   }),
   contact: z.object({
     firstName: z.string().max(100),
@@ -297,66 +411,68 @@ const LocalStorageStateSchema = z.object({
     gdprConsent: z.boolean(),
     marketingConsent: z.boolean(),
   }),
+  promoCode: z.string().max(32).nullable().optional(),
   gclid: z.string().max(200).nullable(),
   utmSource: z.string().max(100).nullable(),
   utmMedium: z.string().max(100).nullable(),
   utmCampaign: z.string().max(100).nullable(),
   landingPage: z.string().max(500).nullable(),
   sessionId: z.string().nullable(),
-}).passthrough(); // Allow additional properties for forwards compatibility
+  sessionToken: z.string().max(128).nullable().optional(),
+  serverSync: z.boolean().optional(),
+});
 
-// ===================
-// COMPUTED VALUES
-// ===================
+type StateSection = keyof typeof LocalStorageStateSchema.shape;
+
+// Zod validates the structure but returns looser types
+type RestoredState = Partial<CalculatorState> &
+  Pick<CalculatorState, 'stateVersion' | 'currentStep' | 'lastUpdatedAt'>;
 
 /**
- * Get the steps that apply to the current flow
- * Step 9 is now combined with Step 8 (addresses on one page)
- * Furniture/Single item flow skips: Plan (4), Access (6), Chain (7), Extras (10)
- * Office flow skips: Items (3)
- * Studio skips: Items (3)
- *
- * Extras sub-steps (10.1, 10.2, 10.3, 10.4) are conditionally shown based on gateway selection
- */
-export const applicableSteps = computed(calculatorStore, (state): number[] => {
-  const isFurniture = state.propertySize === 'furniture';
-  const isOffice = state.serviceType === 'office';
-  const isStudio = state.propertySize === 'studio';
-  const gateway = state.extras.gateway || [];
-
-  // Build extras sub-steps based on gateway selection
-  const extrasSubSteps: number[] = [];
-  if (gateway.includes('packing')) extrasSubSteps.push(10.1);
-  if (gateway.includes('assembly')) extrasSubSteps.push(10.2);
-  if (gateway.includes('cleaning')) extrasSubSteps.push(10.3);
-  if (gateway.includes('storage')) extrasSubSteps.push(10.4);
-
-  // Full flow: 1, 2, 3, 4, 5, 6, 7, 8, 10, [extras sub-steps], 11, 12 (step 9 combined with 8)
-  // Furniture flow: 1, 2, 5, 8, 11, 12 (skip 3, 4, 6, 7, 9, 10)
-  // Office flow: 1, 2, 5, 6, 7, 8, 10, [extras sub-steps], 11, 12 (skip 3, 4, 9)
-  // Studio flow: 1, 2, 4, 5, 6, 7, 8, 10, [extras sub-steps], 11, 12 (skip 3, 9)
-
-  if (isFurniture) {
-    return [1, 2, 5, 8, 11, 12];
-  }
+ * Migrate and validate a saved state (localStorage or a server copy).
+ * Sections that fail validation are reset rather than discarding the
+ * whole save - returns null only if nothing can be recovered.
+ */
+export function restoreSavedState(saved: unknown): RestoredState | null {
+  if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return null;
 
-  if (isOffice) {
-    return [1, 2, 5, 6, 7, 8, 10, ...extrasSubSteps, 11, 12];
+  const { state } = migrateState(saved as Record<string, unknown>);
+  const result = LocalStorageStateSchema.safeParse(state);
+  if (result.success) {
+    return result.data as RestoredState;
   }
 
-  if (isStudio) {
-    return [1, 2, 4, 5, 6, 7, 8, 10, ...extrasSubSteps, 11, 12];
+  const invalid = new Set(result.error.issues.map((issue) => issue.path[0] as StateSection));
+  console.warn(`Resetting invalid saved state sections: ${[...invalid].join(', ')}`, result.error.issues);
+
+  const salvaged = { ...state };
+  for (const section of invalid) {
+    salvaged[section] = initialState[section as keyof CalculatorState];
   }
+  salvaged.stateVersion = STATE_VERSION;
 
-  // Full home flow
-  return [1, 2, 3, 4, 5, 6, 7, 8, 10, ...extrasSubSteps, 11, 12];
-});
+  const retry = LocalStorageStateSchema.safeParse(salvaged);
+  return retry.success ? (retry.data as RestoredState) : null;
+}
+
+// ===================
+// COMPUTED VALUES
+// ===================
+
+/**
+ * The steps that apply to the current flow (see calculator-steps.ts)
+ */
+export const applicableSteps = computed(calculatorStore, getApplicableSteps);
+
+/**
+ * The full home flow, before the customer has chosen anything
+ */
+export const defaultSteps = getApplicableSteps(initialState);
 
 /**
  * Current step progress percentage based on applicable steps
  */
-export const progressPercent = computed(calculatorStore, (state) => {
-  const steps = applicableSteps.get();
+export const progressPercent = computed([calculatorStore, applicableSteps], (state, steps) => {
   const currentIndex = steps.indexOf(state.currentStep);
   if (currentIndex === -1) return 0;
   return Math.round(((currentIndex + 1) / steps.length) * 100);
@@ -369,47 +485,76 @@ export const progressMessage = computed(calculatorStore, (state) => {
   return CALCULATOR_CONFIG.progressMessages[state.currentStep] || '';
 });
 
+/**
+ * Cubes for a home move - the inventory total once the customer has listed
+ * their items, otherwise the slider estimate
+ */
+function getHomeCubes(state: CalculatorState, propertySize: PropertySize, config: PricingConfig): number {
+  if (state.useInventory && state.inventory.length > 0) {
+    return getCubesForInventory(state.inventory, config);
+  }
+
+  return getCubesForProperty(propertySize, state.sliderPosition, config);
+}
+
 /**
  * Calculated cubes based on current selections
  */
-export const calculatedCubes = computed(calculatorStore, (state) => {
+export const calculatedCubes = computed([calculatorStore, pricingStore], (state, pricing) => {
   if (state.serviceType === 'office' && state.officeSize) {
-    return getCubesForOffice(state.officeSize);
+    return getCubesForOffice(state.officeSize, pricing.config);
   }
 
   if (state.propertySize && state.propertySize !== 'furniture') {
-    return getCubesForProperty(state.propertySize, state.sliderPosition);
+    return getHomeCubes(state, state.propertySize, pricing.config);
   }
 
   return 0;
 });
 
+/**
+ * Crews priced by the solver for cube-based jobs, cheapest (the
+ * recommendation) first, followed by the runner-up alternatives
+ */
+export const crewOptions = computed([calculatedCubes, pricingStore], (cubes, pricing): CrewOption[] => {
+  const { extraCubesFormula, crewSolver } = pricing.config;
+
+  // Small jobs and callback-sized jobs don't use the solver
+  if (cubes < 250 || cubes > extraCubesFormula.baseCubes) return [];
+
+  return getCrewOptions(cubes, pricing.config).slice(0, 1 + crewSolver.alternatives);
+});
+
 /**
  * Recommended resources based on cubes
  */
-export const recommendedResources = computed(calculatorStore, (state) => {
+export const recommendedResources = computed([calculatorStore, pricingStore], (state, pricing) => {
   try {
     // Furniture only
     if (state.furnitureOnly) {
-      const hasSpecialist = state.furnitureOnly.specialistItems.length > 0;
       return getResourcesForFurnitureOnly({
         itemCount: state.furnitureOnly.itemCount,
         needs2Person: state.furnitureOnly.needs2Person,
         over40kg: state.furnitureOnly.over40kg,
-        hasSpecialist,
-      });
+        specialistItems: state.furnitureOnly.specialistItems,
+      }, pricing.config);
     }
 
     // Office
     if (state.serviceType === 'office' && state.officeSize) {
-      const cubes = getCubesForOffice(state.officeSize);
-      return getResourcesFromCubes(cubes);
+      const cubes = getCubesForOffice(state.officeSize, pricing.config);
+      return getResourcesFromCubes(cubes, pricing.config);
+    }
+
+    // Clearance
+    if (state.serviceType === 'clearance' && state.clearance) {
+      return { ...getResourcesForClearance(state.clearance, pricing.config), requiresCallback: false };
     }
 
     // Home
     if (state.propertySize && state.propertySize !== 'furniture') {
-      const cubes = getCubesForProperty(state.propertySize, state.sliderPosition);
-      return getResourcesFromCubes(cubes);
+      const cubes = getHomeCubes(state, state.propertySize, pricing.config);
+      return getResourcesFromCubes(cubes, pricing.config);
     }
 
     return null;
@@ -423,25 +568,26 @@ export const recommendedResources = computed(calculatorStore, (state) => {
  * Final resources (recommended or manual override)
  * Note: Inlined recommendedResources logic to avoid .get() reactivity issues in nanostores
  */
-export const finalResources = computed(calculatorStore, (state) => {
+export const finalResources = computed([calculatorStore, pricingStore], (state, pricing) => {
   // Calculate recommended resources inline (don't use .get() on other computed stores)
   let recommended = null;
 
   try {
     if (state.furnitureOnly) {
-      const hasSpecialist = state.furnitureOnly.specialistItems.length > 0;
       recommended = getResourcesForFurnitureOnly({
         itemCount: state.furnitureOnly.itemCount,
         needs2Person: state.furnitureOnly.needs2Person,
         over40kg: state.furnitureOnly.over40kg,
-        hasSpecialist,
-      });
+        specialistItems: state.furnitureOnly.specialistItems,
+      }, pricing.config);
     } else if (state.serviceType === 'office' && state.officeSize) {
-      const cubes = getCubesForOffice(state.officeSize);
-      recommended = getResourcesFromCubes(cubes);
+      const cubes = getCubesForOffice(state.officeSize, pricing.config);
+      recommended = getResourcesFromCubes(cubes, pricing.config);
+    } else if (state.serviceType === 'clearance' && state.clearance) {
+      recommended = { ...getResourcesForClearance(state.clearance, pricing.config), requiresCallback: false };
     } else if (state.propertySize && state.propertySize !== 'furniture') {
-      const cubes = getCubesForProperty(state.propertySize, state.sliderPosition);
-      recommended = getResourcesFromCubes(cubes);
+      const cubes = getHomeCubes(state, state.propertySize, pricing.config);
+      recommended = getResourcesFromCubes(cubes, pricing.config);
     }
   } catch (e) {
     console.error('finalResources calculation error:', e);
@@ -454,7 +600,7 @@ export const finalResources = computed(calculatorStore, (state) => {
     return {
       men: state.manualMen,
       vans: state.manualVans,
-      loadTime: recommended.loadTime,
+      loadTime: scaleLoadTime(recommended.loadTime, recommended.men, state.manualMen, pricing.config),
       requiresCallback: recommended.requiresCallback,
     };
   }
@@ -466,33 +612,77 @@ export const finalResources = computed(calculatorStore, (state) => {
  * Whether callback is required
  * Note: Inlined cubes calculation to avoid .get() reactivity issues
  */
-export const requiresCallback = computed(calculatorStore, (state) => {
-  // Specialist furniture items
-  if (state.furnitureOnly?.specialistItems.length) {
+export const requiresCallback = computed([calculatorStore, pricingStore], (state, pricing) => {
+  // Specialist furniture items we can't price
+  if (state.furnitureOnly && requiresSpecialistCallback(state.furnitureOnly.specialistItems)) {
     return { required: true, reason: 'specialist_items' };
   }
 
   // Calculate cubes inline (don't use .get() on other computed stores)
   let cubes = 0;
   if (state.serviceType === 'office' && state.officeSize) {
-    cubes = getCubesForOffice(state.officeSize);
+    cubes = getCubesForOffice(state.officeSize, pricing.config);
   } else if (state.propertySize && state.propertySize !== 'furniture') {
-    cubes = getCubesForProperty(state.propertySize, state.sliderPosition);
+    cubes = getHomeCubes(state, state.propertySize, pricing.config);
   }
 
   // Large property (> 2000 cubes)
-  if (cubes > CALCULATOR_CONFIG.thresholds.callbackRequired) {
+  if (cubes > pricing.config.thresholds.callbackRequired) {
     return { required: true, reason: 'large_property' };
   }
 
   return { required: false };
 });
 
+/**
+ * Quote input from the calculator state (once the route is known)
+ */
+function getQuoteInput(
+  state: CalculatorState,
+  distances: DistanceData,
+  promo: PromoDiscount | null
+): QuoteInput {
+  return {
+    serviceType: state.serviceType || 'home',
+    propertySize: state.propertySize || undefined,
+    sliderPosition: state.sliderPosition,
+    inventory: state.useInventory && state.inventory.length > 0 ? state.inventory : undefined,
+    officeSize: state.officeSize || undefined,
+    clearance: state.clearance || undefined,
+    furnitureOnly: state.furnitureOnly ? {
+      itemCount: state.furnitureOnly.itemCount,
+      needs2Person: state.furnitureOnly.needs2Person,
+      over40kg: state.furnitureOnly.over40kg,
+      specialistItems: state.furnitureOnly.specialistItems,
+    } : undefined,
+    complications: state.complications || [],
+    propertyChain: state.propertyChain || false,
+    access: {
+      from: getAddressAccess(state.fromAddress),
+      to: getAddressAccess(state.toAddress),
+    },
+    stops: state.stops.map(stop => ({ type: stop.type, access: getAddressAccess(stop) })),
+    depot: distances.depot,
+    route: {
+      points: getRoutePoints([state.fromAddress, ...state.stops, state.toAddress]),
+      path: distances.path,
+    },
+    selectedDate: state.selectedDate || undefined,
+    dateFlexibility: state.dateFlexibility || undefined,
+    distances,
+    extras: state.extras,
+    manualOverride: state.useManualOverride && state.manualMen && state.manualVans
+      ? { men: state.manualMen, vans: state.manualVans }
+      : undefined,
+    promo: promo && promo.code === state.promoCode ? promo : undefined,
+  };
+}
+
 /**
  * Full quote calculation
  * Note: All calculations inlined to avoid .get() reactivity issues in nanostores
  */
-export const quoteResult = computed(calculatorStore, (state): QuoteResult | null => {
+export const quoteResult = computed([calculatorStore, pricingStore, promoStore], (state, pricing, promo): QuoteResult | null => {
   // Need minimum data
   if (!state.distances) return null;
 
@@ -500,19 +690,20 @@ export const quoteResult = computed(calculatorStore, (state): QuoteResult | null
   let resources = null;
   try {
     if (state.furnitureOnly) {
-      const hasSpecialist = state.furnitureOnly.specialistItems.length > 0;
       resources = getResourcesForFurnitureOnly({
         itemCount: state.furnitureOnly.itemCount,
         needs2Person: state.furnitureOnly.needs2Person,
         over40kg: state.furnitureOnly.over40kg,
-        hasSpecialist,
-      });
+        specialistItems: state.furnitureOnly.specialistItems,
+      }, pricing.config);
     } else if (state.serviceType === 'office' && state.officeSize) {
-      const cubes = getCubesForOffice(state.officeSize);
-      resources = getResourcesFromCubes(cubes);
+      const cubes = getCubesForOffice(state.officeSize, pricing.config);
+      resources = getResourcesFromCubes(cubes, pricing.config);
+    } else if (state.serviceType === 'clearance' && state.clearance) {
+      resources = getResourcesForClearance(state.clearance, pricing.config);
     } else if (state.propertySize && state.propertySize !== 'furniture') {
-      const cubes = getCubesForProperty(state.propertySize, state.sliderPosition);
-      resources = getResourcesFromCubes(cubes);
+      const cubes = getHomeCubes(state, state.propertySize, pricing.config);
+      resources = getResourcesFromCubes(cubes, pricing.config);
     }
 
     // Apply manual override if set
@@ -531,71 +722,53 @@ export const quoteResult = computed(calculatorStore, (state): QuoteResult | null
   if (!resources) return null;
 
   // Check for callback requirement inline
-  if (state.furnitureOnly?.specialistItems.length) {
+  if (state.furnitureOnly && requiresSpecialistCallback(state.furnitureOnly.specialistItems)) {
     return null; // Requires callback
   }
   let cubes = 0;
   if (state.serviceType === 'office' && state.officeSize) {
-    cubes = getCubesForOffice(state.officeSize);
+    cubes = getCubesForOffice(state.officeSize, pricing.config);
   } else if (state.propertySize && state.propertySize !== 'furniture') {
-    cubes = getCubesForProperty(state.propertySize, state.sliderPosition);
+    cubes = getHomeCubes(state, state.propertySize, pricing.config);
   }
-  if (cubes > CALCULATOR_CONFIG.thresholds.callbackRequired) {
+  if (cubes > pricing.config.thresholds.callbackRequired) {
     return null; // Requires callback
   }
 
   try {
-    return calculateQuote({
-      serviceType: state.serviceType || 'home',
-      propertySize: state.propertySize || undefined,
-      sliderPosition: state.sliderPosition,
-      officeSize: state.officeSize || undefined,
-      furnitureOnly: state.furnitureOnly ? {
-        itemCount: state.furnitureOnly.itemCount,
-        needs2Person: state.furnitureOnly.needs2Person,
-        over40kg: state.furnitureOnly.over40kg,
-        hasSpecialist: state.furnitureOnly.specialistItems.length > 0,
-      } : undefined,
-      complications: state.complications || [],
-      propertyChain: state.propertyChain || false,
-      distances: state.distances,
-      extras: state.extras,
-      manualOverride: state.useManualOverride && state.manualMen && state.manualVans
-        ? { men: state.manualMen, vans: state.manualVans }
-        : undefined,
-    });
+    return calculateQuote(getQuoteInput(state, state.distances, promo), pricing.config, { range: true });
   } catch (e) {
     console.error('Quote calculation error:', e);
     return null;
   }
 });
 
+/**
+ * Good / Better / Best packages priced for the current move (Step 12)
+ */
+export const quotePackages = computed([quoteResult, calculatorStore, pricingStore, promoStore], (quote, state, pricing, promo): QuotePackage[] => {
+  // Only offered once the move itself can be quoted
+  if (!quote || !state.distances) return [];
+
+  try {
+    return getPackages(getQuoteInput(state, state.distances, promo), pricing.config);
+  } catch (e) {
+    console.error('Package calculation error:', e);
+    return [];
+  }
+});
+
 // ===================
 // ACTIONS
 // ===================
 
 /**
- * Parse step number from URL pathname
- * e.g., /calculator/step-01 → 1, /calculator/step-10a → 10.1
+ * Step for the current page, e.g. /calculator/step-10a → 'step-10a'
  */
-function getStepFromUrl(): number | null {
+function getStepFromUrl(): StepId | null {
   if (typeof window === 'undefined') return null;
 
-  const path = window.location.pathname;
-  const match = path.match(/\/calculator\/step-(\d+)([a-d])?/);
-
-  if (!match) return null;
-
-  const stepNum = parseInt(match[1], 10);
-  const subStep = match[2];
-
-  // Handle sub-steps (10a → 10.1, 10b → 10.2, etc.)
-  if (subStep) {
-    const subStepMap: Record<string, number> = { a: 0.1, b: 0.2, c: 0.3, d: 0.4 };
-    return stepNum + (subStepMap[subStep] || 0);
-  }
-
-  return stepNum;
+  return getStepFromPath(window.location.pathname);
 }
 
 /**
@@ -618,31 +791,42 @@ export function syncStepFromUrl() {
 export function initializeStore() {
   const now = new Date().toISOString();
 
+  // Fetch current rates in the background - quotes re-compute when they arrive
+  void loadPricing();
+
   // Try to restore from localStorage
   if (typeof window !== 'undefined') {
+    const resumeToken = new URLSearchParams(window.location.search).get('resume');
     const saved = localStorage.getItem(STORAGE.CALCULATOR_STATE_KEY);
     if (saved) {
       try {
-        const rawParsed = JSON.parse(saved);
+        // Upgrade older saves, then validate with Zod schema to prevent XSS/malicious data
+        const parsed = restoreSavedState(JSON.parse(saved));
 
-        // Validate with Zod schema to prevent XSS/malicious data
-        const validationResult = LocalStorageStateSchema.safeParse(rawParsed);
-
-        if (!validationResult.success) {
-          console.warn('Invalid localStorage data, resetting state:', validationResult.error.issues);
+        if (!parsed) {
+          console.warn('Invalid localStorage data, resetting state');
           localStorage.removeItem(STORAGE.CALCULATOR_STATE_KEY);
         } else {
-          const parsed = validationResult.data;
 
           // Check if not too old
           const savedDate = new Date(parsed.lastUpdatedAt || 0);
           const daysDiff = (Date.now() - savedDate.getTime()) / (1000 * 60 * 60 * 24);
 
           if (daysDiff < STORAGE.STATE_EXPIRY_DAYS) {
-            // Type assertion needed because Zod validates the structure but returns looser types
-            calculatorStore.set({ ...initialState, ...parsed as Partial<CalculatorState>, lastUpdatedAt: now });
+            calculatorStore.set({ ...initialState, ...parsed, lastUpdatedAt: now });
+            // Re-check a restored promo code - it may have expired since
+            if (parsed.promoCode) {
+              void applyPromoCode(parsed.promoCode);
+            }
             // Sync step from URL in case user used browser back/forward
             syncStepFromUrl();
+            // Opened from a resume link - compare with the saved copy
+            if (resumeToken) {
+              void resumeSession(resumeToken, {
+                lastUpdatedAt: parsed.lastUpdatedAt,
+                currentStep: parsed.currentStep,
+              });
+            }
             return;
           }
         }
@@ -663,22 +847,207 @@ export function initializeStore() {
 
     // Sync step from URL
     syncStepFromUrl();
+
+    // Opened from a resume link on a new device
+    if (resumeToken) {
+      void resumeSession(resumeToken, null);
+    }
   }
 
   calculatorStore.setKey('startedAt', now);
   calculatorStore.setKey('lastUpdatedAt', now);
 }
 
+const PricingResponseSchema = z.object({
+  version: z.number().int().nonnegative(),
+  config: pricingConfigSchema,
+});
+
+/**
+ * Load the active pricing version from the server (once per page load)
+ * Falls back to the bundled config if the request fails
+ */
+let pricingRequested = false;
+
+export async function loadPricing() {
+  if (typeof window === 'undefined' || pricingRequested) return;
+  pricingRequested = true;
+
+  try {
+    const response = await fetch('/api/pricing');
+    if (!response.ok) return;
+
+    const result = PricingResponseSchema.safeParse(await response.json());
+
+    if (result.success) {
+      pricingStore.set({ version: result.data.version, config: result.data.config });
+    }
+  } catch (e) {
+    console.warn('Failed to load pricing, using bundled rates:', e);
+  } finally {
+    pricingLoaded.set(true);
+  }
+}
+
 /**
  * Save state to localStorage
  */
 export function saveState() {
   if (typeof window === 'undefined') return;
 
-  const state = calculatorStore.get();
   calculatorStore.setKey('lastUpdatedAt', new Date().toISOString());
+  const state = calculatorStore.get();
 
   localStorage.setItem(STORAGE.CALCULATOR_STATE_KEY, JSON.stringify(state));
+
+  if (state.serverSync) {
+    scheduleSessionSync();
+    // Steps no longer unload the page - flush when the customer leaves it
+    window.addEventListener('pagehide', flushSessionSync);
+  }
+
+  scheduleDraftLeadSave(state);
+}
+
+/**
+ * Server copy sync (debounced) - flushed before leaving the page
+ */
+let sessionSyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+let isResumingSession = false;
+
+function scheduleSessionSync() {
+  // Don't overwrite the server copy before a resume link has been compared with it
+  if (isResumingSession) return;
+  if (sessionSyncTimer) clearTimeout(sessionSyncTimer);
+  sessionSyncTimer = setTimeout(flushSessionSync, TIMING.SESSION_SYNC_DEBOUNCE);
+}
+
+function flushSessionSync() {
+  if (!sessionSyncTimer) return;
+  clearTimeout(sessionSyncTimer);
+  sessionSyncTimer = null;
+
+  const { sessionToken } = calculatorStore.get();
+  if (!sessionToken) return;
+
+  // keepalive lets the request finish while the page unloads
+  fetch('/api/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(getSessionPayload(sessionToken)),
+    keepalive: true,
+  }).catch((e) => console.warn('Failed to sync saved session:', e));
+}
+
+/**
+ * Body for server session writes - the token is sent alongside the
+ * state, not in the copy the server keeps
+ */
+function getSessionPayload(sessionToken: string) {
+  const { sessionToken: _token, ...state } = calculatorStore.get();
+  return { state, sessionToken };
+}
+
+const SessionStartResponseSchema = z.object({
+  success: z.literal(true),
+  sessionId: z.string().uuid(),
+  sessionToken: z.string(),
+});
+
+let sessionStart: Promise<string | null> | null = null;
+
+/**
+ * Session token for server writes. The first time, the server issues a
+ * new sessionId with it, replacing the one made on this device.
+ */
+function ensureSessionToken(): Promise<string | null> {
+  const { sessionToken } = calculatorStore.get();
+  if (sessionToken) return Promise.resolve(sessionToken);
+
+  // A draft lead and a resume link can both ask at once - share the request
+  if (!sessionStart) {
+    sessionStart = startSession().finally(() => {
+      sessionStart = null;
+    });
+  }
+  return sessionStart;
+}
+
+async function startSession(): Promise<string | null> {
+  try {
+    const response = await fetch('/api/sessions/start', { method: 'POST' });
+    const result = SessionStartResponseSchema.safeParse(await response.json());
+
+    if (!result.success) {
+      console.warn('Session could not be started');
+      return null;
+    }
+
+    calculatorStore.setKey('sessionId', result.data.sessionId);
+    calculatorStore.setKey('sessionToken', result.data.sessionToken);
+    saveState();
+    return result.data.sessionToken;
+  } catch (e) {
+    console.warn('Failed to start session:', e);
+    return null;
+  }
+}
+
+/**
+ * Draft lead (abandoned quote capture) - saved once the contact step is
+ * complete, then again when the customer moves on or edits their details.
+ * The server marks it converted when the quote is saved, so none is
+ * saved from the quote step, which submits the quote itself.
+ */
+let draftLeadTimer: ReturnType<typeof setTimeout> | null = null;
+
+let lastDraftLead: string | null = null;
+
+function getDraftLeadKey(state: CalculatorState) {
+  return JSON.stringify([state.currentStep, state.serviceType, state.contact]);
+}
+
+function scheduleDraftLeadSave(state: CalculatorState) {
+  if (state.currentStep === 'step-12') return;
+  if (!getStepDefinition('step-11').isComplete(state)) return;
+  if (getDraftLeadKey(state) === lastDraftLead) return;
+
+  if (draftLeadTimer) clearTimeout(draftLeadTimer);
+  draftLeadTimer = setTimeout(flushDraftLeadSave, TIMING.STATE_SAVE_DEBOUNCE);
+  // Leaving the page is exactly when the draft matters
+  window.addEventListener('pagehide', flushDraftLeadSave);
+  // Get the session token now, so it is there when the page is left
+  void ensureSessionToken();
+}
+
+async function flushDraftLeadSave() {
+  if (!draftLeadTimer) return;
+  clearTimeout(draftLeadTimer);
+  draftLeadTimer = null;
+
+  const sessionToken = await ensureSessionToken();
+  if (!sessionToken) return;
+
+  const payload = getSessionPayload(sessionToken);
+  lastDraftLead = getDraftLeadKey(calculatorStore.get());
+
+  fetch('/api/leads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    keepalive: true,
+  }).catch((e) => console.warn('Failed to save draft lead:', e));
+}
+
+/**
+ * Drop a pending draft lead save - call before submitting the quote, so
+ * the draft can't arrive after the quote has converted it
+ */
+export function cancelDraftLeadSave() {
+  if (!draftLeadTimer) return;
+  clearTimeout(draftLeadTimer);
+  draftLeadTimer = null;
 }
 
 /**
@@ -692,36 +1061,37 @@ export function clearState() {
 }
 
 /**
- * Navigate to a step URL
+ * Navigate to a step URL without reloading the page - the step renderer
+ * follows currentStep, and back/forward come back through syncStepFromUrl
  */
-function navigateToStep(step: number) {
-  if (typeof window !== 'undefined') {
-    let stepId: string;
-
-    // Handle sub-steps (10.1, 10.2, etc.)
-    if (step === 10.1) stepId = '10a';
-    else if (step === 10.2) stepId = '10b';
-    else if (step === 10.3) stepId = '10c';
-    else if (step === 10.4) stepId = '10d';
-    else stepId = Math.floor(step).toString().padStart(2, '0');
+function navigateToStep(step: StepId) {
+  if (typeof window === 'undefined') return;
 
-    window.location.href = `/calculator/step-${stepId}`;
+  const path = getStepPath(step);
+  if (window.location.pathname !== path) {
+    window.history.pushState({ step }, '', path);
   }
 }
 
 /**
- * Go to next step in the flow (respects applicable steps)
+ * Go to next step in the flow (respects applicable steps),
+ * once the current step is complete
  */
 export function nextStep() {
-  const current = calculatorStore.get().currentStep;
+  const state = calculatorStore.get();
   const steps = applicableSteps.get();
-  const currentIndex = steps.indexOf(current);
+  const currentIndex = steps.indexOf(state.currentStep);
+
+  if (!getStepDefinition(state.currentStep).isComplete(state)) {
+    console.warn(`Step ${state.currentStep} is not complete`);
+    return;
+  }
 
   if (currentIndex >= 0 && currentIndex < steps.length - 1) {
-    const nextStepNum = steps[currentIndex + 1];
-    calculatorStore.setKey('currentStep', nextStepNum);
+    const next = steps[currentIndex + 1];
+    calculatorStore.setKey('currentStep', next);
     saveState();
-    navigateToStep(nextStepNum);
+    navigateToStep(next);
   }
 }
 
@@ -734,27 +1104,21 @@ export function prevStep() {
   const currentIndex = steps.indexOf(current);
 
   if (currentIndex > 0) {
-    const prevStepNum = steps[currentIndex - 1];
-    calculatorStore.setKey('currentStep', prevStepNum);
+    const previous = steps[currentIndex - 1];
+    calculatorStore.setKey('currentStep', previous);
     saveState();
-    navigateToStep(prevStepNum);
+    navigateToStep(previous);
   }
 }
 
 /**
  * Go to specific step
  */
-export function goToStep(step: number, navigate: boolean = true) {
-  // Allow steps 1-12 plus sub-steps 10.1-10.4
-  const isValidStep = (step >= 1 && step <= 12) ||
-    (step >= 10.1 && step <= 10.4);
-
-  if (isValidStep) {
-    calculatorStore.setKey('currentStep', step);
-    saveState();
-    if (navigate) {
-      navigateToStep(step);
-    }
+export function goToStep(step: StepId, navigate: boolean = true) {
+  calculatorStore.setKey('currentStep', step);
+  saveState();
+  if (navigate) {
+    navigateToStep(step);
   }
 }
 
@@ -768,6 +1132,7 @@ export function setServiceType(type: ServiceType) {
   calculatorStore.setKey('propertySize', null);
   calculatorStore.setKey('officeSize', null);
   calculatorStore.setKey('furnitureOnly', null);
+  calculatorStore.setKey('clearance', null);
 
   saveState();
 }
@@ -796,6 +1161,14 @@ export function setFurnitureOnly(data: FurnitureOnlyData) {
   saveState();
 }
 
+/**
+ * Set clearance details (Step 2 - Clearance)
+ */
+export function setClearance(data: ClearanceInput) {
+  calculatorStore.setKey('clearance', data);
+  saveState();
+}
+
 /**
  * Set slider position (Step 3)
  */
@@ -804,6 +1177,23 @@ export function setSliderPosition(position: SliderPosition) {
   saveState();
 }
 
+/**
+ * Switch between the slider (Step 3) and the inventory (Step 3a)
+ */
+export function setUseInventory(useInventory: boolean) {
+  calculatorStore.setKey('useInventory', useInventory);
+  saveState();
+}
+
+/**
+ * Set the quantity of an inventory item (Step 3a) - 0 removes it
+ */
+export function setInventoryQuantity(item: InventoryItemKey, quantity: number) {
+  const others = calculatorStore.get().inventory.filter(line => line.item !== item);
+  calculatorStore.setKey('inventory', quantity > 0 ? [...others, { item, quantity }] : others);
+  saveState();
+}
+
 /**
  * Set manual override (Step 4)
  */
@@ -880,6 +1270,14 @@ export function setToAddress(address: AddressData) {
   saveState();
 }
 
+/**
+ * Set extra stops between the from and to addresses (Step 8)
+ */
+export function setStops(stops: StopData[]) {
+  calculatorStore.setKey('stops', stops);
+  saveState();
+}
+
 /**
  * Set distances (after both addresses are set)
  */
@@ -936,16 +1334,7 @@ export function setPackingTier(tier: PackingTier) {
  */
 export function setDisassemblyItems(items: DisassemblyItem[]) {
   const current = calculatorStore.get().extras;
-  // Also update legacy assembly field for backwards compatibility
-  const legacyAssembly = items.map(item => ({
-    type: item.category,
-    quantity: item.quantity,
-  }));
-  calculatorStore.setKey('extras', {
-    ...current,
-    disassemblyItems: items,
-    assembly: legacyAssembly,
-  });
+  calculatorStore.setKey('extras', { ...current, disassemblyItems: items });
   saveState();
 }
 
@@ -971,36 +1360,39 @@ export function setStorageDetails(size: keyof typeof CALCULATOR_CONFIG.storage,
     ...current,
     storageSize: size,
     storageWeeks: weeks,
-    storage: size, // Legacy field
   });
   saveState();
 }
 
 /**
- * Add assembly item
+ * Set goods in transit insurance (Step 10e) - null removes the cover
  */
-export function addAssemblyItem(type: keyof typeof CALCULATOR_CONFIG.assembly, quantity: number) {
-  const current = calculatorStore.get().extras.assembly;
-  const existing = current.findIndex(item => item.type === type);
-
-  if (existing >= 0) {
-    current[existing].quantity += quantity;
-  } else {
-    current.push({ type, quantity });
-  }
-
-  calculatorStore.setKey('extras', { ...calculatorStore.get().extras, assembly: [...current] });
+export function setInsurance(insurance: InsuranceInput | null) {
+  const current = calculatorStore.get().extras;
+  calculatorStore.setKey('extras', {
+    ...current,
+    insurance: insurance ?? undefined,
+  });
   saveState();
 }
 
 /**
- * Remove assembly item
+ * Switch to a package (Step 12) - sets packing, disassembly and cleaning,
+ * and the extras sub-steps to match
  */
-export function removeAssemblyItem(type: keyof typeof CALCULATOR_CONFIG.assembly) {
-  const current = calculatorStore.get().extras.assembly;
+export function selectPackage(pkg: PackageKey) {
+  const state = calculatorStore.get();
+  const extras = getPackageExtras(pkg, state.extras, state.propertySize);
+
+  const gateway: ExtrasGatewayOption[] = state.extras.gateway.filter(option => option === 'storage');
+  if (extras.packingTier) gateway.push('packing');
+  if (extras.disassemblyItems.length > 0) gateway.push('assembly');
+  if (extras.cleaningRooms) gateway.push('cleaning');
+
   calculatorStore.setKey('extras', {
-    ...calculatorStore.get().extras,
-    assembly: current.filter(item => item.type !== type),
+    ...state.extras,
+    ...extras,
+    gateway,
   });
   saveState();
 }
@@ -1014,6 +1406,169 @@ export function setContact(contact: Partial<ContactData>) {
   saveState();
 }
 
+const PromoResponseSchema = z.object({
+  success: z.literal(true),
+  promo: z.object({
+    code: z.string(),
+    type: z.enum(['percent', 'fixed']),
+    value: z.number().nonnegative(),
+    minJobValue: z.number().nullable().optional(),
+    serviceTypes: z.array(z.string()).nullable().optional(),
+  }),
+});
+
+/**
+ * Apply a promo code (Step 11) - checked with the server before it counts
+ * An invalid code is cleared and its error message returned
+ */
+export async function applyPromoCode(code: string): Promise<{ success: boolean; error?: string }> {
+  promoPending.set(true);
+
+  try {
+    const response = await fetch('/api/promo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    });
+    const body = await response.json();
+    const result = PromoResponseSchema.safeParse(body);
+
+    if (!result.success) {
+      clearPromoCode();
+      const rejected = z.object({ error: z.string() }).safeParse(body);
+      return { success: false, error: rejected.success ? rejected.data.error : 'Invalid promo code' };
+    }
+
+    promoStore.set(result.data.promo);
+    calculatorStore.setKey('promoCode', result.data.promo.code);
+    saveState();
+    return { success: true };
+  } catch (e) {
+    console.warn('Failed to check promo code:', e);
+    return { success: false, error: 'Could not check the promo code - please try again' };
+  } finally {
+    promoPending.set(false);
+  }
+}
+
+/**
+ * Remove the promo code
+ */
+export function clearPromoCode() {
+  promoStore.set(null);
+  calculatorStore.setKey('promoCode', null);
+  saveState();
+}
+
+/**
+ * Email a link to carry on from another device
+ * From then on the server copy is kept in sync with every save
+ */
+export async function sendResumeLink(email: string): Promise<{ success: boolean; error?: string }> {
+  const sessionToken = await ensureSessionToken();
+  if (!sessionToken) {
+    return { success: false, error: 'Could not send the link - please try again' };
+  }
+  saveState();
+
+  try {
+    const response = await fetch('/api/sessions/link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...getSessionPayload(sessionToken), email }),
+    });
+
+    if (!response.ok) {
+      const rejected = z.object({ error: z.string() }).safeParse(await response.json().catch(() => null));
+      return { success: false, error: rejected.success ? rejected.data.error : 'Could not send the link' };
+    }
+
+    calculatorStore.setKey('serverSync', true);
+    saveState();
+    return { success: true };
+  } catch (e) {
+    console.warn('Failed to send resume link:', e);
+    return { success: false, error: 'Could not send the link - please try again' };
+  }
+}
+
+const ResumeResponseSchema = z.object({
+  success: z.literal(true),
+  // Migrated and validated by restoreSavedState
+  state: z.record(z.unknown()),
+  sessionToken: z.string(),
+});
+
+/**
+ * Restore a saved session from a resume link
+ * Conflicts with this device's copy of the same session resolve by
+ * lastUpdatedAt - whichever was changed last wins. A different session
+ * on this device is replaced, as following the link is explicit.
+ */
+async function resumeSession(
+  token: string,
+  local: Pick<CalculatorState, 'lastUpdatedAt' | 'currentStep'> | null
+) {
+  isResumingSession = true;
+  resumePending.set(true);
+
+  // Drop the token from the address bar so a refresh doesn't resume again
+  const url = new URL(window.location.href);
+  url.searchParams.delete('resume');
+  window.history.replaceState(window.history.state, '', url);
+
+  try {
+    const response = await fetch(`/api/sessions/resume?token=${encodeURIComponent(token)}`);
+    const result = ResumeResponseSchema.safeParse(await response.json());
+
+    if (!result.success) {
+      console.warn('Resume link invalid or expired');
+      return;
+    }
+
+    const remote = restoreSavedState(result.data.state);
+    if (!remote) {
+      console.warn('Saved session could not be restored');
+      return;
+    }
+
+    const isSameSession = calculatorStore.get().sessionId === remote.sessionId;
+    isResumingSession = false;
+
+    if (isSameSession && local?.lastUpdatedAt && Date.parse(local.lastUpdatedAt) >= Date.parse(remote.lastUpdatedAt || '')) {
+      // This device is ahead - carry on where it was and push it to the server copy
+      calculatorStore.setKey('currentStep', local.currentStep);
+      calculatorStore.setKey('sessionToken', result.data.sessionToken);
+      calculatorStore.setKey('serverSync', true);
+      saveState();
+      if (local.currentStep !== getStepFromUrl()) {
+        navigateToStep(local.currentStep);
+      }
+      return;
+    }
+
+    calculatorStore.set({
+      ...initialState,
+      ...remote,
+      sessionToken: result.data.sessionToken,
+      serverSync: true,
+    });
+    saveState();
+
+    if (remote.promoCode) {
+      void applyPromoCode(remote.promoCode);
+    }
+    if (remote.currentStep !== getStepFromUrl()) {
+      navigateToStep(remote.currentStep);
+    }
+  } catch (e) {
+    console.warn('Failed to resume saved session:', e);
+  } finally {
+    isResumingSession = false;
+    resumePending.set(false);
+  }
+}
+
 /**
  * Get state for API submission
  */
@@ -1027,16 +1582,23 @@ export function getSubmissionData() {
     propertySize: state.propertySize,
     officeSize: state.officeSize,
     furnitureOnly: state.furnitureOnly,
+    clearance: state.clearance,
     sliderPosition: state.sliderPosition,
+    inventory: state.useInventory && state.inventory.length > 0 ? state.inventory : null,
+    manualOverride: state.useManualOverride && state.manualMen && state.manualVans
+      ? { men: state.manualMen, vans: state.manualVans }
+      : null,
     complications: state.complications,
     propertyChain: state.propertyChain,
     fromAddress: state.fromAddress,
     toAddress: state.toAddress,
+    stops: state.stops,
     distances: state.distances,
     dateFlexibility: state.dateFlexibility,
     selectedDate: state.selectedDate,
     extras: state.extras,
     contact: state.contact,
+    promoCode: quote?.promoCode ?? null,
 
     // Quote data
     quote: quote ? {
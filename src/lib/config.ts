@@ -29,6 +29,17 @@ export const CONFIG = {
     emailFrom: 'quotes@painlessremovals.co.uk',
     emailSupport: 'quotes@painlessremovals.co.uk',
     schemaVersion: 1,
+
+    // Server re-pricing of submitted quotes
+    priceCheck: {
+      toleranceAmount: 10, // £ difference accepted silently (rounding)
+      rejectPercent: 0.2, // Client price off by more than 20% = rejected
+    },
+
+    // Abandoned quotes - draft leads with marketing consent get a resume link
+    leadRecovery: {
+      delayHours: 24, // Since the customer's last change
+    },
   },
 
   // FEATURE FLAGS - Everything is controllable
@@ -178,6 +189,14 @@ export function getRuntimeConfig(env: any) {
         },
       },
     },
+    sessions: {
+      // Signs "continue later" resume links
+      secret: env.SESSION_SECRET || '',
+    },
+    admin: {
+      // Bearer token for admin reports (GET /api/leads/funnel)
+      apiKey: env.ADMIN_API_KEY || '',
+    },
     email: {
       resendApiKey: env.RESEND_API_KEY || '',
       from: CONFIG.calculator.emailFrom,
@@ -23,6 +23,9 @@ export const TIMING = {
 
   /** Debounce delay for state saving (ms) */
   STATE_SAVE_DEBOUNCE: 500,
+
+  /** Debounce delay for syncing the saved session server copy (ms) */
+  SESSION_SYNC_DEBOUNCE: 10000,
 } as const;
 
 // ===================
@@ -0,0 +1,137 @@
+/**
+ * DRAFT LEADS
+ *
+ * Abandoned quote capture and recovery. A calculator session becomes a
+ * draft lead as soon as it has valid contact details and consent, and is
+ * marked converted when its quote is saved. Drafts left untouched for
+ * leadRecovery.delayHours get one recovery email with a resume link -
+ * only if the customer agreed to marketing.
+ */
+
+import { CONFIG, type RuntimeConfig } from '@/lib/config';
+import type { DbClient } from '@/lib/core/db/client';
+import { getDraftLeadsForRecovery, markRecoveryEmailSent } from '@/lib/core/db/queries';
+import type { NewDraftLead, Quote } from '@/lib/core/db/schema';
+import { sendEmail } from '@/lib/core/email/sender';
+import { generateRecoveryEmail } from '@/lib/core/email/templates';
+import type { DraftLeadInput } from '@/lib/core/validations/schemas';
+import { logger } from '@/lib/utils/logger';
+import { createResumeToken, getResumeUrl } from './sessions';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AbandonmentReport {
+  /** Abandoned (not converted) draft leads */
+  total: number;
+  /** By the step the customer left on, with their share of the total */
+  steps: { step: string; count: number; percent: number }[];
+}
+
+/**
+ * Draft lead row for a validated calculator session
+ */
+export function toDraftLead(state: DraftLeadInput['state']): NewDraftLead {
+  const { contact } = state;
+
+  return {
+    sessionId: state.sessionId,
+    name: `${contact.firstName} ${contact.lastName}`,
+    email: contact.email,
+    phone: contact.phone,
+    marketingConsent: contact.marketingConsent,
+    serviceType: state.serviceType,
+    abandonedStep: state.currentStep,
+    calculatorData: state,
+  };
+}
+
+/**
+ * Converted lead row for a session whose quote has been saved. Stored even
+ * if the draft hasn't arrived yet, so a late draft save can't reopen it.
+ */
+export function toConvertedLead(sessionId: string, quote: Quote): NewDraftLead {
+  const { serviceType } = quote.calculatorData;
+
+  return {
+    sessionId,
+    name: quote.name ?? '',
+    email: quote.email ?? '',
+    phone: quote.phone,
+    serviceType: typeof serviceType === 'string' ? serviceType : null,
+    abandonedStep: 'step-12',
+    calculatorData: quote.calculatorData,
+    status: 'converted',
+    quoteId: quote.id,
+  };
+}
+
+/**
+ * Drafts due a recovery email: untouched for the delay, but recent enough
+ * that their saved session (and so the resume link) still exists
+ */
+export function getRecoveryWindow(
+  now: Date = new Date(),
+  delayHours: number = CONFIG.calculator.leadRecovery.delayHours
+): { updatedBefore: Date; updatedAfter: Date } {
+  return {
+    updatedBefore: new Date(now.getTime() - delayHours * HOUR_MS),
+    updatedAfter: new Date(now.getTime() - CONFIG.dataRetention.sessionsMaxAgeDays * 24 * HOUR_MS),
+  };
+}
+
+/**
+ * Where the funnel leaks - abandoned quotes by the step they were left on
+ */
+export function getAbandonmentReport(funnel: { step: string; count: number }[]): AbandonmentReport {
+  const total = funnel.reduce((sum, { count }) => sum + count, 0);
+
+  return {
+    total,
+    steps: funnel.map(({ step, count }) => ({
+      step,
+      count,
+      percent: total > 0 ? Math.round((count / total) * 100) : 0,
+    })),
+  };
+}
+
+/**
+ * Send recovery emails to every draft lead that is due one
+ */
+export async function sendRecoveryEmails(
+  db: DbClient,
+  config: Pick<RuntimeConfig, 'email' | 'sessions'> & { siteUrl: string },
+  now: Date = new Date(),
+  delayHours?: number
+): Promise<{ sent: number; failed: number }> {
+  const { updatedBefore, updatedAfter } = getRecoveryWindow(now, delayHours);
+  const leads = await getDraftLeadsForRecovery(db, updatedBefore, updatedAfter);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const lead of leads) {
+    const token = await createResumeToken(lead.sessionId, config.sessions.secret, now.getTime());
+
+    const result = await sendEmail(
+      {
+        to: lead.email,
+        subject: 'Your removals quote is nearly ready',
+        html: generateRecoveryEmail(lead.name, getResumeUrl(config.siteUrl, token)),
+      },
+      config.email
+    );
+
+    if (!result.success) {
+      logger.error('Leads', 'Failed to send recovery email', { id: lead.id, error: result.error });
+      failed++;
+      continue;
+    }
+
+    await markRecoveryEmailSent(db, lead.id);
+    logger.info('Leads', 'Recovery email sent', { id: lead.id, step: lead.abandonedStep });
+    sent++;
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,103 @@
+/**
+ * PRICING VERSIONS
+ *
+ * Resolve the pricing config in effect and publish new versions.
+ * Stored snapshots are re-validated on read; anything invalid falls back
+ * to the bundled config (version 0) rather than mis-pricing a quote.
+ */
+
+import {
+  DEFAULT_PRICING,
+  type PricingVersion,
+  pricingConfigSchema,
+} from '@/lib/calculator-pricing';
+import { type DbClient, createDbClient } from '@/lib/core/db/client';
+import {
+  createPricingConfig,
+  getActivePricingConfig,
+  getLatestPricingVersion,
+} from '@/lib/core/db/queries';
+import type { PricingConfigRecord } from '@/lib/core/db/schema';
+import { logger } from '@/lib/utils/logger';
+import type { ZodIssue } from 'zod';
+
+/**
+ * Get the pricing version in effect at a point in time
+ */
+export async function getActivePricing(
+  db: DbClient,
+  at: Date = new Date()
+): Promise<PricingVersion> {
+  const record = await getActivePricingConfig(db, at);
+  if (!record) return DEFAULT_PRICING;
+
+  const result = pricingConfigSchema.safeParse(record.config);
+
+  if (!result.success) {
+    logger.error('Pricing', 'Stored pricing config is invalid - using bundled rates', {
+      version: record.version,
+      issues: result.error.issues,
+    });
+    return DEFAULT_PRICING;
+  }
+
+  return { version: record.version, config: result.data };
+}
+
+/**
+ * Get the active pricing version for a request environment
+ * (bundled rates when no database is configured)
+ */
+export async function resolvePricing(env: {
+  TURSO_DATABASE_URL?: string;
+  TURSO_AUTH_TOKEN?: string;
+}): Promise<PricingVersion> {
+  if (!env.TURSO_DATABASE_URL || !env.TURSO_AUTH_TOKEN) {
+    return DEFAULT_PRICING;
+  }
+
+  try {
+    const db = createDbClient({
+      TURSO_DATABASE_URL: env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: env.TURSO_AUTH_TOKEN,
+    });
+
+    return await getActivePricing(db);
+  } catch (error) {
+    logger.error('Pricing', 'Failed to resolve pricing - using bundled rates', { error });
+    return DEFAULT_PRICING;
+  }
+}
+
+/**
+ * Validate and store a new pricing config version
+ */
+export async function publishPricingConfig(
+  db: DbClient,
+  config: unknown,
+  effectiveFrom: Date,
+  note?: string
+): Promise<
+  | { success: true; record: PricingConfigRecord }
+  | { success: false; error: string; issues?: ZodIssue[] }
+> {
+  const result = pricingConfigSchema.safeParse(config);
+
+  if (!result.success) {
+    return { success: false, error: 'Invalid pricing config', issues: result.error.issues };
+  }
+
+  const version = (await getLatestPricingVersion(db)) + 1;
+  const record = await createPricingConfig(db, {
+    version,
+    config: result.data,
+    effectiveFrom,
+    note,
+  });
+
+  if (!record) {
+    return { success: false, error: 'Failed to store pricing config' };
+  }
+
+  return { success: true, record };
+}
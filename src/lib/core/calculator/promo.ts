@@ -0,0 +1,99 @@
+/**
+ * PROMO CODES
+ *
+ * Look up promo codes and check they can be redeemed right now.
+ * Minimum job value and service type are checked by the engine
+ * (getPromoDiscount), so the calculator and the server agree on the price.
+ */
+
+import type { PromoDiscount } from '@/lib/calculator-logic';
+import { type DbClient, createDbClient } from '@/lib/core/db/client';
+import { getPromoCode } from '@/lib/core/db/queries';
+import type { PromoCodeRecord } from '@/lib/core/db/schema';
+import { logger } from '@/lib/utils/logger';
+
+export type PromoCodeStatus =
+  | 'valid'
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'used_up';
+
+export type PromoCodeCheck =
+  | { status: 'valid'; record: PromoCodeRecord; promo: PromoDiscount }
+  | { status: Exclude<PromoCodeStatus, 'valid'> };
+
+/**
+ * Codes are matched case-insensitively and stored upper-case
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check a stored promo code can be redeemed at a point in time
+ */
+export function checkPromoCode(
+  record: PromoCodeRecord | null,
+  at: Date = new Date()
+): PromoCodeCheck {
+  if (!record) return { status: 'not_found' };
+
+  if (!record.active || (record.discountType !== 'percent' && record.discountType !== 'fixed')) {
+    return { status: 'inactive' };
+  }
+  if (record.validFrom && record.validFrom > at) return { status: 'not_started' };
+  if (record.validUntil && record.validUntil < at) return { status: 'expired' };
+  if (record.maxUses !== null && record.usedCount >= record.maxUses) return { status: 'used_up' };
+
+  return {
+    status: 'valid',
+    record,
+    promo: {
+      code: record.code,
+      type: record.discountType,
+      value: record.discountValue,
+      minJobValue: record.minJobValue,
+      serviceTypes: record.serviceTypes,
+    },
+  };
+}
+
+/**
+ * Look up and check a promo code
+ */
+export async function getPromo(
+  db: DbClient,
+  code: string,
+  at: Date = new Date()
+): Promise<PromoCodeCheck> {
+  const record = await getPromoCode(db, normalizePromoCode(code));
+  return checkPromoCode(record, at);
+}
+
+/**
+ * Get the discount for a promo code in a request environment
+ * (undefined when there is no database or the code can't be redeemed)
+ */
+export async function resolvePromo(
+  env: { TURSO_DATABASE_URL?: string; TURSO_AUTH_TOKEN?: string },
+  code?: string
+): Promise<PromoDiscount | undefined> {
+  if (!code || !env.TURSO_DATABASE_URL || !env.TURSO_AUTH_TOKEN) {
+    return undefined;
+  }
+
+  try {
+    const db = createDbClient({
+      TURSO_DATABASE_URL: env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: env.TURSO_AUTH_TOKEN,
+    });
+
+    const check = await getPromo(db, code);
+    return check.status === 'valid' ? check.promo : undefined;
+  } catch (error) {
+    logger.error('Promo', 'Failed to resolve promo code', { error });
+    return undefined;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * SAVED SESSIONS
+ *
+ * Server copy of the calculator state for "save and continue later".
+ * State is kept in the SESSIONS KV namespace by sessionId and reopened
+ * on another device with a signed resume link. The calculator validates
+ * the full state when it restores it, so it is stored as-is here.
+ *
+ * Session ids are issued by the server with a signed session token, and
+ * writes must present it - knowing a sessionId isn't enough to change it.
+ */
+
+import { CONFIG } from '@/lib/config';
+import { generateHMAC, verifyHMAC } from '@/lib/utils/fingerprint';
+import { type KVNamespace, kvGet, kvPut } from '@/lib/utils/kv';
+import { logger } from '@/lib/utils/logger';
+
+export interface SessionState {
+  sessionId: string;
+  lastUpdatedAt: string;
+  [key: string]: unknown;
+}
+
+const SESSION_TTL_SECONDS = CONFIG.dataRetention.sessionsMaxAgeDays * 24 * 60 * 60;
+
+function getSessionKey(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+/**
+ * Get a saved session
+ */
+export async function getSession(
+  kv: KVNamespace | null,
+  sessionId: string
+): Promise<SessionState | null> {
+  const value = await kvGet<string>(kv, getSessionKey(sessionId));
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value) as SessionState;
+  } catch (error) {
+    logger.error('Sessions', 'Saved session is not valid JSON', { error, sessionId });
+    return null;
+  }
+}
+
+/**
+ * Save a session - a newer saved copy (from another device) wins,
+ * so returns false when the state was stale and not saved.
+ * lastUpdatedAt is capped at the server clock, so a copy dated in the
+ * future can't lock out every later change.
+ */
+export async function saveSession(
+  kv: KVNamespace | null,
+  state: SessionState,
+  now: number = Date.now()
+): Promise<boolean> {
+  const lastUpdatedAt = new Date(Math.min(Date.parse(state.lastUpdatedAt), now)).toISOString();
+  const saved = await getSession(kv, state.sessionId);
+
+  if (saved && Date.parse(saved.lastUpdatedAt) > Date.parse(lastUpdatedAt)) {
+    logger.debug('Sessions', 'Kept newer saved session', { sessionId: state.sessionId });
+    return false;
+  }
+
+  return kvPut(kv, getSessionKey(state.sessionId), JSON.stringify({ ...state, lastUpdatedAt }), {
+    expirationTtl: SESSION_TTL_SECONDS,
+  });
+}
+
+/**
+ * Sign a session token for a server-issued sessionId
+ */
+export function createSessionToken(sessionId: string, secret: string): Promise<string> {
+  return generateHMAC(`session:${sessionId}`, secret);
+}
+
+/**
+ * Check a session token belongs to the sessionId it is sent with
+ */
+export function verifySessionToken(
+  sessionId: string,
+  token: string,
+  secret: string
+): Promise<boolean> {
+  return verifyHMAC(`session:${sessionId}`, token, secret);
+}
+
+/**
+ * Sign a resume link token: "<sessionId>.<expiry ms>.<signature>"
+ * Links last as long as the saved session
+ */
+export async function createResumeToken(
+  sessionId: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<string> {
+  const payload = `${sessionId}.${now + SESSION_TTL_SECONDS * 1000}`;
+  const signature = await generateHMAC(payload, secret);
+
+  return `${payload}.${signature}`;
+}
+
+/**
+ * Calculator link that restores a saved session on any device
+ */
+export function getResumeUrl(siteUrl: string, token: string): string {
+  return `${siteUrl}/calculator/step-01?resume=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Check a resume link token
+ * Returns the sessionId, or null if the token is invalid or expired
+ */
+export async function readResumeToken(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<string | null> {
+  const [sessionId, expiresAt, signature, ...rest] = token.split('.');
+
+  if (!sessionId || !expiresAt || !signature || rest.length > 0) return null;
+  if (!(Number(expiresAt) > now)) return null;
+
+  const valid = await verifyHMAC(`${sessionId}.${expiresAt}`, signature, secret);
+  return valid ? sessionId : null;
+}
@@ -14,7 +14,6 @@ export interface Step {
   order: number;
   title: Record<Locale, string>;
   description?: Record<Locale, string>;
-  component: string;
   validation?: (data: CalculatorData) => boolean;
   calculate?: (data: CalculatorData) => Partial<CalculatorResult>;
 }
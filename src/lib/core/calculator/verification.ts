@@ -0,0 +1,129 @@
+/**
+ * QUOTE VERIFICATION
+ *
+ * Server-side re-pricing of submitted quotes.
+ * The client price is never trusted - it is only compared for audit.
+ */
+
+import {
+  type PromoDiscount,
+  type QuoteInput,
+  type QuoteResult,
+  calculateQuote,
+  getAddressAccess,
+  getRoutePoints,
+} from '@/lib/calculator-logic';
+import type { PricingConfig } from '@/lib/calculator-pricing';
+import type { AddressData, DistanceData, StopData } from '@/lib/calculator-store';
+import { CONFIG } from '@/lib/config';
+import { quoteInputSchema } from '@/lib/core/validations/schemas';
+import { logger } from '@/lib/utils/logger';
+
+export type PriceCheckStatus = 'match' | 'flagged' | 'rejected';
+
+export interface PriceCheck {
+  status: PriceCheckStatus;
+  clientPrice: number;
+  serverPrice: number;
+  difference: number;
+}
+
+/**
+ * Rebuild a QuoteInput from the calculator submission data
+ * (the shape produced by getSubmissionData in the calculator store)
+ */
+export function buildQuoteInput(data: Record<string, unknown>): QuoteInput | null {
+  const furnitureOnly = data.furnitureOnly as
+    | { itemCount: number; needs2Person: boolean; over40kg: boolean; specialistItems?: string[] }
+    | null
+    | undefined;
+
+  const fromAddress = data.fromAddress as AddressData | null | undefined;
+  const toAddress = data.toAddress as AddressData | null | undefined;
+  const stops = data.stops as StopData[] | undefined;
+  const distances = data.distances as DistanceData | null | undefined;
+
+  const candidate = {
+    serviceType: data.serviceType,
+    propertySize: data.propertySize ?? undefined,
+    sliderPosition: data.sliderPosition ?? undefined,
+    inventory: data.inventory ?? undefined,
+    officeSize: data.officeSize ?? undefined,
+    clearance: data.clearance ?? undefined,
+    furnitureOnly: furnitureOnly
+      ? {
+          itemCount: furnitureOnly.itemCount,
+          needs2Person: furnitureOnly.needs2Person,
+          over40kg: furnitureOnly.over40kg,
+          specialistItems: furnitureOnly.specialistItems ?? [],
+        }
+      : undefined,
+    complications: data.complications ?? [],
+    propertyChain: data.propertyChain ?? false,
+    access: {
+      from: getAddressAccess(fromAddress),
+      to: getAddressAccess(toAddress),
+    },
+    stops: stops?.map((stop) => ({ type: stop.type, access: getAddressAccess(stop) })),
+    depot: distances?.depot,
+    route: {
+      points: getRoutePoints([fromAddress, ...(stops ?? []), toAddress]),
+      path: distances?.path,
+    },
+    selectedDate: data.selectedDate ?? undefined,
+    dateFlexibility: data.dateFlexibility ?? undefined,
+    distances,
+    extras: data.extras ?? {},
+    manualOverride: data.manualOverride ?? undefined,
+  };
+
+  const result = quoteInputSchema.safeParse(candidate);
+
+  if (!result.success) {
+    logger.warn('Quote', 'Submission could not be rebuilt into a quote input', {
+      issues: result.error.issues,
+    });
+    return null;
+  }
+
+  return result.data;
+}
+
+/**
+ * Compare the client-submitted price with the server figure
+ */
+export function checkClientPrice(clientPrice: number, serverPrice: number): PriceCheck {
+  const { toleranceAmount, rejectPercent } = CONFIG.calculator.priceCheck;
+  const difference = clientPrice - serverPrice;
+  const absDifference = Math.abs(difference);
+
+  let status: PriceCheckStatus = 'match';
+  if (absDifference > toleranceAmount) {
+    status = absDifference > serverPrice * rejectPercent ? 'rejected' : 'flagged';
+  }
+
+  return { status, clientPrice, serverPrice, difference };
+}
+
+/**
+ * Re-price a submission on the server and check it against the client figure
+ * (the promo discount is the server's lookup, never the client's)
+ */
+export function verifySubmittedQuote(
+  data: Record<string, unknown>,
+  clientPrice: number,
+  config: PricingConfig,
+  promo?: PromoDiscount
+): { input: QuoteInput; quote: QuoteResult; check: PriceCheck } | null {
+  const input = buildQuoteInput(data);
+  if (!input) return null;
+
+  const quote = calculateQuote({ ...input, promo }, config);
+  const check = checkClientPrice(clientPrice, quote.totalPrice);
+
+  if (check.status !== 'match') {
+    logger.warn('Quote', 'Client price differs from server price', { ...check });
+  }
+
+  return { input, quote, check };
+}
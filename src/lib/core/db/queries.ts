@@ -5,9 +5,21 @@
  */
 
 import { logger } from '@/lib/utils/logger';
-import { and, desc, eq, gte, isNull, lt, sql } from 'drizzle-orm';
+import { and, desc, eq, gte, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
 import type { DbClient } from './client';
-import { type NewQuote, type Quote, quotes } from './schema';
+import {
+  type DraftLead,
+  type NewDraftLead,
+  type NewPricingConfigRecord,
+  type NewQuote,
+  type PricingConfigRecord,
+  type PromoCodeRecord,
+  type Quote,
+  draftLeads,
+  pricingConfigs,
+  promoCodes,
+  quotes,
+} from './schema';
 
 /**
  * Create a new quote
@@ -241,3 +253,243 @@ export async function getQuoteStats(db: DbClient): Promise<{
     return { total: 0, today: 0, thisWeek: 0, thisMonth: 0 };
   }
 }
+
+/**
+ * Get the pricing config version in effect at a point in time
+ */
+export async function getActivePricingConfig(
+  db: DbClient,
+  at: Date = new Date()
+): Promise<PricingConfigRecord | null> {
+  try {
+    const result = await db
+      .select()
+      .from(pricingConfigs)
+      .where(lte(pricingConfigs.effectiveFrom, at))
+      .orderBy(desc(pricingConfigs.effectiveFrom), desc(pricingConfigs.version))
+      .limit(1)
+      .get();
+
+    return result || null;
+  } catch (error) {
+    logger.error('DB', 'Failed to get active pricing config', { error });
+    return null;
+  }
+}
+
+/**
+ * Get the highest pricing config version (0 if none are stored)
+ */
+export async function getLatestPricingVersion(db: DbClient): Promise<number> {
+  try {
+    const result = await db
+      .select({ version: sql<number | null>`max(${pricingConfigs.version})` })
+      .from(pricingConfigs)
+      .get();
+
+    return result?.version ?? 0;
+  } catch (error) {
+    logger.error('DB', 'Failed to get latest pricing version', { error });
+    return 0;
+  }
+}
+
+/**
+ * Store a new pricing config version
+ */
+export async function createPricingConfig(
+  db: DbClient,
+  data: NewPricingConfigRecord
+): Promise<PricingConfigRecord | null> {
+  try {
+    const result = await db.insert(pricingConfigs).values(data).returning().get();
+
+    logger.info('DB', 'Pricing config created', {
+      version: result.version,
+      effectiveFrom: result.effectiveFrom,
+    });
+    return result;
+  } catch (error) {
+    logger.error('DB', 'Failed to create pricing config', { error, version: data.version });
+    return null;
+  }
+}
+
+/**
+ * Get a promo code by its (upper-case) code
+ */
+export async function getPromoCode(db: DbClient, code: string): Promise<PromoCodeRecord | null> {
+  try {
+    const result = await db.select().from(promoCodes).where(eq(promoCodes.code, code)).get();
+
+    return result || null;
+  } catch (error) {
+    logger.error('DB', 'Failed to get promo code', { error, code });
+    return null;
+  }
+}
+
+/**
+ * Count a redemption against a promo code
+ * Returns false when the usage cap has been reached in the meantime
+ */
+export async function redeemPromoCode(db: DbClient, id: number): Promise<boolean> {
+  try {
+    const result = await db
+      .update(promoCodes)
+      .set({ usedCount: sql`${promoCodes.usedCount} + 1` })
+      .where(
+        and(
+          eq(promoCodes.id, id),
+          or(isNull(promoCodes.maxUses), lt(promoCodes.usedCount, promoCodes.maxUses))
+        )
+      )
+      .returning({ id: promoCodes.id })
+      .get();
+
+    return result !== undefined;
+  } catch (error) {
+    logger.error('DB', 'Failed to redeem promo code', { error, id });
+    return false;
+  }
+}
+
+/**
+ * Give back a redemption claimed for a quote that then failed to save
+ */
+export async function releasePromoCode(db: DbClient, id: number): Promise<boolean> {
+  try {
+    const result = await db
+      .update(promoCodes)
+      .set({ usedCount: sql`max(${promoCodes.usedCount} - 1, 0)` })
+      .where(eq(promoCodes.id, id))
+      .returning({ id: promoCodes.id })
+      .get();
+
+    return result !== undefined;
+  } catch (error) {
+    logger.error('DB', 'Failed to release promo code', { error, id });
+    return false;
+  }
+}
+
+/**
+ * Create or update the draft lead for a calculator session
+ * A converted lead is left as it is - returns false in that case
+ */
+export async function upsertDraftLead(db: DbClient, data: NewDraftLead): Promise<boolean> {
+  try {
+    const { sessionId, ...update } = data;
+    const result = await db
+      .insert(draftLeads)
+      .values(data)
+      .onConflictDoUpdate({
+        target: draftLeads.sessionId,
+        set: { ...update, updatedAt: new Date() },
+        setWhere: ne(draftLeads.status, 'converted'),
+      })
+      .returning({ id: draftLeads.id })
+      .get();
+
+    return result !== undefined;
+  } catch (error) {
+    logger.error('DB', 'Failed to save draft lead', { error, sessionId: data.sessionId });
+    return false;
+  }
+}
+
+/**
+ * Mark a session's draft lead as converted once its quote is saved
+ * Inserts the converted lead if its draft hasn't been saved yet
+ */
+export async function markDraftLeadConverted(db: DbClient, data: NewDraftLead): Promise<boolean> {
+  try {
+    const result = await db
+      .insert(draftLeads)
+      .values({ ...data, status: 'converted' })
+      .onConflictDoUpdate({
+        target: draftLeads.sessionId,
+        set: { status: 'converted', quoteId: data.quoteId, updatedAt: new Date() },
+      })
+      .returning({ id: draftLeads.id })
+      .get();
+
+    return result !== undefined;
+  } catch (error) {
+    logger.error('DB', 'Failed to mark draft lead converted', {
+      error,
+      sessionId: data.sessionId,
+      quoteId: data.quoteId,
+    });
+    return false;
+  }
+}
+
+/**
+ * Draft leads due a recovery email - untouched since updatedBefore (but not
+ * before updatedAfter), marketing consent given and no email sent yet
+ */
+export async function getDraftLeadsForRecovery(
+  db: DbClient,
+  updatedBefore: Date,
+  updatedAfter: Date
+): Promise<DraftLead[]> {
+  try {
+    return await db
+      .select()
+      .from(draftLeads)
+      .where(
+        and(
+          eq(draftLeads.status, 'draft'),
+          eq(draftLeads.marketingConsent, true),
+          lte(draftLeads.updatedAt, updatedBefore),
+          gte(draftLeads.updatedAt, updatedAfter)
+        )
+      )
+      .orderBy(draftLeads.updatedAt)
+      .all();
+  } catch (error) {
+    logger.error('DB', 'Failed to get draft leads for recovery', { error });
+    return [];
+  }
+}
+
+/**
+ * Record that a draft lead's recovery email was sent
+ * (a lead converted in the meantime keeps its converted status)
+ */
+export async function markRecoveryEmailSent(db: DbClient, id: number): Promise<boolean> {
+  try {
+    const result = await db
+      .update(draftLeads)
+      .set({ status: 'recovery_sent', recoveryEmailSentAt: new Date() })
+      .where(and(eq(draftLeads.id, id), eq(draftLeads.status, 'draft')))
+      .returning({ id: draftLeads.id })
+      .get();
+
+    return result !== undefined;
+  } catch (error) {
+    logger.error('DB', 'Failed to mark recovery email sent', { error, id });
+    return false;
+  }
+}
+
+/**
+ * Abandoned (not converted) draft leads by the step the customer left on
+ */
+export async function getAbandonmentFunnel(
+  db: DbClient
+): Promise<{ step: string; count: number }[]> {
+  try {
+    return await db
+      .select({ step: draftLeads.abandonedStep, count: sql<number>`count(*)` })
+      .from(draftLeads)
+      .where(ne(draftLeads.status, 'converted'))
+      .groupBy(draftLeads.abandonedStep)
+      .orderBy(draftLeads.abandonedStep)
+      .all();
+  } catch (error) {
+    logger.error('DB', 'Failed to get abandonment funnel', { error });
+    return [];
+  }
+}
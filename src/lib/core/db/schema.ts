@@ -1,3 +1,4 @@
+import type { InventoryLine, PriceItem } from '@/lib/calculator-logic';
 import { sql } from 'drizzle-orm';
 import { index, integer, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
 
@@ -64,6 +65,29 @@ export const quotes = sqliteTable(
     totalPrice: real('total_price').notNull(),
     currency: text('currency').notNull().default('HUF'),
     breakdown: text('breakdown', { mode: 'json' }).$type<Record<string, number>>(),
+    netPrice: real('net_price'), // totalPrice ex. VAT
+    vatAmount: real('vat_amount'),
+    priceItems: text('price_items', { mode: 'json' }).$type<PriceItem[]>(),
+
+    // Room-by-room inventory, when the customer listed their items
+    inventory: text('inventory', { mode: 'json' }).$type<InventoryLine[]>(),
+
+    // Price audit (totalPrice is always the server-computed figure)
+    clientTotalPrice: real('client_total_price'),
+    priceFlagged: integer('price_flagged', { mode: 'boolean' }).notNull().default(false),
+
+    // Pricing config version the quote was priced with (0 = bundled defaults)
+    pricingVersion: integer('pricing_version').notNull().default(0),
+
+    // Promo code redeemed (campaign attribution)
+    promoCode: text('promo_code'),
+
+    // Branch (depot key) the job runs from
+    branch: text('branch'),
+
+    // Goods in transit insurance (cover level and the customer's declared value)
+    insuranceCover: text('insurance_cover'),
+    declaredValue: real('declared_value'),
 
     // Contact info
     name: text('name'),
@@ -112,6 +136,8 @@ export const quotes = sqliteTable(
     statusIdx: index('status_idx').on(table.status),
     crmSyncedIdx: index('crm_synced_idx').on(table.crmSynced),
     emailIdx: index('email_idx').on(table.email),
+    promoCodeIdx: index('promo_code_idx').on(table.promoCode),
+    branchIdx: index('branch_idx').on(table.branch),
   })
 );
 
@@ -159,6 +185,92 @@ export const testimonials = sqliteTable('testimonials', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
 });
 
+/**
+ * Pricing config versions
+ * Snapshots of the pricing config, validated against pricingConfigSchema on
+ * read and write. The latest version with effectiveFrom <= now is active.
+ */
+export const pricingConfigs = sqliteTable(
+  'pricing_configs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    version: integer('version').notNull().unique(),
+    config: text('config', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+    effectiveFrom: integer('effective_from', { mode: 'timestamp' }).notNull(),
+    note: text('note'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    effectiveFromIdx: index('pricing_effective_from_idx').on(table.effectiveFrom),
+  })
+);
+
+/**
+ * Promo codes table
+ * Percentage (10 = 10% off) or fixed (pounds off) discounts
+ */
+export const promoCodes = sqliteTable('promo_codes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  code: text('code').notNull().unique(), // Stored upper-case
+  discountType: text('discount_type').notNull(), // 'percent' | 'fixed'
+  discountValue: real('discount_value').notNull(),
+
+  // Validity window (open-ended when null)
+  validFrom: integer('valid_from', { mode: 'timestamp' }),
+  validUntil: integer('valid_until', { mode: 'timestamp' }),
+
+  // Usage cap (unlimited when null)
+  maxUses: integer('max_uses'),
+  usedCount: integer('used_count').notNull().default(0),
+
+  // Restrictions
+  minJobValue: real('min_job_value'),
+  serviceTypes: text('service_types', { mode: 'json' }).$type<string[]>(), // All when null
+
+  campaign: text('campaign'),
+  active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+});
+
+/**
+ * Draft leads table
+ * Calculator sessions with valid contact details and consent that have not
+ * (yet) become a saved quote - one row per session, updated as the customer
+ * moves on. Customers who agreed to marketing get a recovery email.
+ */
+export const draftLeads = sqliteTable(
+  'draft_leads',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    sessionId: text('session_id').notNull().unique(),
+
+    // Contact info
+    name: text('name').notNull(),
+    email: text('email').notNull(),
+    phone: text('phone'),
+    marketingConsent: integer('marketing_consent', { mode: 'boolean' }).notNull().default(false),
+
+    // Where the customer got to (step id, e.g. 'step-11') and their answers so far
+    serviceType: text('service_type'),
+    abandonedStep: text('abandoned_step').notNull(),
+    calculatorData: text('calculator_data', { mode: 'json' })
+      .$type<Record<string, unknown>>()
+      .notNull(),
+
+    status: text('status').notNull().default('draft'), // 'draft' | 'recovery_sent' | 'converted'
+    recoveryEmailSentAt: integer('recovery_email_sent_at', { mode: 'timestamp' }),
+    quoteId: integer('quote_id').references(() => quotes.id, { onDelete: 'set null' }),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    draftStatusIdx: index('draft_status_idx').on(table.status),
+    draftUpdatedAtIdx: index('draft_updated_at_idx').on(table.updatedAt),
+    abandonedStepIdx: index('abandoned_step_idx').on(table.abandonedStep),
+  })
+);
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -172,3 +284,9 @@ export type CRMQueueItem = typeof crmQueue.$inferSelect;
 export type NewCRMQueueItem = typeof crmQueue.$inferInsert;
 export type Testimonial = typeof testimonials.$inferSelect;
 export type NewTestimonial = typeof testimonials.$inferInsert;
+export type PricingConfigRecord = typeof pricingConfigs.$inferSelect;
+export type NewPricingConfigRecord = typeof pricingConfigs.$inferInsert;
+export type PromoCodeRecord = typeof promoCodes.$inferSelect;
+export type NewPromoCodeRecord = typeof promoCodes.$inferInsert;
+export type DraftLead = typeof draftLeads.$inferSelect;
+export type NewDraftLead = typeof draftLeads.$inferInsert;
@@ -4,6 +4,18 @@
  * Template generation functions
  */
 
+import {
+  CALCULATOR_CONFIG,
+  type DepotKey,
+  type InsuranceLevel,
+  type VatDisplay,
+} from '@/lib/calculator-config';
+import {
+  type InventoryLine,
+  type PriceItem,
+  getDisplayAmount,
+  getVatDisplay,
+} from '@/lib/calculator-logic';
 import { CONFIG } from '@/lib/config';
 import type { Quote } from '@/lib/core/db/schema';
 import { formatPrice } from '@/lib/utils';
@@ -12,6 +24,10 @@ import { formatPrice } from '@/lib/utils';
  * Generate quote confirmation email
  */
 export function generateQuoteConfirmationEmail(quote: Quote, siteUrl: string): string {
+  const vatDisplay = getQuoteVatDisplay(quote);
+  const headlinePrice =
+    vatDisplay === 'ex' ? (quote.netPrice ?? quote.totalPrice) : quote.totalPrice;
+
   // Read template (in production, you'd read from file)
   const template = `
 <!DOCTYPE html>
@@ -25,6 +41,7 @@ export function generateQuoteConfirmationEmail(quote: Quote, siteUrl: string): s
     .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center; }
     .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
     .price { font-size: 36px; font-weight: bold; color: #667eea; margin: 20px 0; text-align: center; }
+    .price-vat { font-size: 16px; font-weight: normal; color: #666; }
     .breakdown { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
     .breakdown-item { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #eee; }
     .breakdown-item:last-child { border-bottom: none; font-weight: bold; font-size: 18px; }
@@ -42,11 +59,11 @@ export function generateQuoteConfirmationEmail(quote: Quote, siteUrl: string): s
     
     <p>Thank you for requesting a quote. Here's a summary of your request:</p>
     
-    <div class="price">${formatPrice(quote.totalPrice, quote.currency)}</div>
+    <div class="price">${formatPrice(headlinePrice, quote.currency)} <span class="price-vat">${CALCULATOR_CONFIG.vat.labels[vatDisplay]}</span></div>
     
     <div class="breakdown">
       <h3>Price Breakdown:</h3>
-      ${generateBreakdownItems(quote.breakdown || {})}
+      ${generateBreakdownItems(quote, vatDisplay)}
     </div>
     
     <p>Our team will review your request and get back to you within 24 hours.</p>
@@ -72,20 +89,107 @@ export function generateQuoteConfirmationEmail(quote: Quote, siteUrl: string): s
 }
 
 /**
- * Generate breakdown items HTML
+ * VAT display for a saved quote (by its service type)
  */
-function generateBreakdownItems(breakdown: Record<string, number>): string {
-  const items = Object.entries(breakdown).map(([key, value]) => {
-    const label = key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, ' ');
-    return `
+function getQuoteVatDisplay(quote: Quote): VatDisplay {
+  return getVatDisplay(quote.calculatorData?.serviceType as string | undefined);
+}
+
+/**
+ * Generate breakdown items HTML (one row per price line, VAT, then the total)
+ */
+function generateBreakdownItems(quote: Quote, vatDisplay: VatDisplay): string {
+  const vatLabel = `VAT (${Math.round(CALCULATOR_CONFIG.vat.rate * 100)}%)`;
+  const rows: Array<{ label: string; amount: number }> = (quote.priceItems || []).map((item) => ({
+    label: item.label,
+    amount: getDisplayAmount(item, vatDisplay),
+  }));
+
+  if (typeof quote.vatAmount === 'number') {
+    if (vatDisplay === 'ex') {
+      rows.push({ label: 'Total ex. VAT', amount: quote.netPrice ?? quote.totalPrice });
+      rows.push({ label: vatLabel, amount: quote.vatAmount });
+    } else {
+      rows.push({ label: `Includes ${vatLabel}`, amount: quote.vatAmount });
+    }
+  }
+
+  rows.push({ label: 'Total inc. VAT', amount: quote.totalPrice });
+
+  return rows
+    .map(
+      (row) => `
       <div class="breakdown-item">
-        <span>${label}</span>
-        <span>${formatPrice(value, 'HUF')}</span>
+        <span>${row.label}</span>
+        <span>${formatPrice(row.amount, quote.currency)}</span>
       </div>
-    `;
-  });
+    `
+    )
+    .join('');
+}
+
+/**
+ * Generate price lines table rows for the admin email
+ */
+function generateAdminPriceRows(items: PriceItem[], currency: string): string {
+  return items
+    .map(
+      (item) => `
+    <tr>
+      <td style="padding: 6px 10px; border-bottom: 1px solid #eee;">${item.label}</td>
+      <td style="padding: 6px 10px; border-bottom: 1px solid #eee; text-align: right;">${formatPrice(item.amount, currency)}</td>
+    </tr>`
+    )
+    .join('');
+}
+
+/**
+ * Generate inventory table rows for the admin email, grouped by room
+ */
+function generateAdminInventoryRows(inventory: InventoryLine[]): string {
+  return Object.entries(CALCULATOR_CONFIG.inventoryRooms)
+    .map(([room, { label }]) => {
+      const lines = inventory.filter(
+        (line) => CALCULATOR_CONFIG.inventoryItems[line.item]?.room === room
+      );
+      if (lines.length === 0) return '';
+
+      return `
+    <tr>
+      <td colspan="2" style="padding: 8px 10px 4px; border-bottom: 1px solid #ddd;"><strong>${label}</strong></td>
+    </tr>${lines
+      .map(
+        (line) => `
+    <tr>
+      <td style="padding: 4px 10px; border-bottom: 1px solid #eee;">${CALCULATOR_CONFIG.inventoryItems[line.item].label}</td>
+      <td style="padding: 4px 10px; border-bottom: 1px solid #eee; text-align: right;">× ${line.quantity}</td>
+    </tr>`
+      )
+      .join('')}`;
+    })
+    .join('');
+}
+
+/**
+ * Branch name for a depot key (the key itself for a retired branch)
+ */
+function getBranchName(branch: string): string {
+  return CALCULATOR_CONFIG.depots[branch as DepotKey]?.name ?? branch;
+}
+
+/**
+ * Insurance cover for the admin email, e.g. "Full replacement - £25,000 declared"
+ */
+function getInsuranceSummary(
+  cover: string,
+  declaredValue: number | null,
+  currency: string
+): string {
+  const label = CALCULATOR_CONFIG.insurance.levels[cover as InsuranceLevel]?.label ?? cover;
 
-  return items.join('');
+  return declaredValue !== null
+    ? `${label} - ${formatPrice(declaredValue, currency)} declared`
+    : label;
 }
 
 /**
@@ -118,8 +222,44 @@ export function generateAdminNotificationEmail(quote: Quote, siteUrl: string): s
     </tr>
     <tr>
       <td style="padding: 10px; border-bottom: 1px solid #ddd;"><strong>Total Price:</strong></td>
-      <td style="padding: 10px; border-bottom: 1px solid #ddd;">${formatPrice(quote.totalPrice, quote.currency)}</td>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;">${formatPrice(quote.totalPrice, quote.currency)} inc. VAT${
+        typeof quote.netPrice === 'number' && typeof quote.vatAmount === 'number'
+          ? ` (net ${formatPrice(quote.netPrice, quote.currency)} + VAT ${formatPrice(quote.vatAmount, quote.currency)})`
+          : ''
+      }</td>
     </tr>
+    ${
+      quote.priceFlagged && quote.clientTotalPrice !== null
+        ? `<tr>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd; color: #b91c1c;"><strong>Price Check:</strong></td>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd; color: #b91c1c;">Customer saw ${formatPrice(quote.clientTotalPrice, quote.currency)} - please review</td>
+    </tr>`
+        : ''
+    }
+    ${
+      quote.branch
+        ? `<tr>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;"><strong>Branch:</strong></td>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;">${getBranchName(quote.branch)}</td>
+    </tr>`
+        : ''
+    }
+    ${
+      quote.insuranceCover
+        ? `<tr>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;"><strong>Insurance:</strong></td>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;">${getInsuranceSummary(quote.insuranceCover, quote.declaredValue, quote.currency)}</td>
+    </tr>`
+        : ''
+    }
+    ${
+      quote.promoCode
+        ? `<tr>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;"><strong>Promo Code:</strong></td>
+      <td style="padding: 10px; border-bottom: 1px solid #ddd;">${quote.promoCode}</td>
+    </tr>`
+        : ''
+    }
     <tr>
       <td style="padding: 10px; border-bottom: 1px solid #ddd;"><strong>Language:</strong></td>
       <td style="padding: 10px; border-bottom: 1px solid #ddd;">${quote.language}</td>
@@ -130,6 +270,22 @@ export function generateAdminNotificationEmail(quote: Quote, siteUrl: string): s
     </tr>
   </table>
   
+  ${
+    quote.priceItems?.length
+      ? `<h3>Price Breakdown:</h3>
+  <table style="width: 100%; border-collapse: collapse;">${generateAdminPriceRows(quote.priceItems, quote.currency)}
+  </table>`
+      : ''
+  }
+
+  ${
+    quote.inventory?.length
+      ? `<h3>Inventory:</h3>
+  <table style="width: 100%; border-collapse: collapse;">${generateAdminInventoryRows(quote.inventory)}
+  </table>`
+      : ''
+  }
+
   <h3>Calculator Data:</h3>
   <pre style="background: #f5f5f5; padding: 15px; border-radius: 4px; overflow: auto;">${JSON.stringify(quote.calculatorData, null, 2)}</pre>
   
@@ -140,3 +296,99 @@ export function generateAdminNotificationEmail(quote: Quote, siteUrl: string): s
 </html>
   `;
 }
+
+/**
+ * Generate "continue later" email with the link back to a saved quote
+ */
+export function generateResumeLinkEmail(resumeUrl: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Continue Your Quote</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center; }
+    .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+    .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+    .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Pick Up Where You Left Off</h1>
+  </div>
+
+  <div class="content">
+    <p>Hello,</p>
+
+    <p>We've saved your quote so far. Use the link below to carry on from any device - your answers will be just as you left them.</p>
+
+    <center>
+      <a href="${resumeUrl}" class="button">Continue My Quote</a>
+    </center>
+
+    <p>The link works for ${CONFIG.dataRetention.sessionsMaxAgeDays} days. If you didn't ask for it, you can ignore this email.</p>
+
+    <p>If you have any questions, feel free to reply to this email or call us at ${CONFIG.calculator.phoneNumber}.</p>
+
+    <p>Best regards,<br>The Calculator Team</p>
+  </div>
+
+  <div class="footer">
+    <p>&copy; 2024 Calculator Boilerplate. All rights reserved.</p>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Generate abandoned quote recovery email with a link back to the saved quote
+ * (only sent to customers who agreed to marketing)
+ */
+export function generateRecoveryEmail(name: string, resumeUrl: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Quote Is Nearly Ready</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center; }
+    .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+    .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+    .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Your Quote Is Nearly Ready</h1>
+  </div>
+
+  <div class="content">
+    <p>Hello ${name || 'there'},</p>
+
+    <p>You didn't quite finish your removals quote. We've kept your answers - pick up where you left off and see your price in a minute or two.</p>
+
+    <center>
+      <a href="${resumeUrl}" class="button">Finish My Quote</a>
+    </center>
+
+    <p>If you have any questions, feel free to reply to this email or call us at ${CONFIG.calculator.phoneNumber}.</p>
+
+    <p>Best regards,<br>The Calculator Team</p>
+  </div>
+
+  <div class="footer">
+    <p>You're receiving this because you agreed to hear from us. Reply to this email if you'd rather we didn't.</p>
+    <p>&copy; 2024 Calculator Boilerplate. All rights reserved.</p>
+  </div>
+</body>
+</html>
+  `;
+}
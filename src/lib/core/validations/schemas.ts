@@ -4,8 +4,17 @@
  * Zod schemas for request validation
  */
 
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import { validateVanCrew } from '@/lib/calculator-logic';
 import { z } from 'zod';
 
+/**
+ * Enum of the keys of a calculator config table
+ */
+function configKeys<T extends Record<string, unknown>>(table: T) {
+  return z.enum(Object.keys(table) as [keyof T & string, ...(keyof T & string)[]]);
+}
+
 /**
  * Email validation
  */
@@ -41,6 +50,22 @@ export const languageSchema = z.enum(['en', 'es', 'fr']);
  */
 export const currencySchema = z.enum(['HUF', 'EUR', 'USD', 'GBP']);
 
+/**
+ * Promo code validation
+ */
+export const promoCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .min(2, 'Promo code too short')
+  .max(32, 'Promo code too long')
+  .regex(/^[A-Z0-9_-]+$/, 'Invalid promo code');
+
+/**
+ * Session token issued with the sessionId by POST /api/sessions/start
+ */
+export const sessionTokenSchema = z.string().min(1).max(128);
+
 /**
  * Quote save schema
  */
@@ -50,6 +75,10 @@ export const saveQuoteSchema = z.object({
   totalPrice: z.number().positive('Price must be positive'),
   breakdown: z.record(z.number()).optional(),
   currency: currencySchema.default('GBP'),
+  promoCode: promoCodeSchema.optional(),
+
+  // Token for data.sessionId - marks the session's draft lead converted
+  sessionToken: sessionTokenSchema.optional(),
 
   // Contact info (optional)
   name: nameSchema.optional(),
@@ -68,15 +97,232 @@ export const saveQuoteSchema = z.object({
   gclid: z.string().max(200).optional(),
 });
 
+const addressAccessSchema = z.object({
+  floorLevel: z.number().int().min(-1).max(10),
+  lift: configKeys(CALCULATOR_CONFIG.floorAccess.lift),
+});
+
+const stopSchema = z.object({
+  type: configKeys(CALCULATOR_CONFIG.stops.types),
+  access: addressAccessSchema.optional(),
+});
+
+const inventoryLineSchema = z.object({
+  item: configKeys(CALCULATOR_CONFIG.inventoryItems),
+  quantity: z.number().int().min(1).max(99),
+});
+
+/**
+ * Quote input schema (mirrors QuoteInput in calculator-logic)
+ */
+export const quoteInputSchema = z
+  .object({
+    serviceType: z.enum(['home', 'office', 'clearance']),
+
+    // Property (home)
+    propertySize: z
+      .union([configKeys(CALCULATOR_CONFIG.propertyCubes), z.literal('furniture')])
+      .optional(),
+    sliderPosition: z
+      .union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)])
+      .optional(),
+    inventory: z.array(inventoryLineSchema).max(200).optional(),
+
+    // Furniture only
+    furnitureOnly: z
+      .object({
+        itemCount: z.number().int().min(1).max(50),
+        needs2Person: z.boolean(),
+        over40kg: z.boolean(),
+        specialistItems: z
+          .array(configKeys(CALCULATOR_CONFIG.furnitureOnly.specialistItems))
+          .max(20),
+      })
+      .optional(),
+
+    // Office
+    officeSize: configKeys(CALCULATOR_CONFIG.officeCubes).optional(),
+
+    // Clearance
+    clearance: z
+      .object({
+        load: configKeys(CALCULATOR_CONFIG.clearance.loads),
+        items: z
+          .record(
+            configKeys(CALCULATOR_CONFIG.clearance.wasteCategories),
+            z.number().int().min(0).max(50)
+          )
+          .default({}),
+        recycling: z.boolean().default(false),
+      })
+      .optional(),
+
+    complications: z.array(configKeys(CALCULATOR_CONFIG.complications)).default([]),
+    propertyChain: z.boolean().default(false),
+
+    // Floor access
+    access: z
+      .object({
+        from: addressAccessSchema.optional(),
+        to: addressAccessSchema.optional(),
+      })
+      .optional(),
+
+    // Extra stops
+    stops: z.array(stopSchema).max(CALCULATOR_CONFIG.stops.maxStops).optional(),
+
+    // Branch
+    depot: configKeys(CALCULATOR_CONFIG.depots).optional(),
+
+    // Addresses and path for road charges
+    route: z
+      .object({
+        points: z
+          .array(
+            z.object({
+              postcode: z.string().max(10).optional(),
+              lat: z.number().min(-90).max(90).optional(),
+              lng: z.number().min(-180).max(180).optional(),
+            })
+          )
+          .max(CALCULATOR_CONFIG.stops.maxStops + 2),
+        path: z.string().max(20000).optional(),
+      })
+      .optional(),
+
+    // Date
+    selectedDate: z.string().datetime().optional(),
+    dateFlexibility: z.enum(['fixed', 'flexible', 'unknown']).optional(),
+
+    distances: z.object({
+      depotToFrom: z.number().nonnegative(),
+      fromToTo: z.number().nonnegative(),
+      toToDepot: z.number().nonnegative(),
+      driveTimeHours: z.number().nonnegative(),
+      legs: z
+        .array(z.number().nonnegative())
+        .max(CALCULATOR_CONFIG.stops.maxStops + 1)
+        .optional(),
+    }),
+
+    extras: z
+      .object({
+        packingTier: configKeys(CALCULATOR_CONFIG.packingTiers).optional(),
+        cleaningRooms: z.number().int().min(1).max(6).optional(),
+        cleaningType: configKeys(CALCULATOR_CONFIG.cleaningTiers).optional(),
+        storageSize: configKeys(CALCULATOR_CONFIG.storageSizes).optional(),
+        storageWeeks: z.number().int().min(1).max(52).optional(),
+        insurance: z
+          .object({
+            level: configKeys(CALCULATOR_CONFIG.insurance.levels),
+            declaredValue: z.number().positive().max(CALCULATOR_CONFIG.insurance.maxDeclaredValue),
+          })
+          .optional(),
+        disassemblyItems: z
+          .array(
+            z.object({
+              category: configKeys(CALCULATOR_CONFIG.assembly),
+              quantity: z.number().int().min(1).max(9),
+            })
+          )
+          .optional(),
+      })
+      .default({}),
+
+    manualOverride: z
+      .object({
+        men: z.number().int().min(1).max(20),
+        vans: z.number().int().min(1).max(10),
+      })
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      (input.serviceType === 'office' && !!input.officeSize) ||
+      (input.serviceType === 'clearance' && !!input.clearance) ||
+      !!input.furnitureOnly ||
+      (!!input.propertySize &&
+        input.propertySize !== 'furniture' &&
+        (!!input.sliderPosition || !!input.inventory?.length)),
+    {
+      message: 'Missing property size, office size, clearance, or furniture details',
+      path: ['serviceType'],
+    }
+  )
+  .superRefine((input, ctx) => {
+    if (!input.manualOverride) return;
+
+    const check = validateVanCrew(input.manualOverride.vans, input.manualOverride.men);
+    if (!check.valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: check.message,
+        path: ['manualOverride'],
+      });
+    }
+  });
+
 /**
  * Calculate schema (for calculation endpoint)
  */
 export const calculateSchema = z.object({
-  step: z.string().min(1).max(50),
-  data: z.record(z.unknown()),
+  data: quoteInputSchema,
+  promoCode: promoCodeSchema.optional(),
   language: languageSchema.default('en'),
 });
 
+/**
+ * Promo code check schema
+ */
+export const promoCheckSchema = z.object({
+  code: promoCodeSchema,
+});
+
+/**
+ * Saved calculator session ("save and continue later")
+ * The calculator validates the full state when it restores it
+ */
+export const sessionStateSchema = z
+  .object({
+    sessionId: z.string().uuid(),
+    lastUpdatedAt: z.string().datetime(),
+  })
+  .passthrough();
+
+export const saveSessionSchema = z.object({
+  state: sessionStateSchema,
+  sessionToken: sessionTokenSchema,
+});
+
+/**
+ * Resume link request schema
+ */
+export const resumeLinkSchema = z.object({
+  state: sessionStateSchema,
+  sessionToken: sessionTokenSchema,
+  email: emailSchema,
+});
+
+/**
+ * Draft lead schema - a session with valid contact details and consent
+ * (saved before the quote is, so abandoned quotes aren't lost)
+ */
+export const draftLeadSchema = z.object({
+  sessionToken: sessionTokenSchema,
+  state: sessionStateSchema.extend({
+    currentStep: z.string().min(1).max(20),
+    serviceType: z.string().max(20).nullable(),
+    contact: z.object({
+      firstName: nameSchema,
+      lastName: nameSchema,
+      email: emailSchema,
+      phone: phoneSchema,
+      gdprConsent: z.literal(true),
+      marketingConsent: z.boolean(),
+    }),
+  }),
+});
+
 /**
  * Validate step schema (for step validation)
  */
@@ -134,7 +380,12 @@ export const uuidSchema = z.string().uuid();
 
 // Type exports
 export type SaveQuoteInput = z.infer<typeof saveQuoteSchema>;
+export type QuoteInputData = z.infer<typeof quoteInputSchema>;
 export type CalculateInput = z.infer<typeof calculateSchema>;
+export type PromoCheckInput = z.infer<typeof promoCheckSchema>;
+export type SaveSessionInput = z.infer<typeof saveSessionSchema>;
+export type ResumeLinkInput = z.infer<typeof resumeLinkSchema>;
+export type DraftLeadInput = z.infer<typeof draftLeadSchema>;
 export type ValidateStepInput = z.infer<typeof validateStepSchema>;
 export type SendEmailInput = z.infer<typeof sendEmailSchema>;
 export type ContactFormInput = z.infer<typeof contactFormSchema>;
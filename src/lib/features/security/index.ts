@@ -81,3 +81,14 @@ export function validateCSRFToken(token: string, expected: string): boolean {
 
   return result === 0;
 }
+
+/**
+ * Check an admin request's bearer token (ADMIN_API_KEY)
+ * Always false when no key is configured
+ */
+export function isAdminRequest(request: Request, apiKey: string): boolean {
+  const authorization = request.headers.get('Authorization') || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+
+  return validateCSRFToken(token, apiKey);
+}
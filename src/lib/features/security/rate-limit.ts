@@ -13,8 +13,10 @@ import type { APIContext } from 'astro';
 
 /**
  * Check rate limit
+ * A scope gets its own counter, so frequent background calls (session
+ * sync) don't use up the limit shared by the other endpoints
  */
-export async function checkRateLimit(context: APIContext): Promise<boolean> {
+export async function checkRateLimit(context: APIContext, scope?: string): Promise<boolean> {
   if (!CONFIG.features.rateLimiting) {
     return true; // Feature disabled
   }
@@ -45,7 +47,7 @@ export async function checkRateLimit(context: APIContext): Promise<boolean> {
   // Generate hash-based key
   const keyHash = generateRateLimitKey(ip, userAgent);
   const env = CONFIG.debug ? 'dev' : 'prod';
-  const key = `rate_limit:${env}:${keyHash}`;
+  const key = scope ? `rate_limit:${env}:${scope}:${keyHash}` : `rate_limit:${env}:${keyHash}`;
 
   try {
     const current = await kvGet<string>(kv, key);
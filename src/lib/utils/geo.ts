@@ -0,0 +1,104 @@
+/**
+ * GEO HELPERS
+ *
+ * Route checks against charging zones and toll crossings:
+ * UK postcode districts, Google encoded polylines and
+ * point / segment tests against polygons.
+ * Distances are small, so lat/lng are treated as flat x/y.
+ */
+
+export type LatLng = readonly [lat: number, lng: number];
+
+/**
+ * Outward code (district) of a UK postcode - 'BS1 4DJ' → 'BS1'
+ * Returns undefined if it isn't a postcode
+ */
+export function getPostcodeDistrict(postcode: string): string | undefined {
+  const match = postcode
+    .toUpperCase()
+    .trim()
+    .match(/^([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})?$/);
+
+  return match?.[1];
+}
+
+/**
+ * Decode a Google encoded polyline into points
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / 1e5, lng / 1e5]);
+  }
+
+  return points;
+}
+
+/**
+ * Check if a point lies inside a polygon (ray casting)
+ */
+export function isPointInPolygon(point: LatLng, polygon: readonly LatLng[]): boolean {
+  const [y, x] = point;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [yi, xi] = polygon[i];
+    const [yj, xj] = polygon[j];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check if two segments cross
+ */
+function segmentsIntersect(a: LatLng, b: LatLng, c: LatLng, d: LatLng): boolean {
+  const orientation = (p: LatLng, q: LatLng, r: LatLng) =>
+    Math.sign((q[1] - p[1]) * (r[0] - p[0]) - (q[0] - p[0]) * (r[1] - p[1]));
+
+  return (
+    orientation(a, b, c) !== orientation(a, b, d) && orientation(c, d, a) !== orientation(c, d, b)
+  );
+}
+
+/**
+ * Check if a path enters a polygon - a point inside it, or a segment
+ * crossing its edge (polylines are sparse, so a short bridge can fall
+ * between two points)
+ */
+export function pathEntersPolygon(path: readonly LatLng[], polygon: readonly LatLng[]): boolean {
+  if (polygon.length < 3) return false;
+  if (path.some((point) => isPointInPolygon(point, polygon))) return true;
+
+  for (let i = 1; i < path.length; i++) {
+    for (let j = 0, k = polygon.length - 1; j < polygon.length; k = j++) {
+      if (segmentsIntersect(path[i - 1], path[i], polygon[k], polygon[j])) return true;
+    }
+  }
+
+  return false;
+}
@@ -1,10 +1,13 @@
 /**
  * CALCULATE ENDPOINT
  *
- * Calculate quote based on input data
+ * Price a move server-side with the removals engine (calculateQuote)
  */
 
-import { calculateTotal } from '@/lib/core/calculator/calculations';
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
+import { calculateQuote } from '@/lib/calculator-logic';
+import { resolvePricing } from '@/lib/core/calculator/pricing';
+import { resolvePromo } from '@/lib/core/calculator/promo';
 import { calculateSchema } from '@/lib/core/validations/schemas';
 import {
   checkPayloadSize,
@@ -17,6 +20,8 @@ import { logger } from '@/lib/utils/logger';
 import type { APIRoute } from 'astro';
 
 export const POST: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const env = runtime?.env || import.meta.env || {};
   const errorId = generateErrorId();
   const origin = context.request.headers.get('Origin');
   const corsHeaders = getCORSHeaders(origin);
@@ -41,22 +46,30 @@ export const POST: APIRoute = async (context) => {
     const validated = calculateSchema.parse(body);
 
     logger.debug('API', 'Calculate data validated', {
-      step: validated.step,
+      serviceType: validated.data.serviceType,
       language: validated.language,
     });
 
-    // 4. Calculate result
-    const result = calculateTotal(validated.data);
+    // 4. Calculate result with the pricing version and promo code in effect
+    const pricing = await resolvePricing(env);
+    const promo = await resolvePromo(env, validated.promoCode);
+    const result = calculateQuote({ ...validated.data, promo }, pricing.config, {
+      range: true,
+    });
 
     logger.info('API', 'Calculation successful', {
       total: result.totalPrice,
-      currency: result.currency,
+      pricingVersion: pricing.version,
+      promoCode: result.promoCode,
+      requiresCallback: result.requiresCallback,
     });
 
     // 5. Return result
     return new Response(
       JSON.stringify({
         success: true,
+        currency: CALCULATOR_CONFIG.currency.code,
+        pricingVersion: pricing.version,
         result,
       }),
       {
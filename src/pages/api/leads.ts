@@ -0,0 +1,160 @@
+/**
+ * DRAFT LEAD ENDPOINT
+ *
+ * Saves a calculator session as a draft lead once it has valid contact
+ * details and consent, so a customer who leaves before the quote is
+ * saved isn't lost. Called as the customer moves on, so it has its own
+ * rate limit counter rather than the one shared with save-quote.
+ *
+ * The session is also kept in SESSIONS, so a recovery email's resume
+ * link can restore it.
+ *
+ * Features:
+ * - Payload size limit
+ * - Rate limiting (leads scope)
+ * - Writes need the session token issued with the sessionId
+ */
+
+import { getRuntimeConfig } from '@/lib/config';
+import { toDraftLead } from '@/lib/core/calculator/leads';
+import { saveSession, verifySessionToken } from '@/lib/core/calculator/sessions';
+import { createDbClient } from '@/lib/core/db/client';
+import { upsertDraftLead } from '@/lib/core/db/queries';
+import { draftLeadSchema } from '@/lib/core/validations/schemas';
+import {
+  checkPayloadSize,
+  createPayloadTooLargeResponse,
+} from '@/lib/features/security/payload-limit';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { safeKV } from '@/lib/utils/kv';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+export const POST: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  // 1. Check runtime environment is available
+  const env = runtime?.env || import.meta.env;
+  if (!env) {
+    logger.error('API', 'Runtime environment not available', { errorId });
+    return createErrorResponse('Server configuration error', errorId, 500);
+  }
+
+  // 2. Payload size check
+  const payloadOk = await checkPayloadSize(context);
+  if (!payloadOk) {
+    return createPayloadTooLargeResponse(errorId);
+  }
+
+  // 3. Rate limit
+  const rateLimitOk = await checkRateLimit(context, 'leads');
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  try {
+    // 4. Parse and validate
+    const body = await context.request.json();
+    const { state, sessionToken } = draftLeadSchema.parse(body);
+
+    // 5. Check database credentials and the session secret
+    const runtimeConfig = getRuntimeConfig(env);
+
+    if (!env.TURSO_DATABASE_URL || !env.TURSO_AUTH_TOKEN) {
+      logger.error('API', 'Database credentials not configured', { errorId });
+      return createErrorResponse('Database not configured', errorId, 503);
+    }
+
+    if (!runtimeConfig.sessions.secret) {
+      logger.error('API', 'Session secret not configured', { errorId });
+      return createErrorResponse('Draft leads not available', errorId, 503);
+    }
+
+    // 6. Check the session token
+    const ownsSession = await verifySessionToken(
+      state.sessionId,
+      sessionToken,
+      runtimeConfig.sessions.secret
+    );
+
+    if (!ownsSession) {
+      logger.warn('API', 'Invalid session token', { errorId, sessionId: state.sessionId });
+      return createErrorResponse('Invalid session token', errorId, 403);
+    }
+
+    const db = createDbClient({
+      TURSO_DATABASE_URL: env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: env.TURSO_AUTH_TOKEN,
+    });
+
+    // 7. Save the draft (a converted lead is left as it is)
+    const saved = await upsertDraftLead(db, toDraftLead(state));
+
+    // 8. Keep the session for the recovery email's resume link (optional)
+    const kv = safeKV(env, 'SESSIONS');
+    if (kv) {
+      await saveSession(kv, state);
+    }
+
+    logger.debug('API', 'Draft lead saved', {
+      sessionId: state.sessionId,
+      step: state.currentStep,
+      saved,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        saved,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Save draft lead failed', formatError(error, errorId));
+
+    // Handle Zod validation errors
+    if (error && typeof error === 'object' && 'issues' in error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation error',
+          details: (error as any).issues,
+          errorId,
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    return createErrorResponse('Failed to save draft lead', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
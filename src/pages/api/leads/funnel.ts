@@ -0,0 +1,97 @@
+/**
+ * ABANDONMENT FUNNEL ENDPOINT (admin)
+ *
+ * Abandoned quotes by the step the customer left on, so admins can see
+ * where the calculator loses people. Needs ADMIN_API_KEY as a bearer token.
+ */
+
+import { getRuntimeConfig } from '@/lib/config';
+import { getAbandonmentReport } from '@/lib/core/calculator/leads';
+import { createDbClient } from '@/lib/core/db/client';
+import { getAbandonmentFunnel } from '@/lib/core/db/queries';
+import { isAdminRequest } from '@/lib/features/security';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+export const GET: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  // 1. Check runtime environment is available
+  const env = runtime?.env || import.meta.env;
+  if (!env) {
+    logger.error('API', 'Runtime environment not available', { errorId });
+    return createErrorResponse('Server configuration error', errorId, 500);
+  }
+
+  // 2. Rate limit
+  const rateLimitOk = await checkRateLimit(context);
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  // 3. Admin only
+  const runtimeConfig = getRuntimeConfig(env);
+
+  if (!runtimeConfig.admin.apiKey) {
+    logger.error('API', 'Admin API key not configured', { errorId });
+    return createErrorResponse('Admin reports not available', errorId, 503);
+  }
+
+  if (!isAdminRequest(context.request, runtimeConfig.admin.apiKey)) {
+    logger.warn('API', 'Unauthorized admin request', { errorId });
+    return createErrorResponse('Unauthorized', errorId, 401);
+  }
+
+  try {
+    // 4. Check database credentials
+    if (!env.TURSO_DATABASE_URL || !env.TURSO_AUTH_TOKEN) {
+      logger.error('API', 'Database credentials not configured', { errorId });
+      return createErrorResponse('Database not configured', errorId, 503);
+    }
+
+    const db = createDbClient({
+      TURSO_DATABASE_URL: env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: env.TURSO_AUTH_TOKEN,
+    });
+
+    // 5. Build the report
+    const report = getAbandonmentReport(await getAbandonmentFunnel(db));
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        report,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Get abandonment funnel failed', formatError(error, errorId));
+    return createErrorResponse('Failed to get abandonment funnel', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
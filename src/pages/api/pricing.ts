@@ -0,0 +1,56 @@
+/**
+ * PRICING ENDPOINT
+ *
+ * Returns the pricing config version in effect, so the calculator prices
+ * with the same rates the server will re-price with
+ */
+
+import { resolvePricing } from '@/lib/core/calculator/pricing';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const GET: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const env = runtime?.env || import.meta.env || {};
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  try {
+    const pricing = await resolvePricing(env);
+
+    logger.debug('API', 'Pricing requested', { version: pricing.version });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        version: pricing.version,
+        config: pricing.config,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'public, max-age=300', // 5 minutes
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Get pricing failed', formatError(error, errorId));
+    return createErrorResponse('Failed to load pricing', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
@@ -0,0 +1,134 @@
+/**
+ * PROMO CODE ENDPOINT
+ *
+ * Checks a promo code and returns its discount terms, so the calculator
+ * can show the discounted price. The discount is applied again on save.
+ */
+
+import { type PromoCodeStatus, getPromo } from '@/lib/core/calculator/promo';
+import { createDbClient } from '@/lib/core/db/client';
+import { promoCheckSchema } from '@/lib/core/validations/schemas';
+import {
+  checkPayloadSize,
+  createPayloadTooLargeResponse,
+} from '@/lib/features/security/payload-limit';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+const STATUS_MESSAGES: Record<Exclude<PromoCodeStatus, 'valid'>, string> = {
+  not_found: "We don't recognise that promo code",
+  inactive: 'This promo code is no longer available',
+  not_started: "This promo code isn't active yet",
+  expired: 'This promo code has expired',
+  used_up: 'This promo code has been fully redeemed',
+};
+
+export const POST: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const env = runtime?.env || import.meta.env || {};
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  // 1. Payload size check
+  const payloadOk = await checkPayloadSize(context);
+  if (!payloadOk) {
+    return createPayloadTooLargeResponse(errorId);
+  }
+
+  // 2. Rate limit check (stops code guessing)
+  const rateLimitOk = await checkRateLimit(context);
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  try {
+    // 3. Parse and validate request
+    const body = await context.request.json();
+    const validated = promoCheckSchema.parse(body);
+
+    // 4. Check database credentials
+    if (!env.TURSO_DATABASE_URL || !env.TURSO_AUTH_TOKEN) {
+      logger.error('API', 'Database credentials not configured', { errorId });
+      return createErrorResponse('Database not configured', errorId, 500);
+    }
+
+    const db = createDbClient({
+      TURSO_DATABASE_URL: env.TURSO_DATABASE_URL,
+      TURSO_AUTH_TOKEN: env.TURSO_AUTH_TOKEN,
+    });
+
+    // 5. Look up the code
+    const check = await getPromo(db, validated.code);
+
+    if (check.status !== 'valid') {
+      logger.info('API', 'Promo code rejected', { code: validated.code, status: check.status });
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: STATUS_MESSAGES[check.status],
+          reason: check.status,
+        }),
+        {
+          status: 404,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        promo: check.promo,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Promo code check failed', formatError(error, errorId));
+
+    // Handle Zod validation errors
+    if (error && typeof error === 'object' && 'issues' in error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation error',
+          details: (error as any).issues,
+          errorId,
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    return createErrorResponse('Promo code check failed', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
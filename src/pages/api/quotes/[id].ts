@@ -91,7 +91,15 @@ export const GET: APIRoute = async (context) => {
       id: quote.id,
       totalPrice: quote.totalPrice,
       currency: quote.currency,
+      netPrice: quote.netPrice,
+      vatAmount: quote.vatAmount,
       breakdown: quote.breakdown,
+      priceItems: quote.priceItems,
+      inventory: quote.inventory,
+      pricingVersion: quote.pricingVersion,
+      branch: quote.branch,
+      insuranceCover: quote.insuranceCover,
+      declaredValue: quote.declaredValue,
       language: quote.language,
       status: quote.status,
       createdAt: quote.createdAt,
@@ -3,16 +3,30 @@
  *
  * Features:
  * - Payload size limit
+ * - Server-side re-pricing (client price is audited, never trusted)
+ * - Promo code redemption
  * - Fingerprint duplicate prevention
  * - IP anonymization (GDPR)
- * - Email with timeout
+ * - Email with timeout (admin copy to the job's branch inbox)
  * - Rate limiting
  */
 
+import { CALCULATOR_CONFIG } from '@/lib/calculator-config';
 import { getRuntimeConfig } from '@/lib/config';
 import { CONFIG } from '@/lib/config';
+import { toConvertedLead } from '@/lib/core/calculator/leads';
+import { getActivePricing } from '@/lib/core/calculator/pricing';
+import { getPromo } from '@/lib/core/calculator/promo';
+import { verifySessionToken } from '@/lib/core/calculator/sessions';
+import { verifySubmittedQuote } from '@/lib/core/calculator/verification';
 import { createDbClient } from '@/lib/core/db/client';
-import { createQuote, getQuoteByFingerprint } from '@/lib/core/db/queries';
+import {
+  createQuote,
+  getQuoteByFingerprint,
+  markDraftLeadConverted,
+  redeemPromoCode,
+  releasePromoCode,
+} from '@/lib/core/db/queries';
 import { sendEmail } from '@/lib/core/email/sender';
 import {
   generateAdminNotificationEmail,
@@ -84,13 +98,71 @@ export const POST: APIRoute = async (context) => {
       TURSO_AUTH_TOKEN: dbToken,
     });
 
-    // 8. Generate fingerprint for duplicate prevention
+    // 8. Re-price on the server with the pricing version and promo code in effect
+    const pricing = await getActivePricing(db);
+    const promoCheck = validated.promoCode ? await getPromo(db, validated.promoCode) : null;
+    const promo = promoCheck?.status === 'valid' ? promoCheck : null;
+
+    if (promoCheck && !promo) {
+      logger.warn('API', 'Promo code not redeemable', {
+        code: validated.promoCode,
+        status: promoCheck.status,
+      });
+    }
+
+    const verified = verifySubmittedQuote(
+      validated.data,
+      validated.totalPrice,
+      pricing.config,
+      promo?.promo
+    );
+
+    if (!verified) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Quote data incomplete',
+          errorId,
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    const { input: quoteInput, quote: serverQuote, check: priceCheck } = verified;
+
+    if (priceCheck.status === 'rejected') {
+      logger.warn('API', 'Quote rejected - price tampering suspected', { errorId, ...priceCheck });
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Quote price does not match',
+          totalPrice: serverQuote.totalPrice,
+          errorId,
+        }),
+        {
+          status: 422,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    // 9. Generate fingerprint for duplicate prevention
     const fingerprint = generateFingerprint({
       data: validated.data,
-      totalPrice: validated.totalPrice,
+      totalPrice: serverQuote.totalPrice,
     });
 
-    // 9. Check for duplicate
+    // 10. Check for duplicate
     const existing = await getQuoteByFingerprint(db, fingerprint);
 
     if (existing) {
@@ -116,30 +188,70 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    // 10. Get and anonymize IP (GDPR)
+    // 11. Claim the promo code redemption before saving, so maxUses holds
+    // when saves race - a code used up in the meantime fails the save
+    const promoClaimed =
+      promo && serverQuote.promoCode ? await redeemPromoCode(db, promo.record.id) : false;
+
+    if (promo && serverQuote.promoCode && !promoClaimed) {
+      logger.warn('API', 'Promo code usage cap reached during save', {
+        errorId,
+        code: serverQuote.promoCode,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Promo code is no longer available',
+          errorId,
+        }),
+        {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    // 12. Get and anonymize IP (GDPR)
     const rawIP = getIPFromRequest(context.request);
     const { raw: ipAddress, hash: ipAddressHash } = anonymizeIP(rawIP);
 
-    // 11. Get enrichment data
+    // 13. Get enrichment data
     const country = context.request.headers.get('CF-IPCountry');
     const userAgent = context.request.headers.get('User-Agent');
     const deviceInfo = getDeviceInfo(userAgent);
 
-    // 12. Extract UTM params from referrer or query
+    // 14. Extract UTM params from referrer or query
     const url = new URL(context.request.url);
     const utmSource = validated.utm_source || url.searchParams.get('utm_source') || undefined;
     const utmMedium = validated.utm_medium || url.searchParams.get('utm_medium') || undefined;
     const utmCampaign = validated.utm_campaign || url.searchParams.get('utm_campaign') || undefined;
     const gclid = validated.gclid || url.searchParams.get('gclid') || undefined;
 
-    // 13. Save to database
+    // 15. Save to database
+    const branch = quoteInput.depot ?? CALCULATOR_CONFIG.defaultDepot;
+
     const quote = await createQuote(db, {
       schemaVersion: CONFIG.calculator.schemaVersion,
       fingerprint,
       calculatorData: validated.data,
-      totalPrice: validated.totalPrice,
+      totalPrice: serverQuote.totalPrice,
       currency: validated.currency,
-      breakdown: validated.breakdown,
+      breakdown: serverQuote.breakdown,
+      netPrice: serverQuote.vat.net,
+      vatAmount: serverQuote.vat.vat,
+      priceItems: serverQuote.items,
+      inventory: quoteInput.inventory ?? null,
+      clientTotalPrice: validated.totalPrice,
+      priceFlagged: priceCheck.status === 'flagged',
+      pricingVersion: pricing.version,
+      promoCode: serverQuote.promoCode,
+      branch,
+      insuranceCover: quoteInput.extras.insurance?.level ?? null,
+      declaredValue: quoteInput.extras.insurance?.declaredValue ?? null,
       name: validated.name,
       email: validated.email,
       phone: validated.phone,
@@ -156,12 +268,33 @@ export const POST: APIRoute = async (context) => {
     });
 
     if (!quote) {
+      if (promo && promoClaimed) {
+        await releasePromoCode(db, promo.record.id);
+      }
       throw new Error('Failed to save quote to database');
     }
 
     logger.info('API', 'Quote saved', { quoteId: quote.id });
 
-    // 14. Send confirmation email (if email provided)
+    // The session's draft lead is now a quote - no recovery email, even if
+    // the draft save is still on its way. Only the session's owner can convert it.
+    const { sessionId } = validated.data;
+    const ownsSession =
+      typeof sessionId === 'string' &&
+      validated.sessionToken !== undefined &&
+      Boolean(runtimeConfig.sessions.secret) &&
+      (await verifySessionToken(sessionId, validated.sessionToken, runtimeConfig.sessions.secret));
+
+    if (ownsSession) {
+      await markDraftLeadConverted(db, toConvertedLead(sessionId, quote));
+    } else if (typeof sessionId === 'string') {
+      logger.warn('API', 'Draft lead not converted - invalid session token', {
+        errorId,
+        sessionId,
+      });
+    }
+
+    // 16. Send confirmation email (if email provided)
     if (validated.email) {
       try {
         const emailHtml = generateQuoteConfirmationEmail(
@@ -188,8 +321,10 @@ export const POST: APIRoute = async (context) => {
       }
     }
 
-    // 15. Send admin notification (optional)
-    if (CONFIG.calculator.emailSupport) {
+    // 17. Send admin notification to the branch inbox (optional)
+    const adminInbox = CALCULATOR_CONFIG.depots[branch]?.inbox || CONFIG.calculator.emailSupport;
+
+    if (adminInbox) {
       try {
         const adminEmailHtml = generateAdminNotificationEmail(
           quote,
@@ -198,14 +333,14 @@ export const POST: APIRoute = async (context) => {
 
         await sendEmail(
           {
-            to: CONFIG.calculator.emailSupport,
+            to: adminInbox,
             subject: `New Quote Request #${quote.id}`,
             html: adminEmailHtml,
           },
           runtimeConfig.email
         );
 
-        logger.info('Email', 'Admin notification sent', { quoteId: quote.id });
+        logger.info('Email', 'Admin notification sent', { quoteId: quote.id, branch });
       } catch (emailError) {
         logger.error('Email', 'Failed to send admin notification', {
           error: emailError,
@@ -214,11 +349,12 @@ export const POST: APIRoute = async (context) => {
       }
     }
 
-    // 16. Return success
+    // 18. Return success
     return new Response(
       JSON.stringify({
         success: true,
         quoteId: quote.id,
+        totalPrice: quote.totalPrice,
         message: 'Quote saved successfully',
       }),
       {
@@ -0,0 +1,132 @@
+/**
+ * SAVE SESSION ENDPOINT
+ *
+ * Keeps the server copy of a calculator session up to date once the
+ * customer has asked for a resume link. Called as the customer works
+ * through the calculator, so it has its own rate limit counter rather
+ * than the one shared with save-quote.
+ *
+ * Features:
+ * - Payload size limit
+ * - Rate limiting (sessions scope)
+ * - Writes need the session token issued with the sessionId
+ */
+
+import { getRuntimeConfig } from '@/lib/config';
+import { saveSession, verifySessionToken } from '@/lib/core/calculator/sessions';
+import { saveSessionSchema } from '@/lib/core/validations/schemas';
+import {
+  checkPayloadSize,
+  createPayloadTooLargeResponse,
+} from '@/lib/features/security/payload-limit';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { safeKV } from '@/lib/utils/kv';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const POST: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  // 1. Check runtime environment is available
+  const env = runtime?.env || import.meta.env;
+  if (!env) {
+    logger.error('API', 'Runtime environment not available', { errorId });
+    return createErrorResponse('Server configuration error', errorId, 500);
+  }
+
+  // 2. Payload size check
+  const payloadOk = await checkPayloadSize(context);
+  if (!payloadOk) {
+    return createPayloadTooLargeResponse(errorId);
+  }
+
+  // 3. Rate limit
+  const rateLimitOk = await checkRateLimit(context, 'sessions');
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  try {
+    // 4. Parse and validate
+    const body = await context.request.json();
+    const { state, sessionToken } = saveSessionSchema.parse(body);
+
+    // 5. Check the sessions store is available
+    const runtimeConfig = getRuntimeConfig(env);
+    const kv = safeKV(env, 'SESSIONS');
+
+    if (!kv || !runtimeConfig.sessions.secret) {
+      return createErrorResponse('Saved sessions not available', errorId, 503);
+    }
+
+    // 6. Check the session token
+    const ownsSession = await verifySessionToken(
+      state.sessionId,
+      sessionToken,
+      runtimeConfig.sessions.secret
+    );
+
+    if (!ownsSession) {
+      logger.warn('API', 'Invalid session token', { errorId, sessionId: state.sessionId });
+      return createErrorResponse('Invalid session token', errorId, 403);
+    }
+
+    // 7. Save (a newer copy from another device is kept)
+    const saved = await saveSession(kv, state);
+
+    logger.debug('API', 'Session synced', { sessionId: state.sessionId, saved });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        saved,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Save session failed', formatError(error, errorId));
+
+    // Handle Zod validation errors
+    if (error && typeof error === 'object' && 'issues' in error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation error',
+          details: (error as any).issues,
+          errorId,
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    return createErrorResponse('Failed to save session', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
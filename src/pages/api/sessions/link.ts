@@ -0,0 +1,158 @@
+/**
+ * RESUME LINK ENDPOINT
+ *
+ * "Save and continue later" - saves the calculator session and
+ * emails the customer a signed link to carry on from any device
+ *
+ * Features:
+ * - Payload size limit
+ * - Rate limiting
+ * - Writes need the session token issued with the sessionId
+ * - Signed, expiring resume token
+ */
+
+import { CONFIG, getRuntimeConfig } from '@/lib/config';
+import {
+  createResumeToken,
+  getResumeUrl,
+  saveSession,
+  verifySessionToken,
+} from '@/lib/core/calculator/sessions';
+import { sendEmail } from '@/lib/core/email/sender';
+import { generateResumeLinkEmail } from '@/lib/core/email/templates';
+import { resumeLinkSchema } from '@/lib/core/validations/schemas';
+import {
+  checkPayloadSize,
+  createPayloadTooLargeResponse,
+} from '@/lib/features/security/payload-limit';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { safeKV } from '@/lib/utils/kv';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const POST: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  // 1. Check runtime environment is available
+  const env = runtime?.env || import.meta.env;
+  if (!env) {
+    logger.error('API', 'Runtime environment not available', { errorId });
+    return createErrorResponse('Server configuration error', errorId, 500);
+  }
+
+  // 2. Payload size check
+  const payloadOk = await checkPayloadSize(context);
+  if (!payloadOk) {
+    return createPayloadTooLargeResponse(errorId);
+  }
+
+  // 3. Rate limit
+  const rateLimitOk = await checkRateLimit(context);
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  try {
+    // 4. Parse and validate
+    const body = await context.request.json();
+    const { state, sessionToken, email } = resumeLinkSchema.parse(body);
+
+    // 5. Check resume links are configured
+    const runtimeConfig = getRuntimeConfig(env);
+    const kv = safeKV(env, 'SESSIONS');
+
+    if (!kv || !runtimeConfig.sessions.secret) {
+      logger.error('API', 'Saved sessions not configured', { errorId });
+      return createErrorResponse('Saved sessions not available', errorId, 503);
+    }
+
+    // 6. Check the session token
+    const ownsSession = await verifySessionToken(
+      state.sessionId,
+      sessionToken,
+      runtimeConfig.sessions.secret
+    );
+
+    if (!ownsSession) {
+      logger.warn('API', 'Invalid session token', { errorId, sessionId: state.sessionId });
+      return createErrorResponse('Invalid session token', errorId, 403);
+    }
+
+    // 7. Save the session (a newer copy from another device is kept)
+    await saveSession(kv, state);
+
+    // 8. Sign the link and email it
+    const token = await createResumeToken(state.sessionId, runtimeConfig.sessions.secret);
+    const siteUrl = runtimeConfig.site.url || CONFIG.site.url || 'https://your-domain.com';
+    const resumeUrl = getResumeUrl(siteUrl, token);
+
+    const sent = await sendEmail(
+      {
+        to: email,
+        subject: 'Continue your quote',
+        html: generateResumeLinkEmail(resumeUrl),
+      },
+      runtimeConfig.email
+    );
+
+    if (!sent.success) {
+      logger.error('Email', 'Failed to send resume link', { errorId, error: sent.error });
+      return createErrorResponse('Failed to send email', errorId, 502);
+    }
+
+    logger.info('API', 'Resume link sent', { sessionId: state.sessionId });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'Resume link sent',
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Resume link failed', formatError(error, errorId));
+
+    // Handle Zod validation errors
+    if (error && typeof error === 'object' && 'issues' in error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Validation error',
+          details: (error as any).issues,
+          errorId,
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    return createErrorResponse('Failed to send resume link', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
@@ -0,0 +1,97 @@
+/**
+ * RESUME SESSION ENDPOINT
+ *
+ * Returns the saved calculator state for a signed resume link token,
+ * with the session token the device needs to keep it in sync
+ */
+
+import { getRuntimeConfig } from '@/lib/config';
+import { createSessionToken, getSession, readResumeToken } from '@/lib/core/calculator/sessions';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { safeKV } from '@/lib/utils/kv';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+export const GET: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  const rateLimitOk = await checkRateLimit(context);
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  try {
+    const env = runtime?.env || import.meta.env || {};
+    const runtimeConfig = getRuntimeConfig(env);
+    const kv = safeKV(env, 'SESSIONS');
+
+    if (!kv || !runtimeConfig.sessions.secret) {
+      logger.error('API', 'Saved sessions not configured', { errorId });
+      return createErrorResponse('Saved sessions not available', errorId, 503);
+    }
+
+    const token = new URL(context.request.url).searchParams.get('token') || '';
+    const sessionId = await readResumeToken(token, runtimeConfig.sessions.secret);
+    const state = sessionId ? await getSession(kv, sessionId) : null;
+
+    if (!state) {
+      logger.warn('API', 'Resume link invalid or expired', { errorId });
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'This link is invalid or has expired',
+          errorId,
+        }),
+        {
+          status: 404,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    logger.info('API', 'Session resumed', { sessionId });
+
+    const sessionToken = await createSessionToken(state.sessionId, runtimeConfig.sessions.secret);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        state,
+        sessionToken,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Resume session failed', formatError(error, errorId));
+    return createErrorResponse('Failed to resume session', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
@@ -0,0 +1,75 @@
+/**
+ * START SESSION ENDPOINT
+ *
+ * Issues a sessionId with its signed session token. The calculator asks
+ * for one before it first saves anything on the server (a resume link or
+ * a draft lead), and sends the token with every later write.
+ */
+
+import { getRuntimeConfig } from '@/lib/config';
+import { createSessionToken } from '@/lib/core/calculator/sessions';
+import { checkRateLimit, createRateLimitResponse } from '@/lib/features/security/rate-limit';
+import { getCORSHeaders } from '@/lib/utils/cors';
+import { createErrorResponse, formatError, generateErrorId } from '@/lib/utils/error';
+import { logger } from '@/lib/utils/logger';
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+export const POST: APIRoute = async (context) => {
+  const runtime = context.locals.runtime as any;
+  const errorId = generateErrorId();
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  // 1. Rate limit (shared with session sync)
+  const rateLimitOk = await checkRateLimit(context, 'sessions');
+  if (!rateLimitOk) {
+    return createRateLimitResponse(errorId);
+  }
+
+  try {
+    // 2. Check session tokens can be signed
+    const env = runtime?.env || import.meta.env || {};
+    const runtimeConfig = getRuntimeConfig(env);
+
+    if (!runtimeConfig.sessions.secret) {
+      logger.error('API', 'Session secret not configured', { errorId });
+      return createErrorResponse('Saved sessions not available', errorId, 503);
+    }
+
+    // 3. Issue a new session
+    const sessionId = crypto.randomUUID();
+    const sessionToken = await createSessionToken(sessionId, runtimeConfig.sessions.secret);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sessionId,
+        sessionToken,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('API', 'Start session failed', formatError(error, errorId));
+    return createErrorResponse('Failed to start session', errorId, 500);
+  }
+};
+
+// CORS preflight
+export const OPTIONS: APIRoute = async (context) => {
+  const origin = context.request.headers.get('Origin');
+  const corsHeaders = getCORSHeaders(origin);
+
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
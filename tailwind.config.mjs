@@ -48,11 +48,16 @@ export default {
           '0%': { transform: 'translateX(0)', opacity: '1' },
           '100%': { transform: 'translateX(100%)', opacity: '0' },
         },
+        'step-in': {
+          '0%': { transform: 'translateY(0.5rem)', opacity: '0' },
+          '100%': { transform: 'translateY(0)', opacity: '1' },
+        },
       },
       animation: {
         'bounce-once': 'bounce-once 0.4s ease-out',
         'slide-in-right': 'slide-in-right 0.3s ease-out',
         'slide-out-right': 'slide-out-right 0.3s ease-in forwards',
+        'step-in': 'step-in 0.2s ease-out',
       },
     },
   },
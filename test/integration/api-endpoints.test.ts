@@ -24,24 +24,19 @@ describe('API Endpoints', () => {
   describe('POST /api/calculate', () => {
     it('should validate request schema', () => {
       const validRequest = {
-        step: 'step-01',
-        data: { test: true },
+        data: {
+          serviceType: 'home',
+          propertySize: '2bed',
+          sliderPosition: 3,
+          distances: { depotToFrom: 5, fromToTo: 10, toToDepot: 8, driveTimeHours: 1 },
+        },
         language: 'en',
       };
 
-      expect(validRequest).toHaveProperty('step');
       expect(validRequest).toHaveProperty('data');
+      expect(validRequest.data).toHaveProperty('distances');
       expect(validRequest.language).toBe('en');
     });
-
-    it('should require valid step', () => {
-      const invalidRequest = {
-        step: '',
-        data: {},
-      };
-
-      expect(invalidRequest.step).toBe('');
-    });
   });
 
   describe('POST /api/validate', () => {
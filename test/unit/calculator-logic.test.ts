@@ -0,0 +1,992 @@
+import type { DepotKey } from '@/lib/calculator-config';
+import {
+  type ClearanceInput,
+  type FurnitureOnlyInput,
+  type InventoryLine,
+  type PriceRange,
+  type QuoteInput,
+  calculateQuote,
+  checkOverrideDuration,
+  chooseDepot,
+  getCrewOptions,
+  getCubesForInventory,
+  getDateAdjustments,
+  getDepotPricing,
+  getDisposalItems,
+  getDriverBreakTime,
+  getDriverSchedule,
+  getEstimatedRooms,
+  getExtrasItems,
+  getFloorAccess,
+  getInsurancePremium,
+  getLoadTime,
+  getMileageItems,
+  getPackageExtras,
+  getPackages,
+  getPriceRange,
+  getPromoDiscount,
+  getResourcesForClearance,
+  getResourcesForFurnitureOnly,
+  getResourcesFromCubes,
+  getRoadChargeItems,
+  getRouteMiles,
+  getSpecialistItems,
+  getStopHandling,
+  getVatDisplay,
+  hasStairs,
+  isMonthEnd,
+  scaleLoadTime,
+  sumItems,
+  validateVanCrew,
+} from '@/lib/calculator-logic';
+import { DEFAULT_PRICING_CONFIG, pricingConfigSchema } from '@/lib/calculator-pricing';
+import { describe, expect, it } from 'vitest';
+
+const baseInput: QuoteInput = {
+  serviceType: 'home',
+  propertySize: '2bed',
+  sliderPosition: 3,
+  complications: [],
+  propertyChain: false,
+  distances: { depotToFrom: 5, fromToTo: 10, toToDepot: 8, driveTimeHours: 1 },
+  extras: {},
+};
+
+describe('Calculator Engine', () => {
+  describe('date pricing', () => {
+    it('should add a peak day surcharge on Saturdays', () => {
+      // Saturday 10 October 2026
+      const adjustments = getDateAdjustments(1000, '2026-10-10T09:00:00.000Z', 'fixed');
+      expect(adjustments.peakDaySurcharge).toBeCloseTo(150);
+      expect(adjustments.monthEndSurcharge).toBe(0);
+    });
+
+    it('should use the UK calendar date for ISO strings', () => {
+      // Local midnight Friday 9 October 2026 (BST) is Thursday 23:00 UTC
+      const adjustments = getDateAdjustments(1000, '2026-10-08T23:00:00.000Z', 'fixed');
+      expect(adjustments.peakDaySurcharge).toBeCloseTo(100);
+    });
+
+    it('should detect the last working days of the month', () => {
+      // October 2026 ends on Saturday 31st → Thu 29th and Fri 30th
+      expect(isMonthEnd(2026, 10, 30)).toBe(true);
+      expect(isMonthEnd(2026, 10, 29)).toBe(true);
+      expect(isMonthEnd(2026, 10, 28)).toBe(false);
+      expect(isMonthEnd(2026, 10, 31)).toBe(false);
+    });
+
+    it('should replace the peak day surcharge on bank holidays', () => {
+      // Good Friday 3 April 2026
+      const adjustments = getDateAdjustments(1000, '2026-04-03T09:00:00.000Z', 'fixed');
+      expect(adjustments.bankHolidaySurcharge).toBeCloseTo(250);
+      expect(adjustments.peakDaySurcharge).toBe(0);
+    });
+
+    it('should discount flexible dates without surcharges', () => {
+      const adjustments = getDateAdjustments(1000, '2026-10-10T09:00:00.000Z', 'flexible');
+      expect(adjustments.flexibleDiscount).toBeCloseTo(-50);
+      expect(adjustments.peakDaySurcharge).toBe(0);
+    });
+
+    it('should show each adjustment as its own breakdown line', () => {
+      const weekday = calculateQuote(
+        {
+          ...baseInput,
+          dateFlexibility: 'fixed',
+          selectedDate: '2026-10-14T09:00:00.000Z',
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+      const saturday = calculateQuote(
+        {
+          ...baseInput,
+          dateFlexibility: 'fixed',
+          selectedDate: '2026-10-10T09:00:00.000Z',
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(weekday.breakdown.peakDaySurcharge).toBe(0);
+      expect(saturday.breakdown.peakDaySurcharge).toBeGreaterThan(0);
+      expect(saturday.totalPrice).toBeGreaterThan(weekday.totalPrice);
+    });
+  });
+
+  describe('floor access', () => {
+    it('should add load time per floor at each address', () => {
+      const access = getFloorAccess(4, {
+        from: { floorLevel: 4, lift: 'none' },
+        to: { floorLevel: 0, lift: 'none' },
+      });
+      // Half of 4h at the 4th floor × 12% per floor
+      expect(access.extraLoadTime).toBeCloseTo(0.96);
+      expect(access.extraMen).toBe(1);
+    });
+
+    it('should count basements as one floor', () => {
+      const access = getFloorAccess(4, {
+        from: { floorLevel: -1, lift: 'none' },
+        to: { floorLevel: 0, lift: 'none' },
+      });
+      expect(access.extraLoadTime).toBeCloseTo(0.24);
+      expect(access.extraMen).toBe(0);
+    });
+
+    it('should not add a mover when the lift fits furniture', () => {
+      const access = getFloorAccess(4, {
+        from: { floorLevel: 6, lift: 'fits' },
+        to: { floorLevel: 0, lift: 'none' },
+      });
+      expect(access.extraLoadTime).toBeCloseTo(0.24);
+      expect(access.extraMen).toBe(0);
+    });
+
+    it('should ignore partial floor data', () => {
+      const access = getFloorAccess(4, { from: { floorLevel: 6, lift: 'none' } });
+      expect(access.extraLoadTime).toBe(0);
+    });
+
+    it('should price a walk-up above a ground floor move', () => {
+      const ground = calculateQuote(
+        {
+          ...baseInput,
+          access: { from: { floorLevel: 0, lift: 'none' }, to: { floorLevel: 0, lift: 'none' } },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+      const walkUp = calculateQuote(
+        {
+          ...baseInput,
+          access: { from: { floorLevel: 6, lift: 'none' }, to: { floorLevel: 0, lift: 'none' } },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(walkUp.men).toBe(ground.men + 1);
+      expect(walkUp.loadTime).toBeGreaterThan(ground.loadTime);
+      expect(walkUp.accessTime).toBeGreaterThan(0);
+      expect(walkUp.totalPrice).toBeGreaterThan(ground.totalPrice);
+    });
+
+    it('should replace the stairs complication when floor data is present', () => {
+      const access: QuoteInput['access'] = {
+        from: { floorLevel: 0, lift: 'none' },
+        to: { floorLevel: 0, lift: 'none' },
+      };
+      const withStairs = calculateQuote(
+        { ...baseInput, access, complications: ['stairs'] },
+        DEFAULT_PRICING_CONFIG
+      );
+      const withoutStairs = calculateQuote({ ...baseInput, access }, DEFAULT_PRICING_CONFIG);
+      const legacyStairs = calculateQuote(
+        { ...baseInput, complications: ['stairs'] },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(withStairs.totalPrice).toBe(withoutStairs.totalPrice);
+      expect(legacyStairs.breakdown.complicationMultiplier).toBeCloseTo(1.07);
+    });
+
+    it('should keep a manual crew choice', () => {
+      const result = calculateQuote(
+        {
+          ...baseInput,
+          manualOverride: { men: 2, vans: 1 },
+          access: { from: { floorLevel: 6, lift: 'none' }, to: { floorLevel: 0, lift: 'none' } },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+      expect(result.men).toBe(2);
+    });
+  });
+
+  describe('pricing config', () => {
+    it('should keep only pricing fields from the bundled config', () => {
+      expect(DEFAULT_PRICING_CONFIG.profitMargin).toBe(0.65);
+      expect(DEFAULT_PRICING_CONFIG).not.toHaveProperty('progressMessages');
+      expect(DEFAULT_PRICING_CONFIG.assembly.simple).toEqual({ price: 30 });
+    });
+
+    it('should restore open-ended limits after a JSON round trip', () => {
+      const stored = JSON.parse(JSON.stringify(DEFAULT_PRICING_CONFIG));
+      const config = pricingConfigSchema.parse(stored);
+
+      expect(config.mileageRates.at(-1)?.maxMiles).toBe(Number.POSITIVE_INFINITY);
+      expect(config.packing.xl.cubesMax).toBe(Number.POSITIVE_INFINITY);
+    });
+
+    it('should reject a config with missing keys', () => {
+      const { storage: _storage, ...incomplete } = DEFAULT_PRICING_CONFIG;
+      const result = pricingConfigSchema.safeParse({
+        ...incomplete,
+        assembly: { simple: { price: 30 } },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should price with the config it is given', () => {
+      const current = calculateQuote(baseInput, DEFAULT_PRICING_CONFIG);
+      const raised = calculateQuote(baseInput, {
+        ...DEFAULT_PRICING_CONFIG,
+        vanRates: { halfDay: 80, fullDay: 160 },
+        profitMargin: 0.7,
+      });
+
+      expect(raised.totalPrice).toBeGreaterThan(current.totalPrice);
+      expect(raised.breakdown.vansCost).toBe(current.breakdown.vansCost * 1.6);
+    });
+
+    it('should take VAT and crew limits from the config it is given', () => {
+      const config = pricingConfigSchema.parse({
+        ...DEFAULT_PRICING_CONFIG,
+        vat: { ...DEFAULT_PRICING_CONFIG.vat, rate: 0.175 },
+        validation: { ...DEFAULT_PRICING_CONFIG.validation, maxCrewPerVan: 2 },
+      });
+
+      expect(calculateQuote(baseInput, config).vat.rate).toBe(0.175);
+      expect(validateVanCrew(1, 3).valid).toBe(true);
+      expect(validateVanCrew(1, 3, config).valid).toBe(false);
+      for (const option of getCrewOptions(1249, config)) {
+        expect(option.men).toBeLessThanOrEqual(option.vans * 2);
+      }
+    });
+
+    it('should take specialist item weight classes from the config it is given', () => {
+      const input: FurnitureOnlyInput = {
+        itemCount: 1,
+        needs2Person: false,
+        over40kg: false,
+        specialistItems: ['piano'],
+      };
+      const { furnitureOnly } = DEFAULT_PRICING_CONFIG;
+      const config = pricingConfigSchema.parse({
+        ...DEFAULT_PRICING_CONFIG,
+        furnitureOnly: {
+          ...furnitureOnly,
+          specialistItems: {
+            ...furnitureOnly.specialistItems,
+            piano: { ...furnitureOnly.specialistItems.piano, weightClass: 'medium' },
+          },
+        },
+      });
+
+      expect(
+        getResourcesForFurnitureOnly(input).loadTime -
+          getResourcesForFurnitureOnly(input, config).loadTime
+      ).toBe(
+        furnitureOnly.weightClasses.veryHeavy.loadTime - furnitureOnly.weightClasses.medium.loadTime
+      );
+    });
+  });
+
+  describe('price items', () => {
+    it('should add up to the total price', () => {
+      const result = calculateQuote(
+        {
+          ...baseInput,
+          complications: ['stairs', 'attic'],
+          selectedDate: '2026-10-10T09:00:00.000Z',
+          dateFlexibility: 'fixed',
+          extras: { packingTier: 'fragile', cleaningRooms: 2, cleaningType: 'deep' },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(sumItems(result.items)).toBe(result.totalPrice);
+      expect(result.items.at(-1)?.kind).toBe('service');
+    });
+
+    it('should label each selection', () => {
+      const result = calculateQuote(
+        {
+          ...baseInput,
+          selectedDate: '2026-10-10T09:00:00.000Z',
+          dateFlexibility: 'fixed',
+          extras: {
+            packingTier: 'fragile',
+            disassemblyItems: [
+              { category: 'simple', quantity: 2 },
+              { category: 'complex', quantity: 1 },
+            ],
+          },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+      const labels = result.items.map((item) => item.label);
+
+      expect(labels).toContain('Saturday move');
+      expect(labels).toContain('Packing - Fragile Items');
+      expect(result.items.find((item) => item.id === 'assembly-simple')).toMatchObject({
+        amount: 60,
+        quantity: 2,
+      });
+    });
+
+    it('should compound complication uplifts', () => {
+      const result = calculateQuote(
+        { ...baseInput, complications: ['stairs', 'attic'] },
+        DEFAULT_PRICING_CONFIG
+      );
+      const uplifts = result.items.filter((item) => item.kind === 'complication');
+      const base = result.breakdown.subtotal / result.breakdown.complicationMultiplier;
+
+      expect(uplifts).toHaveLength(2);
+      expect(uplifts[0].amount).toBe(Math.round(base * 0.07));
+      expect(uplifts[1].amount).toBe(Math.round(base * 1.07 * 0.07));
+    });
+
+    it('should split mileage into tiers', () => {
+      const items = getMileageItems(120);
+
+      expect(items.map((item) => item.quantity)).toEqual([50, 50, 20]);
+      expect(items[2].label).toBe('Mileage - miles 101-250');
+    });
+  });
+
+  describe('promo codes', () => {
+    const promo = { code: 'SPRING10', type: 'percent' as const, value: 10 };
+
+    it('should take a percentage off the total as its own line', () => {
+      const full = calculateQuote(baseInput, DEFAULT_PRICING_CONFIG);
+      const discounted = calculateQuote({ ...baseInput, promo }, DEFAULT_PRICING_CONFIG);
+      const line = discounted.items.find((item) => item.kind === 'discount');
+
+      expect(discounted.totalPrice).toBeLessThan(full.totalPrice);
+      expect(discounted.promoCode).toBe('SPRING10');
+      expect(line?.label).toBe('Promo code SPRING10');
+      expect(sumItems(discounted.items)).toBe(discounted.totalPrice);
+    });
+
+    it('should ignore codes the job does not qualify for', () => {
+      const result = calculateQuote(
+        { ...baseInput, promo: { ...promo, serviceTypes: ['office'] } },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(result.promoCode).toBeUndefined();
+      expect(result.breakdown.promoDiscount).toBe(0);
+      expect(getPromoDiscount(400, 'home', { ...promo, minJobValue: 500 })).toBe(0);
+    });
+
+    it('should cap fixed discounts at the price', () => {
+      expect(getPromoDiscount(1000, 'home', { code: 'FIFTY', type: 'fixed', value: 50 })).toBe(50);
+      expect(getPromoDiscount(30, 'home', { code: 'FIFTY', type: 'fixed', value: 50 })).toBe(30);
+    });
+  });
+
+  describe('VAT', () => {
+    it('should split the total into net and VAT', () => {
+      const result = calculateQuote(baseInput, DEFAULT_PRICING_CONFIG);
+
+      expect(result.vat.gross).toBe(result.totalPrice);
+      expect(result.vat.net + result.vat.vat).toBeCloseTo(result.totalPrice, 2);
+      expect(result.vat.vat).toBeCloseTo(result.totalPrice / 6, 0);
+    });
+
+    it('should carry no VAT on exempt lines', () => {
+      const result = calculateQuote(
+        { ...baseInput, extras: { storageSize: 'smallBedroom', storageWeeks: 4 } },
+        DEFAULT_PRICING_CONFIG
+      );
+      const storage = result.items.find((item) => item.id.startsWith('storage-'));
+
+      expect(storage?.vat).toBe(0);
+      expect(result.vat.vat).toBeLessThan(result.totalPrice / 6);
+    });
+
+    it('should show office prices ex. VAT', () => {
+      expect(getVatDisplay('office')).toBe('ex');
+      expect(getVatDisplay('home')).toBe('inc');
+      expect(getVatDisplay(null)).toBe('inc');
+    });
+  });
+
+  describe('inventory', () => {
+    const inventory: InventoryLine[] = [
+      { item: 'doubleBed', quantity: 1 },
+      { item: 'sofa3Seater', quantity: 1 },
+      { item: 'mediumBox', quantity: 40 },
+    ];
+
+    it('should total item volumes into cubes', () => {
+      // 60 + 50 + 40 × 3
+      expect(getCubesForInventory(inventory)).toBe(230);
+    });
+
+    it('should size the job from the inventory instead of the slider', () => {
+      const result = calculateQuote(
+        { ...baseInput, sliderPosition: 5, inventory },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(result.cubes).toBe(230);
+      expect(result.men).toBe(DEFAULT_PRICING_CONFIG.smallJobResources.men);
+    });
+
+    it('should use versioned item volumes', () => {
+      const config = pricingConfigSchema.parse({
+        ...DEFAULT_PRICING_CONFIG,
+        inventoryItems: {
+          ...DEFAULT_PRICING_CONFIG.inventoryItems,
+          mediumBox: { cubes: 4 },
+        },
+      });
+
+      expect(getCubesForInventory(inventory, config)).toBe(270);
+    });
+  });
+
+  describe('clearance', () => {
+    const clearance: ClearanceInput = { load: 'half', items: {}, recycling: false };
+
+    it('should charge tip fees by volume', () => {
+      const [general] = getDisposalItems(clearance);
+
+      // 8 cu yd × £22
+      expect(general.id).toBe('disposal-general');
+      expect(general.amount).toBe(176);
+    });
+
+    it('should send less to the tip when recycling, but take longer', () => {
+      const [general] = getDisposalItems({ ...clearance, recycling: true });
+
+      // 30% diverted: 5.6 cu yd × £22
+      expect(general.amount).toBeCloseTo(123.2);
+      expect(getResourcesForClearance({ ...clearance, recycling: true }).loadTime).toBeGreaterThan(
+        getResourcesForClearance(clearance).loadTime
+      );
+    });
+
+    it('should add a fee per item for special waste', () => {
+      const items = getDisposalItems({ ...clearance, items: { mattresses: 2, weee: 0 } });
+
+      expect(items.map((item) => item.id)).toEqual(['disposal-general', 'disposal-mattresses']);
+      expect(items[1].amount).toBe(
+        DEFAULT_PRICING_CONFIG.clearance.wasteCategories.mattresses.fee * 2
+      );
+    });
+
+    it('should size the crew and vans from the load', () => {
+      expect(getResourcesForClearance({ ...clearance, load: 'fewItems' })).toMatchObject({
+        men: 1,
+        vans: 1,
+      });
+      expect(getResourcesForClearance({ ...clearance, load: 'double' })).toMatchObject({
+        men: 3,
+        vans: 2,
+      });
+    });
+
+    it('should price a clearance quote with disposal lines', () => {
+      const result = calculateQuote(
+        {
+          ...baseInput,
+          serviceType: 'clearance',
+          propertySize: undefined,
+          sliderPosition: undefined,
+          clearance,
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(result.breakdown.disposalCost).toBe(176);
+      expect(result.items.some((item) => item.kind === 'disposal')).toBe(true);
+    });
+  });
+
+  describe('specialist items', () => {
+    const pianoOnly: FurnitureOnlyInput = {
+      itemCount: 2,
+      needs2Person: false,
+      over40kg: false,
+      specialistItems: ['piano'],
+    };
+    const furniture: QuoteInput = {
+      ...baseInput,
+      propertySize: 'furniture',
+      sliderPosition: undefined,
+      furnitureOnly: pianoOnly,
+    };
+
+    it('should add movers and load time by weight class', () => {
+      const { weightClasses } = DEFAULT_PRICING_CONFIG.furnitureOnly;
+      const plain = getResourcesForFurnitureOnly({
+        ...pianoOnly,
+        specialistItems: [],
+      });
+      const piano = getResourcesForFurnitureOnly(pianoOnly);
+      const gym = getResourcesForFurnitureOnly({
+        ...pianoOnly,
+        specialistItems: ['piano', 'gym-equipment'],
+      });
+
+      expect(piano).toMatchObject({ men: plain.men + 2, requiresCallback: false });
+      expect(piano.loadTime).toBe(plain.loadTime + weightClasses.veryHeavy.loadTime);
+
+      // The heaviest item sets the crew, each item adds its time
+      expect(gym.men).toBe(piano.men);
+      expect(gym.loadTime).toBe(piano.loadTime + weightClasses.heavy.loadTime);
+    });
+
+    it('should only need a callback for other items', () => {
+      const quote = calculateQuote(
+        {
+          ...furniture,
+          furnitureOnly: { ...pianoOnly, specialistItems: ['piano', 'other'] },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(quote.requiresCallback).toBe(true);
+      expect(quote.callbackReason).toBe('specialist_items');
+      expect(calculateQuote(furniture, DEFAULT_PRICING_CONFIG).requiresCallback).toBe(false);
+    });
+
+    it('should charge a handling fee, more on stairs', () => {
+      const { specialistItems, stairsMultiplier } = DEFAULT_PRICING_CONFIG.furnitureOnly;
+      const fee = specialistItems.piano.handlingFee;
+
+      expect(getSpecialistItems(['piano'], false)).toEqual([
+        expect.objectContaining({ id: 'specialist-piano', kind: 'specialist', amount: fee }),
+      ]);
+      expect(getSpecialistItems(['piano'], true)[0].amount).toBe(fee * stairsMultiplier);
+    });
+
+    it('should treat floors without a suitable lift as stairs', () => {
+      expect(
+        hasStairs(
+          { from: { floorLevel: 2, lift: 'fits' }, to: { floorLevel: 0, lift: 'none' } },
+          []
+        )
+      ).toBe(false);
+      expect(hasStairs({ from: { floorLevel: -1, lift: 'none' } }, [])).toBe(true);
+      expect(hasStairs(undefined, ['stairs'])).toBe(true);
+    });
+
+    it('should price a furniture-only quote with handling lines', () => {
+      const quote = calculateQuote(furniture, DEFAULT_PRICING_CONFIG);
+
+      expect(quote.breakdown.specialistCost).toBe(
+        DEFAULT_PRICING_CONFIG.furnitureOnly.specialistItems.piano.handlingFee
+      );
+      expect(quote.items.some((item) => item.id === 'specialist-piano')).toBe(true);
+    });
+  });
+
+  describe('extra stops', () => {
+    const { handlingTime } = DEFAULT_PRICING_CONFIG.stops;
+
+    it('should add handling time per stop', () => {
+      const result = getStopHandling([{ type: 'pickup' }, { type: 'dropoff' }]);
+
+      expect(result.extraLoadTime).toBe(handlingTime * 2);
+      expect(result.extraMen).toBe(0);
+    });
+
+    it('should add time and a mover for floors at a stop', () => {
+      const result = getStopHandling([{ type: 'pickup', access: { floorLevel: 3, lift: 'none' } }]);
+      const { timeFactor } = DEFAULT_PRICING_CONFIG.floorAccess.lift.none;
+
+      expect(result.extraLoadTime).toBeCloseTo(handlingTime + handlingTime * 3 * timeFactor);
+      expect(result.extraMen).toBe(1);
+    });
+
+    it('should drive the full route across all legs', () => {
+      expect(getRouteMiles({ ...baseInput.distances, legs: [4, 3, 7] })).toBe(5 + 14 + 8);
+      expect(getRouteMiles(baseInput.distances)).toBe(5 + 10 + 8);
+    });
+
+    it('should take longer with stops on the way', () => {
+      const withoutStops = calculateQuote(baseInput, DEFAULT_PRICING_CONFIG);
+      const withStops = calculateQuote(
+        { ...baseInput, stops: [{ type: 'pickup' }, { type: 'dropoff' }] },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(withStops.loadTime).toBeCloseTo(withoutStops.loadTime + handlingTime * 2);
+    });
+  });
+
+  describe('crew solver', () => {
+    it('should load faster with more movers, with diminishing returns', () => {
+      const two = getLoadTime(1000, 2);
+      const four = getLoadTime(1000, 4);
+
+      expect(four).toBeLessThan(two);
+      expect(four).toBeGreaterThan(two / 2);
+    });
+
+    it('should only offer valid crews that load within a day, cheapest first', () => {
+      const options = getCrewOptions(1249);
+
+      expect(options.length).toBeGreaterThan(1);
+      for (const option of options) {
+        expect(validateVanCrew(option.vans, option.men).valid).toBe(true);
+        expect(option.duration.days).toBeLessThanOrEqual(1);
+      }
+      expect(options.map((option) => option.cost)).toEqual(
+        [...options.map((option) => option.cost)].sort((a, b) => a - b)
+      );
+    });
+
+    it('should size between the old table rows', () => {
+      // The table lookup gave 1249 cubes the 1000-cube crew
+      const [best] = getCrewOptions(1249);
+
+      expect(getResourcesFromCubes(1249)).toMatchObject({ men: best.men, vans: best.vans });
+      expect(getResourcesFromCubes(1249).men).toBeGreaterThan(getResourcesFromCubes(1000).men);
+    });
+
+    it('should use versioned productivity rates', () => {
+      const config = pricingConfigSchema.parse({
+        ...DEFAULT_PRICING_CONFIG,
+        crewSolver: { ...DEFAULT_PRICING_CONFIG.crewSolver, cubesPerMoverHour: 40 },
+      });
+
+      // Slower movers can't finish in a half day any more
+      expect(getCrewOptions(1000)[0].duration.isHalfDay).toBe(true);
+      expect(getCrewOptions(1000, config)[0].duration.isHalfDay).toBe(false);
+    });
+  });
+
+  describe('crew override', () => {
+    const bigMove: QuoteInput = { ...baseInput, propertySize: '4bed', sliderPosition: 4 };
+
+    it('should scale load time with crew size like the solver', () => {
+      expect(scaleLoadTime(getLoadTime(1000, 4), 4, 2)).toBeCloseTo(getLoadTime(1000, 2));
+      expect(scaleLoadTime(3, 2, 2)).toBe(3);
+    });
+
+    it('should recalculate the duration for a smaller crew', () => {
+      const recommended = calculateQuote(bigMove, DEFAULT_PRICING_CONFIG);
+      const override = calculateQuote(
+        { ...bigMove, manualOverride: { men: 2, vans: recommended.vans } },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(override.loadTime).toBeGreaterThan(recommended.loadTime);
+      expect(override.serviceDays).toBeGreaterThan(recommended.serviceDays);
+      expect(override.serviceDuration).not.toBe(recommended.serviceDuration);
+    });
+
+    it('should warn when an override adds a day', () => {
+      const recommended = getResourcesFromCubes(1500);
+
+      expect(checkOverrideDuration(recommended, 2)).toMatchObject({ longer: true });
+      expect(checkOverrideDuration(recommended, 2).message).toContain('2 movers');
+      expect(checkOverrideDuration(recommended, recommended.men + 1).longer).toBe(false);
+    });
+  });
+
+  describe('drivers hours', () => {
+    it('should add a break for every 4.5 hours of driving', () => {
+      expect(getDriverBreakTime(4)).toBe(0);
+      expect(getDriverBreakTime(9)).toBe(0.75);
+      expect(getDriverBreakTime(10)).toBe(1.5);
+    });
+
+    it('should keep the usual durations when the crew gets home', () => {
+      const schedule = getDriverSchedule({ men: 2, vans: 1, loadTime: 3 }, 2, false);
+
+      expect(schedule).toMatchObject({ plan: 'local', nights: 0, secondDrivers: 0 });
+      expect(schedule.duration.label).toBe('Half Day');
+    });
+
+    it('should add second drivers when that saves days', () => {
+      // Alone: 3 days, 2 nights - two drivers per van get there a day sooner
+      const schedule = getDriverSchedule({ men: 3, vans: 2, loadTime: 6 }, 20, false);
+
+      expect(schedule).toMatchObject({
+        plan: 'secondDriver',
+        nights: 1,
+        secondDrivers: 1,
+        breakTime: 0,
+      });
+      expect(schedule.duration.days).toBe(2);
+    });
+
+    it('should stop overnight when a second driver saves nothing', () => {
+      // Loading is the long part, so a second driver still takes 2 days
+      const schedule = getDriverSchedule({ men: 1, vans: 1, loadTime: 12 }, 9.5, false);
+
+      expect(schedule).toMatchObject({
+        plan: 'overnight',
+        nights: 1,
+        secondDrivers: 0,
+        breakTime: 1.5,
+      });
+      expect(schedule.duration.days).toBe(2);
+    });
+
+    it('should price a long-distance quote from the schedule', () => {
+      const quote = calculateQuote(
+        {
+          ...baseInput,
+          distances: { depotToFrom: 5, fromToTo: 600, toToDepot: 600, driveTimeHours: 20 },
+        },
+        DEFAULT_PRICING_CONFIG
+      );
+      const accommodation = quote.items.find((item) => item.id === 'accommodation');
+
+      expect(quote.schedule.plan).not.toBe('local');
+      expect(quote.serviceDays).toBe(quote.schedule.duration.days);
+      expect(accommodation?.label).toContain(`${quote.schedule.nights} night`);
+    });
+  });
+
+  describe('road charges', () => {
+    const { zones, tolls } = DEFAULT_PRICING_CONFIG.roadCharges;
+
+    it('should charge a zone per van per day by postcode district', () => {
+      const items = getRoadChargeItems(
+        { points: [{ postcode: 'BS1 4DJ' }, { postcode: 'BS10 5PN' }] },
+        2,
+        2
+      );
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          id: 'zone-bristolCaz',
+          kind: 'travel',
+          amount: zones.bristolCaz.dailyCharge * 4,
+        }),
+      ]);
+      expect(items[0].label).toContain('2 vans × 2 days');
+    });
+
+    it('should charge every zone an address falls in', () => {
+      const items = getRoadChargeItems({ points: [{ lat: 51.51, lng: -0.12 }] }, 1, 0.5);
+
+      expect(items.map((item) => item.id)).toEqual(['zone-londonCongestion', 'zone-londonUlez']);
+      expect(sumItems(items)).toBe(
+        zones.londonCongestion.dailyCharge + zones.londonUlez.dailyCharge
+      );
+    });
+
+    it('should charge a toll when the path crosses it', () => {
+      // Straight north → south through the Dartford Crossing
+      const items = getRoadChargeItems({ points: [], path: '_riyHokq@ntL?' }, 2, 1);
+
+      expect(items).toEqual([
+        expect.objectContaining({ id: 'toll-dartford', amount: tolls.dartford.charge * 2 }),
+      ]);
+    });
+
+    it('should add road charge lines to the quote', () => {
+      const route = { points: [{ postcode: 'BS1 4DJ' }] };
+      const quote = calculateQuote({ ...baseInput, route }, DEFAULT_PRICING_CONFIG);
+
+      expect(quote.breakdown.roadChargesCost).toBe(zones.bristolCaz.dailyCharge * quote.vans);
+      expect(quote.items.some((item) => item.id === 'zone-bristolCaz')).toBe(true);
+      expect(calculateQuote(baseInput, DEFAULT_PRICING_CONFIG).breakdown.roadChargesCost).toBe(0);
+    });
+  });
+
+  describe('depots', () => {
+    const depots = { north: { serviceRadiusMiles: 30 }, south: { serviceRadiusMiles: 60 } };
+    const route = (depot: string, depotToFrom: number, toToDepot: number) => ({
+      depot: depot as DepotKey,
+      depotToFrom,
+      toToDepot,
+    });
+
+    it('should pick the shortest round trip', () => {
+      const routes = [route('north', 20, 40), route('south', 25, 10)];
+
+      expect(chooseDepot(routes, depots)?.depot).toBe('south');
+    });
+
+    it('should skip depots outside their service radius', () => {
+      const routes = [route('north', 35, 5), route('south', 50, 30)];
+
+      expect(chooseDepot(routes, depots)?.depot).toBe('south');
+    });
+
+    it('should fall back to all depots when none covers the address', () => {
+      const routes = [route('north', 100, 90), route('south', 120, 40)];
+
+      expect(chooseDepot(routes, depots)?.depot).toBe('south');
+      expect(chooseDepot([], depots)).toBeUndefined();
+    });
+
+    it('should price with branch rate overrides', () => {
+      const config = pricingConfigSchema.parse({
+        ...DEFAULT_PRICING_CONFIG,
+        depots: { bristol: { rates: { vanRates: { halfDay: 80, fullDay: 160 } } } },
+      });
+
+      expect(getDepotPricing(config).vanRates.fullDay).toBe(100);
+      expect(getDepotPricing(config, 'bristol').vanRates.fullDay).toBe(160);
+      expect(getDepotPricing(config, 'bristol').moverRates).toEqual(config.moverRates);
+
+      const standard = calculateQuote(baseInput, config);
+      const branch = calculateQuote({ ...baseInput, depot: 'bristol' }, config);
+
+      expect(branch.breakdown.vansCost).toBeGreaterThan(standard.breakdown.vansCost);
+      expect(
+        calculateQuote({ ...baseInput, depot: 'bristol' }, DEFAULT_PRICING_CONFIG).totalPrice
+      ).toBe(calculateQuote(baseInput, DEFAULT_PRICING_CONFIG).totalPrice);
+    });
+  });
+
+  describe('price range', () => {
+    it('should only price a band when asked', () => {
+      expect(calculateQuote(baseInput, DEFAULT_PRICING_CONFIG).range).toBeUndefined();
+
+      const quote = calculateQuote(baseInput, DEFAULT_PRICING_CONFIG, { range: true });
+
+      expect(quote.range?.expected).toBe(quote.totalPrice);
+      expect(quote.range?.low).toBeLessThan(quote.totalPrice);
+      expect(quote.range?.high).toBeGreaterThan(quote.totalPrice);
+      expect(quote.range?.factors).toEqual(['volume', 'date', 'driveTime']);
+    });
+
+    it('should narrow the band once the volume and date are known', () => {
+      const estimated = calculateQuote(baseInput, DEFAULT_PRICING_CONFIG, { range: true });
+      const known = calculateQuote(
+        {
+          ...baseInput,
+          inventory: [{ item: 'doubleBed', quantity: 2 }],
+          dateFlexibility: 'fixed',
+          selectedDate: '2026-06-10',
+        },
+        DEFAULT_PRICING_CONFIG,
+        { range: true }
+      );
+
+      const width = (range?: PriceRange) => (range ? range.high - range.low : 0);
+
+      expect(known.range?.factors).toEqual(['driveTime']);
+      expect(width(known.range)).toBeLessThan(width(estimated.range));
+    });
+
+    it('should add the date premium to the top of the band', () => {
+      const input: QuoteInput = { ...baseInput, inventory: [{ item: 'doubleBed', quantity: 2 }] };
+      const noPremium = pricingConfigSchema.parse({
+        ...DEFAULT_PRICING_CONFIG,
+        priceRange: { ...DEFAULT_PRICING_CONFIG.priceRange, datePremium: 0, driveTimeVariance: 0 },
+      });
+      const expected = calculateQuote(input, DEFAULT_PRICING_CONFIG).totalPrice;
+
+      expect(getPriceRange(input, noPremium, expected)).toEqual({
+        low: expected,
+        expected,
+        high: expected,
+        factors: [],
+      });
+      expect(
+        getPriceRange({ ...input, dateFlexibility: 'flexible' }, noPremium, expected).factors
+      ).toEqual([]);
+
+      const withPremium = pricingConfigSchema.parse({
+        ...noPremium,
+        priceRange: { ...noPremium.priceRange, datePremium: 0.15 },
+      });
+
+      expect(getPriceRange(input, withPremium, expected).high).toBeGreaterThan(expected);
+      expect(getPriceRange(input, withPremium, expected).factors).toEqual(['date']);
+    });
+  });
+
+  describe('packages', () => {
+    it('should price move-only, packed and complete packages in order', () => {
+      const packages = getPackages(baseInput, DEFAULT_PRICING_CONFIG);
+
+      expect(packages.map((pkg) => pkg.key)).toEqual(['moveOnly', 'packed', 'complete']);
+      expect(packages[0].quote.totalPrice).toBe(
+        calculateQuote(baseInput, DEFAULT_PRICING_CONFIG).totalPrice
+      );
+      expect(packages[1].quote.totalPrice).toBeGreaterThan(packages[0].quote.totalPrice);
+      expect(packages[2].quote.totalPrice).toBeGreaterThan(packages[1].quote.totalPrice);
+    });
+
+    it('should size disassembly and cleaning by bedroom', () => {
+      expect(getEstimatedRooms('3bed-large')).toBe(3);
+      expect(getEstimatedRooms(null)).toBe(2);
+
+      expect(getPackageExtras('complete', {}, '3bed-large')).toEqual({
+        packingTier: 'fullService',
+        disassemblyItems: [{ category: 'general', quantity: 3 }],
+        cleaningRooms: 3,
+        cleaningType: 'deep',
+      });
+      expect(getPackageExtras('moveOnly', { packingTier: 'fragile', cleaningRooms: 2 })).toEqual({
+        packingTier: undefined,
+        disassemblyItems: [],
+        cleaningRooms: undefined,
+        cleaningType: undefined,
+      });
+    });
+
+    it("should keep the customer's own disassembly and storage", () => {
+      const input: QuoteInput = {
+        ...baseInput,
+        extras: {
+          disassemblyItems: [{ category: 'complex', quantity: 1 }],
+          storageSize: 'smallWardrobe',
+          storageWeeks: 4,
+        },
+      };
+      const packed = getPackages(input, DEFAULT_PRICING_CONFIG)[1];
+
+      expect(packed.extras.disassemblyItems).toEqual([{ category: 'complex', quantity: 1 }]);
+      expect(packed.quote.items.map((item) => item.id)).toContain('storage-smallWardrobe');
+    });
+
+    it('should not offer packages without an extras step', () => {
+      expect(
+        getPackages(
+          {
+            ...baseInput,
+            serviceType: 'clearance',
+            clearance: { load: 'half', items: {}, recycling: false },
+          },
+          DEFAULT_PRICING_CONFIG
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('insurance', () => {
+    it('should charge a share of the declared value with a minimum', () => {
+      expect(getInsurancePremium({ level: 'full', declaredValue: 30000 })).toBe(300);
+      expect(getInsurancePremium({ level: 'basic', declaredValue: 30000 })).toBe(150);
+      expect(getInsurancePremium({ level: 'basic', declaredValue: 2000 })).toBe(25);
+    });
+
+    it('should add a VAT-exempt extras line', () => {
+      const insurance = { level: 'full' as const, declaredValue: 30000 };
+      const items = getExtrasItems({ insurance }, 0);
+
+      expect(items).toEqual([
+        expect.objectContaining({ id: 'insurance-full', kind: 'extra', amount: 300 }),
+      ]);
+      expect(items[0].label).toContain('£30,000 declared');
+
+      const quote = calculateQuote({ ...baseInput, extras: { insurance } }, DEFAULT_PRICING_CONFIG);
+      const line = quote.items.find((item) => item.id === 'insurance-full');
+
+      expect(quote.breakdown.extrasCost).toBe(300);
+      expect(line?.vat).toBe(0);
+    });
+
+    it('should price cover for furniture-only moves', () => {
+      const furniture: QuoteInput = {
+        ...baseInput,
+        propertySize: 'furniture',
+        sliderPosition: undefined,
+        furnitureOnly: { itemCount: 2, needs2Person: false, over40kg: false, specialistItems: [] },
+      };
+      const insured = calculateQuote(
+        { ...furniture, extras: { insurance: { level: 'basic', declaredValue: 1000 } } },
+        DEFAULT_PRICING_CONFIG
+      );
+
+      expect(insured.breakdown.extrasCost).toBe(25);
+      expect(insured.totalPrice).toBeGreaterThan(
+        calculateQuote(furniture, DEFAULT_PRICING_CONFIG).totalPrice
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { MIGRATIONS, STATE_VERSION, migrateState } from '@/lib/calculator-migrations';
+import { calculatorStore, restoreSavedState } from '@/lib/calculator-store';
+import { describe, expect, it } from 'vitest';
+
+const initial = calculatorStore.get();
+
+// A save from before stateVersion, with numbered steps and legacy extras
+function createLegacySave() {
+  const { stateVersion, ...state } = initial;
+
+  return {
+    ...state,
+    currentStep: 10.1,
+    serviceType: 'home',
+    propertySize: '3bed-small',
+    extras: {
+      ...initial.extras,
+      packing: 'fragileOnly',
+      storage: 'gardenShed',
+      assembly: [{ type: 'complex', quantity: 2 }],
+    },
+  };
+}
+
+describe('Saved State Migrations', () => {
+  it('should have one migration per version', () => {
+    expect(STATE_VERSION).toBe(MIGRATIONS.length);
+    expect(initial.stateVersion).toBe(STATE_VERSION);
+  });
+
+  it('should upgrade an unversioned save step by step', () => {
+    const { state, version } = migrateState(createLegacySave());
+
+    expect(version).toBe(STATE_VERSION);
+    expect(state.stateVersion).toBe(STATE_VERSION);
+    expect(state.currentStep).toBe('step-10a');
+    expect(state.extras).toMatchObject({
+      gateway: ['packing', 'storage', 'assembly'],
+      packingTier: 'fragile',
+      storageSize: 'gardenShed',
+      storageWeeks: undefined,
+      disassemblyItems: [{ category: 'complex', quantity: 2 }],
+    });
+    expect(state.extras).not.toHaveProperty('packing');
+    expect(state.extras).not.toHaveProperty('storage');
+    expect(state.extras).not.toHaveProperty('assembly');
+  });
+
+  it('should send a save past storage back to choose the storage duration', () => {
+    const { state } = migrateState({ ...createLegacySave(), currentStep: 12 });
+
+    expect(state.currentStep).toBe('step-10d');
+  });
+
+  it('should leave a current save unchanged', () => {
+    const { state, version } = migrateState({ ...initial });
+
+    expect(version).toBe(STATE_VERSION);
+    expect(state).toEqual(initial);
+  });
+
+  it('should stop at the last version that migrated', () => {
+    const failing = [
+      (state: Record<string, unknown>) => ({ ...state, upgraded: true }),
+      () => {
+        throw new Error('Unexpected shape');
+      },
+    ];
+
+    const { state, version } = migrateState({ stateVersion: 0 }, failing);
+
+    expect(version).toBe(1);
+    expect(state).toEqual({ stateVersion: 1, upgraded: true });
+  });
+});
+
+describe('restoreSavedState', () => {
+  it('should migrate and validate a legacy save', () => {
+    const restored = restoreSavedState(createLegacySave());
+
+    expect(restored?.currentStep).toBe('step-10a');
+    expect(restored?.extras?.packingTier).toBe('fragile');
+  });
+
+  it('should reset only the sections that are invalid', () => {
+    const restored = restoreSavedState({
+      ...initial,
+      serviceType: 'office',
+      sliderPosition: 99,
+      contact: { firstName: '<script>' },
+    });
+
+    expect(restored?.serviceType).toBe('office');
+    expect(restored?.sliderPosition).toBe(initial.sliderPosition);
+    expect(restored?.contact).toEqual(initial.contact);
+  });
+
+  it('should drop unknown fields', () => {
+    expect(restoreSavedState({ ...initial, injected: 'value' })).not.toHaveProperty('injected');
+  });
+
+  it('should reject saves that are not objects', () => {
+    expect(restoreSavedState(null)).toBeNull();
+    expect(restoreSavedState('state')).toBeNull();
+    expect(restoreSavedState([])).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  CALCULATOR_STEP_GRAPH,
+  getApplicableSteps,
+  getFirstIncompleteStep,
+  getFlow,
+  getStepFromPath,
+  getStepPath,
+  isStepReachable,
+} from '@/lib/calculator-steps';
+import { type CalculatorState, calculatorStore } from '@/lib/calculator-store';
+import { describe, expect, it } from 'vitest';
+
+const initial = calculatorStore.get();
+
+function createState(overrides: Partial<CalculatorState>): CalculatorState {
+  return { ...initial, ...overrides };
+}
+
+describe('Calculator Step Graph', () => {
+  it('should have unique step ids', () => {
+    const ids = CALCULATOR_STEP_GRAPH.map((step) => step.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should pick the flow from the service and property', () => {
+    expect(getFlow(initial)).toBe('home');
+    expect(getFlow(createState({ serviceType: 'home', propertySize: 'studio' }))).toBe('studio');
+    expect(getFlow(createState({ serviceType: 'home', propertySize: 'furniture' }))).toBe(
+      'furniture'
+    );
+    expect(getFlow(createState({ serviceType: 'office' }))).toBe('office');
+    expect(getFlow(createState({ serviceType: 'clearance' }))).toBe('clearance');
+  });
+
+  it('should build the full home flow', () => {
+    expect(
+      getApplicableSteps(createState({ serviceType: 'home', propertySize: '3bed-small' }))
+    ).toEqual([
+      'step-01',
+      'step-02',
+      'step-03',
+      'step-04',
+      'step-05',
+      'step-06',
+      'step-07',
+      'step-08',
+      'step-10',
+      'step-10e',
+      'step-11',
+      'step-12',
+    ]);
+  });
+
+  it('should swap the slider for the inventory', () => {
+    const steps = getApplicableSteps(
+      createState({ serviceType: 'home', propertySize: '3bed-small', useInventory: true })
+    );
+
+    expect(steps).toContain('step-03a');
+    expect(steps).not.toContain('step-03');
+  });
+
+  it('should skip steps that do not apply to the flow', () => {
+    expect(
+      getApplicableSteps(createState({ serviceType: 'home', propertySize: 'furniture' }))
+    ).toEqual(['step-01', 'step-02', 'step-05', 'step-08', 'step-10e', 'step-11', 'step-12']);
+    expect(getApplicableSteps(createState({ serviceType: 'clearance' }))).toEqual([
+      'step-01',
+      'step-02',
+      'step-05',
+      'step-06',
+      'step-08',
+      'step-11',
+      'step-12',
+    ]);
+    expect(
+      getApplicableSteps(createState({ serviceType: 'home', propertySize: 'studio' }))
+    ).not.toContain('step-03');
+  });
+
+  it('should add the date picker and chosen extras', () => {
+    const steps = getApplicableSteps(
+      createState({
+        serviceType: 'office',
+        officeSize: 'small',
+        dateFlexibility: 'fixed',
+        extras: { ...initial.extras, gateway: ['storage', 'packing'] },
+      })
+    );
+
+    expect(steps).toEqual([
+      'step-01',
+      'step-02',
+      'step-05',
+      'step-05b',
+      'step-06',
+      'step-07',
+      'step-08',
+      'step-10',
+      'step-10a',
+      'step-10d',
+      'step-10e',
+      'step-11',
+      'step-12',
+    ]);
+  });
+
+  it('should only reach steps once the ones before are complete', () => {
+    const state = createState({ serviceType: 'office', officeSize: 'small' });
+
+    expect(getFirstIncompleteStep(state)).toBe('step-05');
+    expect(isStepReachable(state, 'step-05')).toBe(true);
+    expect(isStepReachable(state, 'step-06')).toBe(false);
+    expect(isStepReachable(state, 'step-03')).toBe(false); // not in the office flow
+  });
+
+  it('should map steps to pages and back', () => {
+    expect(getStepPath('step-10a')).toBe('/calculator/step-10a');
+    expect(getStepFromPath('/calculator/step-10a')).toBe('step-10a');
+    expect(getStepFromPath('/calculator/step-05b/')).toBe('step-05b');
+    expect(getStepFromPath('/calculator/step-09')).toBeNull();
+    expect(getStepFromPath('/about')).toBeNull();
+  });
+});
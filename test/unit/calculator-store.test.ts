@@ -0,0 +1,58 @@
+import { DEFAULT_PRICING } from '@/lib/calculator-pricing';
+import {
+  calculatorStore,
+  initializeStore,
+  pricingStore,
+  promoStore,
+  quoteSettled,
+} from '@/lib/calculator-store';
+import { STORAGE } from '@/lib/constants';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// A fetch response the test resolves when it chooses
+function deferredResponse() {
+  let resolve: (body: unknown) => void = () => {};
+  const response = new Promise<Response>((done) => {
+    resolve = (body) => done(new Response(JSON.stringify(body)));
+  });
+  return { response, resolve };
+}
+
+describe('Quote readiness', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('should wait for pricing and the saved promo code after a reload on step 12', async () => {
+    localStorage.setItem(
+      STORAGE.CALCULATOR_STATE_KEY,
+      JSON.stringify({
+        ...calculatorStore.get(),
+        currentStep: 'step-12',
+        promoCode: 'SPRING10',
+        lastUpdatedAt: new Date().toISOString(),
+      })
+    );
+
+    const pricing = deferredResponse();
+    const promo = deferredResponse();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((url: string) => (url === '/api/pricing' ? pricing.response : promo.response))
+    );
+
+    initializeStore();
+
+    expect(calculatorStore.get().promoCode).toBe('SPRING10');
+    expect(quoteSettled.get()).toBe(false);
+
+    pricing.resolve({ version: 3, config: DEFAULT_PRICING.config });
+    await vi.waitFor(() => expect(pricingStore.get().version).toBe(3));
+    expect(quoteSettled.get()).toBe(false);
+
+    promo.resolve({ success: true, promo: { code: 'SPRING10', type: 'percent', value: 10 } });
+    await vi.waitFor(() => expect(quoteSettled.get()).toBe(true));
+    expect(promoStore.get()?.code).toBe('SPRING10');
+  });
+});
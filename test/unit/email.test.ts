@@ -39,6 +39,79 @@ describe('Email Templates', () => {
     expect(html).toContain('+36301234567');
   });
 
+  it('should render the price lines in both emails', () => {
+    const quote = {
+      ...mockQuote,
+      currency: 'GBP',
+      totalPrice: 500,
+      priceItems: [
+        { id: 'vans', kind: 'crew', label: '1 van × Half Day', amount: 300 },
+        { id: 'service', kind: 'service', label: 'Service & insurance', amount: 200 },
+      ],
+    } as Quote;
+
+    for (const html of [
+      generateQuoteConfirmationEmail(quote, 'https://example.com'),
+      generateAdminNotificationEmail(quote, 'https://example.com'),
+    ]) {
+      expect(html).toContain('1 van × Half Day');
+      expect(html).toContain('Service & insurance');
+      expect(html).toContain('£300');
+    }
+  });
+
+  it('should lead with the ex. VAT price for office moves', () => {
+    const quote = {
+      ...mockQuote,
+      currency: 'GBP',
+      totalPrice: 1200,
+      netPrice: 1000,
+      vatAmount: 200,
+      calculatorData: { serviceType: 'office' },
+      priceItems: [],
+    } as Quote;
+
+    const html = generateQuoteConfirmationEmail(quote, 'https://example.com');
+
+    expect(html).toContain('ex. VAT');
+    expect(html).toContain('VAT (20%)');
+    expect(html).toContain('£1,000');
+  });
+
+  it('should list the inventory by room in the admin email', () => {
+    const quote = {
+      ...mockQuote,
+      inventory: [
+        { item: 'mediumBox', quantity: 20 },
+        { item: 'doubleBed', quantity: 1 },
+      ],
+    } as Quote;
+
+    const html = generateAdminNotificationEmail(quote, 'https://example.com');
+
+    expect(html).toContain('Inventory:');
+    expect(html).toContain('Bedrooms');
+    expect(html).toContain('Double bed & mattress');
+    expect(html).toContain('× 20');
+  });
+
+  it('should show insurance cover in the admin email', () => {
+    const quote = {
+      ...mockQuote,
+      currency: 'GBP',
+      insuranceCover: 'full',
+      declaredValue: 25000,
+    } as Quote;
+
+    const html = generateAdminNotificationEmail(quote, 'https://example.com');
+
+    expect(html).toContain('Insurance:');
+    expect(html).toContain('Full replacement - £25,000 declared');
+    expect(generateAdminNotificationEmail(mockQuote as Quote, 'https://example.com')).not.toContain(
+      'Insurance:'
+    );
+  });
+
   it('should handle missing optional fields', () => {
     const minimalQuote: Partial<Quote> = {
       id: 456,
@@ -0,0 +1,61 @@
+import {
+  type LatLng,
+  decodePolyline,
+  getPostcodeDistrict,
+  isPointInPolygon,
+  pathEntersPolygon,
+} from '@/lib/utils/geo';
+import { describe, expect, it } from 'vitest';
+
+const square: LatLng[] = [
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [0, 0],
+];
+
+describe('Geo Utilities', () => {
+  it('should get the district of a postcode', () => {
+    expect(getPostcodeDistrict('BS1 4DJ')).toBe('BS1');
+    expect(getPostcodeDistrict('bs10 5pn')).toBe('BS10');
+    expect(getPostcodeDistrict('EC1A1BB')).toBe('EC1A');
+    expect(getPostcodeDistrict('SW1')).toBe('SW1');
+    expect(getPostcodeDistrict('Bristol')).toBeUndefined();
+  });
+
+  it('should decode an encoded polyline', () => {
+    const points = decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+
+    expect(points).toHaveLength(3);
+    expect(points[0][0]).toBeCloseTo(38.5);
+    expect(points[0][1]).toBeCloseTo(-120.2);
+    expect(points[2][0]).toBeCloseTo(43.252);
+    expect(points[2][1]).toBeCloseTo(-126.453);
+  });
+
+  it('should find points inside a polygon', () => {
+    expect(isPointInPolygon([0.5, 0.5], square)).toBe(true);
+    expect(isPointInPolygon([1.5, 0.5], square)).toBe(false);
+  });
+
+  it('should catch a path crossing a polygon between two points', () => {
+    expect(
+      pathEntersPolygon(
+        [
+          [0.5, -1],
+          [0.5, 2],
+        ],
+        square
+      )
+    ).toBe(true);
+    expect(
+      pathEntersPolygon(
+        [
+          [2, -1],
+          [2, 2],
+        ],
+        square
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  getAbandonmentReport,
+  getRecoveryWindow,
+  toConvertedLead,
+  toDraftLead,
+} from '@/lib/core/calculator/leads';
+import type { Quote } from '@/lib/core/db/schema';
+import { describe, expect, it } from 'vitest';
+
+const state = {
+  sessionId: '0b6f3c1e-5d2a-4c8e-9f1b-2a7d4e6c8b90',
+  lastUpdatedAt: '2024-01-15T10:30:00.000Z',
+  currentStep: 'step-11',
+  serviceType: 'home',
+  contact: {
+    firstName: 'John',
+    lastName: 'Smith',
+    email: 'john@example.com',
+    phone: '07700 900123',
+    gdprConsent: true as const,
+    marketingConsent: true,
+  },
+};
+
+describe('Draft Leads', () => {
+  it('should build a draft lead from the calculator session', () => {
+    expect(toDraftLead(state)).toEqual({
+      sessionId: state.sessionId,
+      name: 'John Smith',
+      email: 'john@example.com',
+      phone: '07700 900123',
+      marketingConsent: true,
+      serviceType: 'home',
+      abandonedStep: 'step-11',
+      calculatorData: state,
+    });
+  });
+
+  it('should build a converted lead from the saved quote', () => {
+    const quote = {
+      id: 42,
+      name: 'John Smith',
+      email: 'john@example.com',
+      phone: null,
+      calculatorData: { serviceType: 'office' },
+    } as Quote;
+
+    expect(toConvertedLead(state.sessionId, quote)).toMatchObject({
+      sessionId: state.sessionId,
+      name: 'John Smith',
+      serviceType: 'office',
+      abandonedStep: 'step-12',
+      status: 'converted',
+      quoteId: 42,
+    });
+  });
+
+  it('should only recover drafts untouched for the delay while their session lasts', () => {
+    const now = new Date('2024-02-01T12:00:00.000Z');
+    const { updatedBefore, updatedAfter } = getRecoveryWindow(now, 24);
+
+    expect(updatedBefore.toISOString()).toBe('2024-01-31T12:00:00.000Z');
+    expect(updatedAfter.toISOString()).toBe('2024-01-02T12:00:00.000Z'); // 30 days
+  });
+
+  it('should report abandoned quotes by step with their share', () => {
+    const report = getAbandonmentReport([
+      { step: 'step-06', count: 1 },
+      { step: 'step-11', count: 3 },
+    ]);
+
+    expect(report).toEqual({
+      total: 4,
+      steps: [
+        { step: 'step-06', count: 1, percent: 25 },
+        { step: 'step-11', count: 3, percent: 75 },
+      ],
+    });
+    expect(getAbandonmentReport([])).toEqual({ total: 0, steps: [] });
+  });
+});
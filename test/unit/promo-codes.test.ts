@@ -0,0 +1,53 @@
+import { checkPromoCode, normalizePromoCode } from '@/lib/core/calculator/promo';
+import type { PromoCodeRecord } from '@/lib/core/db/schema';
+import { describe, expect, it } from 'vitest';
+
+describe('Promo Codes', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  const record: PromoCodeRecord = {
+    id: 1,
+    code: 'SPRING10',
+    discountType: 'percent',
+    discountValue: 10,
+    validFrom: new Date('2026-10-01T00:00:00.000Z'),
+    validUntil: new Date('2026-10-31T23:59:59.000Z'),
+    maxUses: 100,
+    usedCount: 5,
+    minJobValue: 300,
+    serviceTypes: ['home'],
+    campaign: 'Autumn leaflet',
+    active: true,
+    createdAt: now,
+  };
+
+  it('should normalize codes', () => {
+    expect(normalizePromoCode('  spring10 ')).toBe('SPRING10');
+  });
+
+  it('should return the discount terms for a valid code', () => {
+    const check = checkPromoCode(record, now);
+
+    expect(check.status).toBe('valid');
+    if (check.status === 'valid') {
+      expect(check.promo).toEqual({
+        code: 'SPRING10',
+        type: 'percent',
+        value: 10,
+        minJobValue: 300,
+        serviceTypes: ['home'],
+      });
+    }
+  });
+
+  it('should reject codes outside their validity window', () => {
+    expect(checkPromoCode(record, new Date('2026-09-30T12:00:00.000Z')).status).toBe('not_started');
+    expect(checkPromoCode(record, new Date('2026-11-01T12:00:00.000Z')).status).toBe('expired');
+  });
+
+  it('should reject unknown, inactive and used-up codes', () => {
+    expect(checkPromoCode(null, now).status).toBe('not_found');
+    expect(checkPromoCode({ ...record, active: false }, now).status).toBe('inactive');
+    expect(checkPromoCode({ ...record, usedCount: 100 }, now).status).toBe('used_up');
+  });
+});
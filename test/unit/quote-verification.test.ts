@@ -0,0 +1,192 @@
+import { calculateQuote } from '@/lib/calculator-logic';
+import { DEFAULT_PRICING_CONFIG } from '@/lib/calculator-pricing';
+import {
+  buildQuoteInput,
+  checkClientPrice,
+  verifySubmittedQuote,
+} from '@/lib/core/calculator/verification';
+import { describe, expect, it } from 'vitest';
+
+describe('Quote Verification', () => {
+  const submission = {
+    serviceType: 'home',
+    propertySize: '3bed-small',
+    officeSize: null,
+    furnitureOnly: null,
+    sliderPosition: 3,
+    manualOverride: null,
+    complications: ['stairs'],
+    propertyChain: false,
+    distances: {
+      depotToFrom: 4,
+      fromToTo: 20,
+      toToDepot: 18,
+      driveTimeHours: 1.2,
+      customerDistance: 20,
+      customerDriveMinutes: 35,
+    },
+    extras: { gateway: ['packing'], packingTier: 'fragile', disassemblyItems: [] },
+  };
+
+  describe('buildQuoteInput', () => {
+    it('should rebuild a quote input from submission data', () => {
+      const input = buildQuoteInput(submission);
+
+      expect(input).not.toBeNull();
+      expect(input?.propertySize).toBe('3bed-small');
+      expect(input?.manualOverride).toBeUndefined();
+      expect(input?.extras.packingTier).toBe('fragile');
+    });
+
+    it('should pass specialist items through', () => {
+      const input = buildQuoteInput({
+        ...submission,
+        propertySize: 'furniture',
+        furnitureOnly: {
+          itemCount: 2,
+          needs2Person: true,
+          over40kg: false,
+          specialistItems: ['piano'],
+        },
+      });
+
+      expect(input?.furnitureOnly?.specialistItems).toEqual(['piano']);
+    });
+
+    it('should reject unknown specialist items', () => {
+      const input = buildQuoteInput({
+        ...submission,
+        propertySize: 'furniture',
+        furnitureOnly: {
+          itemCount: 2,
+          needs2Person: true,
+          over40kg: false,
+          specialistItems: ['rocket'],
+        },
+      });
+
+      expect(input).toBeNull();
+    });
+
+    it('should map address floor levels to floor access', () => {
+      const input = buildQuoteInput({
+        ...submission,
+        fromAddress: { formatted: 'A', postcode: 'BS1 1AA', floorLevel: 3, lift: 'small' },
+        toAddress: { formatted: 'B', postcode: 'BS2 2BB', floorLevel: 0 },
+      });
+
+      expect(input?.access?.from).toEqual({ floorLevel: 3, lift: 'small' });
+      expect(input?.access?.to).toEqual({ floorLevel: 0, lift: 'none' });
+    });
+
+    it('should map addresses and the route path for road charges', () => {
+      const input = buildQuoteInput({
+        ...submission,
+        fromAddress: { formatted: 'A', postcode: 'BS1 1AA', lat: 51.45, lng: -2.59 },
+        toAddress: { formatted: 'B', postcode: 'SE1 7PB' },
+        distances: { ...submission.distances, path: '_riyHokq@ntL?' },
+      });
+
+      expect(input?.route?.points).toEqual([
+        { postcode: 'BS1 1AA', lat: 51.45, lng: -2.59 },
+        { postcode: 'SE1 7PB' },
+      ]);
+      expect(input?.route?.path).toBe('_riyHokq@ntL?');
+    });
+
+    it('should keep a room-by-room inventory', () => {
+      const inventory = [{ item: 'kingBed', quantity: 1 }];
+      const input = buildQuoteInput({ ...submission, sliderPosition: null, inventory });
+
+      expect(input?.inventory).toEqual(inventory);
+    });
+
+    it('should reject unknown inventory items', () => {
+      expect(
+        buildQuoteInput({ ...submission, inventory: [{ item: 'spaceship', quantity: 1 }] })
+      ).toBeNull();
+    });
+
+    it('should keep clearance details', () => {
+      const clearance = { load: 'quarter', items: { weee: 1 }, recycling: true };
+      const input = buildQuoteInput({
+        ...submission,
+        serviceType: 'clearance',
+        propertySize: null,
+        sliderPosition: null,
+        clearance,
+      });
+
+      expect(input?.clearance).toEqual(clearance);
+    });
+
+    it('should map extra stops to stop access', () => {
+      const input = buildQuoteInput({
+        ...submission,
+        stops: [
+          {
+            type: 'pickup',
+            formatted: 'Storage unit',
+            postcode: 'BS3 3CC',
+            floorLevel: 1,
+            lift: 'fits',
+            notes: 'Unit 42',
+          },
+          { type: 'dropoff', formatted: 'C', postcode: 'BS4 4DD' },
+        ],
+      });
+
+      expect(input?.stops).toEqual([
+        { type: 'pickup', access: { floorLevel: 1, lift: 'fits' } },
+        { type: 'dropoff', access: undefined },
+      ]);
+    });
+
+    it('should take the depot from the route', () => {
+      const input = buildQuoteInput({
+        ...submission,
+        distances: { ...submission.distances, depot: 'bristol' },
+      });
+
+      expect(input?.depot).toBe('bristol');
+      expect(buildQuoteInput(submission)?.depot).toBeUndefined();
+    });
+
+    it('should return null for incomplete data', () => {
+      expect(buildQuoteInput({ ...submission, distances: null })).toBeNull();
+      expect(buildQuoteInput({ serviceType: 'home' })).toBeNull();
+    });
+  });
+
+  describe('checkClientPrice', () => {
+    it('should accept prices within tolerance', () => {
+      expect(checkClientPrice(1010, 1000).status).toBe('match');
+    });
+
+    it('should flag moderate differences', () => {
+      const check = checkClientPrice(900, 1000);
+      expect(check.status).toBe('flagged');
+      expect(check.difference).toBe(-100);
+    });
+
+    it('should reject large differences', () => {
+      expect(checkClientPrice(10, 1000).status).toBe('rejected');
+    });
+  });
+
+  describe('verifySubmittedQuote', () => {
+    it('should price the submission with calculateQuote', () => {
+      const input = buildQuoteInput(submission);
+      const expected = input ? calculateQuote(input, DEFAULT_PRICING_CONFIG).totalPrice : 0;
+
+      const result = verifySubmittedQuote(submission, expected, DEFAULT_PRICING_CONFIG);
+      expect(result?.quote.totalPrice).toBe(expected);
+      expect(result?.check.status).toBe('match');
+    });
+
+    it('should reject a tampered price', () => {
+      const result = verifySubmittedQuote(submission, 10, DEFAULT_PRICING_CONFIG);
+      expect(result?.check.status).toBe('rejected');
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import {
   generateCSRFToken,
+  isAdminRequest,
   isBot,
   validateCSRFToken,
   validateOrigin,
@@ -36,4 +37,17 @@ describe('Security Utilities', () => {
     expect(validateCSRFToken(token, 'wrong')).toBe(false);
     expect(validateCSRFToken('', token)).toBe(false);
   });
+
+  it('should only accept the admin API key as a bearer token', () => {
+    const request = (authorization?: string) =>
+      new Request('https://your-domain.com/api/leads/funnel', {
+        headers: authorization ? { Authorization: authorization } : {},
+      });
+
+    expect(isAdminRequest(request('Bearer admin-key'), 'admin-key')).toBe(true);
+    expect(isAdminRequest(request('Bearer wrong-key'), 'admin-key')).toBe(false);
+    expect(isAdminRequest(request('admin-key'), 'admin-key')).toBe(false);
+    expect(isAdminRequest(request(), 'admin-key')).toBe(false);
+    expect(isAdminRequest(request('Bearer '), '')).toBe(false);
+  });
 });
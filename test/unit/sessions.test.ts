@@ -0,0 +1,94 @@
+// @vitest-environment node
+// (jsdom's ArrayBuffer isn't accepted by Node's WebCrypto, so HMAC checks fail there)
+import {
+  type SessionState,
+  createResumeToken,
+  createSessionToken,
+  getSession,
+  readResumeToken,
+  saveSession,
+  verifySessionToken,
+} from '@/lib/core/calculator/sessions';
+import { describe, expect, it } from 'vitest';
+
+const secret = 'test-secret';
+const sessionId = '0b6f3c1e-5d2a-4c8e-9f1b-2a7d4e6c8b90';
+
+function createKV() {
+  const values = new Map<string, string>();
+
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+  };
+}
+
+function createState(lastUpdatedAt: string, currentStep: number): SessionState {
+  return { sessionId, lastUpdatedAt, currentStep };
+}
+
+describe('Saved Sessions', () => {
+  it('should read back a signed resume token', async () => {
+    const token = await createResumeToken(sessionId, secret);
+
+    expect(await readResumeToken(token, secret)).toBe(sessionId);
+  });
+
+  it('should reject tampered, wrongly signed or expired tokens', async () => {
+    const now = Date.now();
+    const token = await createResumeToken(sessionId, secret, now);
+    const [, expiresAt, signature] = token.split('.');
+
+    expect(await readResumeToken(`other-session.${expiresAt}.${signature}`, secret)).toBeNull();
+    expect(await readResumeToken(token, 'other-secret')).toBeNull();
+    expect(await readResumeToken(token, secret, Number(expiresAt) + 1)).toBeNull();
+    expect(await readResumeToken('not-a-token', secret)).toBeNull();
+  });
+
+  it('should only accept the session token issued for the session', async () => {
+    const token = await createSessionToken(sessionId, secret);
+
+    expect(await verifySessionToken(sessionId, token, secret)).toBe(true);
+    expect(await verifySessionToken(crypto.randomUUID(), token, secret)).toBe(false);
+    expect(await verifySessionToken(sessionId, token, 'other-secret')).toBe(false);
+    expect(await verifySessionToken(sessionId, 'not-a-token', secret)).toBe(false);
+  });
+
+  it('should save and load a session', async () => {
+    const kv = createKV();
+
+    expect(await saveSession(kv, createState('2024-01-15T10:00:00.000Z', 4))).toBe(true);
+    expect(await getSession(kv, sessionId)).toMatchObject({ currentStep: 4 });
+    expect(await getSession(kv, 'missing')).toBeNull();
+  });
+
+  it('should keep a newer saved copy over an older one', async () => {
+    const kv = createKV();
+
+    await saveSession(kv, createState('2024-01-15T11:00:00.000Z', 8));
+
+    expect(await saveSession(kv, createState('2024-01-15T10:00:00.000Z', 4))).toBe(false);
+    expect(await getSession(kv, sessionId)).toMatchObject({ currentStep: 8 });
+
+    expect(await saveSession(kv, createState('2024-01-15T12:00:00.000Z', 10))).toBe(true);
+    expect(await getSession(kv, sessionId)).toMatchObject({ currentStep: 10 });
+  });
+
+  it('should not let a copy dated in the future lock out later changes', async () => {
+    const kv = createKV();
+    const now = Date.parse('2024-01-15T10:00:00.000Z');
+
+    await saveSession(kv, createState('2099-01-01T00:00:00.000Z', 8), now);
+    expect(await getSession(kv, sessionId)).toMatchObject({
+      lastUpdatedAt: '2024-01-15T10:00:00.000Z',
+    });
+
+    expect(
+      await saveSession(kv, createState('2024-01-15T10:05:00.000Z', 10), now + 5 * 60 * 1000)
+    ).toBe(true);
+    expect(await getSession(kv, sessionId)).toMatchObject({ currentStep: 10 });
+  });
+});
@@ -1,8 +1,11 @@
 import {
   calculateSchema,
+  draftLeadSchema,
   emailSchema,
   nameSchema,
   phoneSchema,
+  quoteInputSchema,
+  resumeLinkSchema,
   saveQuoteSchema,
 } from '@/lib/core/validations/schemas';
 import { describe, expect, it } from 'vitest';
@@ -78,19 +81,174 @@ describe('Validation Schemas', () => {
       expect(result.currency).toBe('HUF');
       expect(result.language).toBe('en');
     });
+
+    it('should accept the session token for the draft lead', () => {
+      const result = saveQuoteSchema.parse({
+        data: { sessionId: 'abc' },
+        totalPrice: 5000,
+        sessionToken: '9f2c',
+      });
+      expect(result.sessionToken).toBe('9f2c');
+
+      expect(() =>
+        saveQuoteSchema.parse({ data: {}, totalPrice: 5000, sessionToken: '' })
+      ).toThrow();
+    });
+  });
+
+  describe('quoteInputSchema', () => {
+    const homeMove = {
+      serviceType: 'home',
+      propertySize: '2bed',
+      sliderPosition: 3,
+      distances: { depotToFrom: 5, fromToTo: 10, toToDepot: 8, driveTimeHours: 1 },
+    };
+
+    it('should validate a home move and apply defaults', () => {
+      const result = quoteInputSchema.parse(homeMove);
+      expect(result.complications).toEqual([]);
+      expect(result.propertyChain).toBe(false);
+      expect(result.extras).toEqual({});
+    });
+
+    it('should reject unknown config keys', () => {
+      expect(() => quoteInputSchema.parse({ ...homeMove, propertySize: '9bed' })).toThrow();
+      expect(() => quoteInputSchema.parse({ ...homeMove, complications: ['moat'] })).toThrow();
+      expect(() =>
+        quoteInputSchema.parse({ ...homeMove, extras: { packingTier: 'gold' } })
+      ).toThrow();
+    });
+
+    it('should validate insurance cover', () => {
+      const insured = (insurance: unknown) =>
+        quoteInputSchema.safeParse({ ...homeMove, extras: { insurance } }).success;
+
+      expect(insured({ level: 'full', declaredValue: 25000 })).toBe(true);
+      expect(insured({ level: 'platinum', declaredValue: 25000 })).toBe(false);
+      expect(insured({ level: 'basic', declaredValue: 0 })).toBe(false);
+      expect(insured({ level: 'basic', declaredValue: 1_000_000 })).toBe(false);
+    });
+
+    it('should require a size input', () => {
+      expect(() =>
+        quoteInputSchema.parse({ ...homeMove, propertySize: undefined, sliderPosition: undefined })
+      ).toThrow();
+      expect(() => quoteInputSchema.parse({ ...homeMove, serviceType: 'office' })).not.toThrow();
+      expect(() =>
+        quoteInputSchema.parse({ ...homeMove, propertySize: undefined, serviceType: 'office' })
+      ).toThrow();
+    });
+
+    it('should reject invalid van/crew overrides', () => {
+      expect(() =>
+        quoteInputSchema.parse({ ...homeMove, manualOverride: { men: 7, vans: 2 } })
+      ).toThrow();
+      expect(() =>
+        quoteInputSchema.parse({ ...homeMove, manualOverride: { men: 4, vans: 2 } })
+      ).not.toThrow();
+    });
   });
 
   describe('calculateSchema', () => {
     it('should validate calculation input', () => {
       const valid = {
-        step: 'step-01',
-        data: { quantity: 5 },
+        data: {
+          serviceType: 'office',
+          officeSize: 'small',
+          distances: { depotToFrom: 5, fromToTo: 10, toToDepot: 8, driveTimeHours: 1 },
+        },
         language: 'en',
       };
 
       const result = calculateSchema.parse(valid);
-      expect(result.step).toBe('step-01');
-      expect(result.data).toEqual({ quantity: 5 });
+      expect(result.data.officeSize).toBe('small');
+      expect(result.language).toBe('en');
+    });
+
+    it('should reject free-form data', () => {
+      expect(() => calculateSchema.parse({ data: { quantity: 5 } })).toThrow();
+    });
+  });
+
+  describe('resumeLinkSchema', () => {
+    const state = {
+      sessionId: '0b6f3c1e-5d2a-4c8e-9f1b-2a7d4e6c8b90',
+      lastUpdatedAt: '2024-01-15T10:30:00.000Z',
+      currentStep: 6,
+    };
+    const sessionToken = 'a1b2c3';
+
+    it('should keep the rest of the calculator state', () => {
+      const result = resumeLinkSchema.parse({ state, sessionToken, email: 'John@Example.com' });
+      expect(result.state.currentStep).toBe(6);
+      expect(result.email).toBe('john@example.com');
+    });
+
+    it('should require a session ID and timestamp', () => {
+      expect(() =>
+        resumeLinkSchema.parse({
+          state: { ...state, sessionId: null },
+          sessionToken,
+          email: 'john@example.com',
+        })
+      ).toThrow();
+      expect(() =>
+        resumeLinkSchema.parse({
+          state: { ...state, lastUpdatedAt: null },
+          sessionToken,
+          email: 'john@example.com',
+        })
+      ).toThrow();
+    });
+
+    it('should require a session token', () => {
+      expect(() => resumeLinkSchema.parse({ state, email: 'john@example.com' })).toThrow();
+      expect(() =>
+        resumeLinkSchema.parse({ state, sessionToken: '', email: 'john@example.com' })
+      ).toThrow();
+    });
+  });
+
+  describe('draftLeadSchema', () => {
+    const state = {
+      sessionId: '0b6f3c1e-5d2a-4c8e-9f1b-2a7d4e6c8b90',
+      lastUpdatedAt: '2024-01-15T10:30:00.000Z',
+      currentStep: 'step-11',
+      serviceType: 'home',
+      contact: {
+        firstName: 'John',
+        lastName: 'Smith',
+        email: 'John@Example.com',
+        phone: '07700 900123',
+        gdprConsent: true,
+        marketingConsent: false,
+      },
+    };
+    const sessionToken = 'a1b2c3';
+
+    it('should accept a session with contact details and consent', () => {
+      const result = draftLeadSchema.parse({ state, sessionToken });
+      expect(result.state.contact.email).toBe('john@example.com');
+      expect(result.state.currentStep).toBe('step-11');
+    });
+
+    it('should require consent and valid contact details', () => {
+      expect(() =>
+        draftLeadSchema.parse({
+          state: { ...state, contact: { ...state.contact, gdprConsent: false } },
+          sessionToken,
+        })
+      ).toThrow();
+      expect(() =>
+        draftLeadSchema.parse({
+          state: { ...state, contact: { ...state.contact, email: '' } },
+          sessionToken,
+        })
+      ).toThrow();
+    });
+
+    it('should require a session token', () => {
+      expect(() => draftLeadSchema.parse({ state })).toThrow();
     });
   });
 });